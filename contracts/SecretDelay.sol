@@ -3,6 +3,7 @@ pragma solidity >=0.8.0;
 
 import "@gnosis.pm/zodiac/contracts/core/Modifier.sol";
 import "@openzeppelin/contracts-upgradeable/utils/CountersUpgradeable.sol";
+import "@openzeppelin/contracts-upgradeable/utils/cryptography/ECDSAUpgradeable.sol";
 
 contract SecretDelay is Modifier {
   using CountersUpgradeable for CountersUpgradeable.Counter;
@@ -35,6 +36,102 @@ contract SecretDelay is Modifier {
     uint256 indexed startingApprovedTrxNonce,
     uint256 numberOfTrxApproved
   );
+  event TransactionExecuted(
+    uint256 indexed nonce,
+    bytes32 indexed txHash,
+    bool success
+  );
+  event TransactionsSkipped(
+    uint256 indexed startingSkippedTrxNonce,
+    uint256 numberOfTrxSkipped
+  );
+  event SecretTransactionRevealed(
+    uint256 indexed nonce,
+    bytes32 indexed txHash,
+    address to,
+    uint256 value,
+    bytes data,
+    Enum.Operation operation,
+    uint256 salt
+  );
+  event SignerSet(address indexed signer, bool allowed);
+  event SecretTransactionRelayed(
+    uint256 indexed queuePointer,
+    address indexed signer,
+    uint256 signerNonce
+  );
+  event TransactionHashApproved(uint256 indexed nonce, bytes32 indexed txHash);
+  event TransactionCancelled(
+    uint256 indexed nonce,
+    bytes32 indexed txHash,
+    address canceller
+  );
+  event GuardianAdded(address indexed guardian);
+  event GuardianRemoved(address indexed guardian);
+  event ParameterChangeScheduled(
+    Parameter indexed parameter,
+    uint256 value,
+    uint256 eta
+  );
+  event ParameterChangeCancelled(Parameter indexed parameter, uint256 value);
+  event ParameterChanged(Parameter indexed parameter, uint256 value);
+  event TargetPolicySet(
+    address indexed target,
+    uint256 cooldown,
+    uint256 expiration
+  );
+  event TargetPolicyRemoved(address indexed target);
+  event SelectorPolicySet(
+    bytes4 indexed selector,
+    uint256 cooldown,
+    uint256 expiration
+  );
+  event SelectorPolicyRemoved(bytes4 indexed selector);
+  event SecretPolicySet(uint256 cooldown, uint256 expiration);
+  event SecretPolicyRemoved();
+  event PolicyChangeScheduled(bytes32 indexed changeHash, uint256 eta);
+  event PolicyChangeCancelled(bytes32 indexed changeHash);
+
+  // Preimage of a queued transaction for executeNextTxBatch. `salt` is only used if `secret` is set.
+  struct TransactionPreimage {
+    address to;
+    uint256 value;
+    bytes data;
+    Enum.Operation operation;
+    bool secret;
+    uint256 salt;
+  }
+
+  // Parameters whose changes are time-locked, see setTxCooldown and setTxExpiration.
+  enum Parameter {TxCooldown, TxExpiration}
+
+  // Scheduled value of a parameter and the timestamp from which it can be applied.
+  struct ParameterChange {
+    uint256 value;
+    uint256 eta;
+  }
+
+  // Cooldown and expiration that replace txCooldown and txExpiration for the transactions a policy applies to.
+  struct Policy {
+    bool enabled;
+    uint256 cooldown;
+    uint256 expiration;
+  }
+
+  bytes32 public constant DOMAIN_SEPARATOR_TYPEHASH =
+    keccak256("EIP712Domain(uint256 chainId,address verifyingContract)");
+  bytes32 public constant TRANSACTION_TYPEHASH =
+    keccak256(
+      "Transaction(address to,uint256 value,bytes data,uint8 operation)"
+    );
+  bytes32 public constant SECRET_TRANSACTION_TYPEHASH =
+    keccak256(
+      "SecretTransaction(address to,uint256 value,bytes data,uint8 operation,uint256 salt)"
+    );
+  bytes32 public constant ENQUEUE_SECRET_TYPEHASH =
+    keccak256(
+      "EnqueueSecret(bytes32 txHash,string uri,uint256 nonce,uint256 deadline)"
+    );
 
   CountersUpgradeable.Counter public salt;
   uint256 public txCooldown;
@@ -46,20 +143,57 @@ contract SecretDelay is Modifier {
   mapping(uint256 => bytes32) public txHash;
   // Mapping of queue nonce to creation timestamp.
   mapping(uint256 => uint256) public txCreatedAt;
+  // If set, transaction hashes are EIP-712 hashes bound to this chain and modifier.
+  bool public domainSeparated;
+  // Addresses that can enqueue secret transactions through a relayer with a signed EnqueueSecret message.
+  mapping(address => bool) public signers;
+  // Mapping of signer to the nonce its next EnqueueSecret message has to use.
+  mapping(address => uint256) public signerNonce;
+  // Mapping of queue nonce to whether the secret transaction has been revealed with revealSecretTx.
+  mapping(uint256 => bool) public txRevealed;
+  // If set, secret transactions have to be revealed before they can be executed.
+  bool public revealRequired;
+  // Addresses that can veto transactions, without any of the other rights of the owner.
+  mapping(address => bool) public guardians;
+  // Mapping of queue nonce to the hash approved for it with approveHashes, honored only if it is the hash at that nonce.
+  mapping(uint256 => bytes32) public approvedHash;
+  // Mapping of queue nonce to the module that enqueued the transaction, or the signer of a relayed transaction.
+  mapping(uint256 => address) public txProposer;
+  // Mapping of queue nonce to whether the transaction has been cancelled. txNonce never points at a cancelled transaction.
+  mapping(uint256 => bool) public txCancelled;
+  // Lowest cooldown that can be set, fixed in setUp.
+  uint256 public minCooldown;
+  // Mapping of parameter to its scheduled change, the eta is 0 if no change is pending.
+  mapping(Parameter => ParameterChange) public pendingChanges;
+  // Mapping of target address to the policy of public transactions to it.
+  mapping(address => Policy) public targetPolicies;
+  // Mapping of function selector to the policy of public transactions calling it.
+  mapping(bytes4 => Policy) public selectorPolicies;
+  // Policy of secret transactions, whose target and selector are unknown when they are enqueued.
+  Policy public secretPolicy;
+  // Mapping of the hash of the calldata of a policy change that lowers a cooldown or expiration to the timestamp
+  // from which the same call applies it, 0 if it is not scheduled.
+  mapping(bytes32 => uint256) public pendingPolicyChanges;
+  // Strictest target or selector policy set so far, secret and delegate call transactions get at least its cooldown.
+  // It is not lowered when that policy is changed or removed.
+  Policy public strictestPolicy;
+  // Mapping of queue nonce to the cooldown and expiration recorded when the transaction was enqueued,
+  // disabled if no policy applied and they were txCooldown and txExpiration.
+  mapping(uint256 => Policy) public txPolicy;
+  // Mapping of queue nonce to the timestamp the secret transaction was revealed at, 0 if it has not been revealed.
+  mapping(uint256 => uint256) public txRevealedAt;
 
   modifier isExecutable() {
-    require(txNonce < queuePointer, "Transaction queue is empty");
+    _isExecutable(true);
+    if (approved > 0) approved--;
+    _;
+  }
+
+  modifier onlyOwnerOrGuardian() {
     require(
-      block.timestamp - txCreatedAt[txNonce] >= txCooldown || approved > 0,
-      "Transaction is still in cooldown"
+      msg.sender == owner() || guardians[msg.sender],
+      "Caller is not the owner or a guardian"
     );
-    if (txExpiration != 0) {
-      require(
-        txCreatedAt[txNonce] + txCooldown + txExpiration >= block.timestamp,
-        "Transaction expired"
-      );
-    }
-    if (approved > 0) approved--;
     _;
   }
 
@@ -68,16 +202,25 @@ contract SecretDelay is Modifier {
   /// @param _target Address of the contract that will call exec function
   /// @param _cooldown Cooldown in seconds that should be required after a transaction is proposed
   /// @param _expiration Duration that a proposed transaction is valid for after the cooldown, in seconds (or 0 if valid forever)
+  /// @param _minCooldown Lowest cooldown in seconds that can ever be set, 0 for no floor
   /// @notice There need to be at least 60 seconds between end of cooldown and expiration
   constructor(
     address _owner,
     address _avatar,
     address _target,
     uint256 _cooldown,
-    uint256 _expiration
+    uint256 _expiration,
+    uint256 _minCooldown
   ) {
     bytes memory initParams =
-      abi.encode(_owner, _avatar, _target, _cooldown, _expiration);
+      abi.encode(
+        _owner,
+        _avatar,
+        _target,
+        _cooldown,
+        _expiration,
+        _minCooldown
+      );
     setUp(initParams);
   }
 
@@ -87,8 +230,13 @@ contract SecretDelay is Modifier {
       address _avatar,
       address _target,
       uint256 _cooldown,
-      uint256 _expiration
-    ) = abi.decode(initParams, (address, address, address, uint256, uint256));
+      uint256 _expiration,
+      uint256 _minCooldown
+    ) =
+      abi.decode(
+        initParams,
+        (address, address, address, uint256, uint256, uint256)
+      );
     __Ownable_init();
     require(_avatar != address(0), "Avatar can not be zero address");
     require(_target != address(0), "Target can not be zero address");
@@ -96,11 +244,16 @@ contract SecretDelay is Modifier {
       _expiration == 0 || _expiration >= 60,
       "Expiratition must be 0 or at least 60 seconds"
     );
+    require(
+      _cooldown >= _minCooldown,
+      "Cooldown can not be below the minimum cooldown"
+    );
 
     avatar = _avatar;
     target = _target;
     txExpiration = _expiration;
     txCooldown = _cooldown;
+    minCooldown = _minCooldown;
 
     transferOwnership(_owner);
     setupModules();
@@ -116,34 +269,238 @@ contract SecretDelay is Modifier {
     modules[SENTINEL_MODULES] = SENTINEL_MODULES;
   }
 
-  /// @dev Sets the cooldown before a transaction can be executed.
+  /// @dev Schedules a new cooldown before a transaction can be executed, applied with finalizeParameterChange.
   /// @param cooldown Cooldown in seconds that should be required before the transaction can be executed
+  /// @notice The change can be applied once the current cooldown has passed, it replaces a pending cooldown change
+  /// @notice The cooldown can not be below minCooldown
   /// @notice This can only be called by the owner
   function setTxCooldown(uint256 cooldown) public onlyOwner {
-    txCooldown = cooldown;
+    require(
+      cooldown >= minCooldown,
+      "Cooldown can not be below the minimum cooldown"
+    );
+    _scheduleChange(Parameter.TxCooldown, cooldown);
   }
 
-  /// @dev Sets the duration for which a transaction is valid.
+  /// @dev Schedules a new duration for which a transaction is valid, applied with finalizeParameterChange.
   /// @param expiration Duration that a transaction is valid in seconds (or 0 if valid forever) after the cooldown
   /// @notice There need to be at least 60 seconds between end of cooldown and expiration
+  /// @notice The change can be applied once the current cooldown has passed, it replaces a pending expiration change
   /// @notice This can only be called by the owner
   function setTxExpiration(uint256 expiration) public onlyOwner {
     require(
       expiration == 0 || expiration >= 60,
       "Expiratition must be 0 or at least 60 seconds"
     );
-    txExpiration = expiration;
+    _scheduleChange(Parameter.TxExpiration, expiration);
+  }
+
+  /// @dev Applies the scheduled change of a parameter
+  /// @param parameter Parameter to change
+  /// @notice Can be called by anyone once the change is due
+  function finalizeParameterChange(Parameter parameter) public {
+    ParameterChange memory change = pendingChanges[parameter];
+    require(change.eta != 0, "No change pending");
+    require(block.timestamp >= change.eta, "Change is still in cooldown");
+    delete pendingChanges[parameter];
+    if (parameter == Parameter.TxCooldown) {
+      txCooldown = change.value;
+    } else {
+      txExpiration = change.value;
+    }
+    emit ParameterChanged(parameter, change.value);
+  }
+
+  /// @dev Drops the scheduled change of a parameter
+  /// @param parameter Parameter whose change to drop
+  /// @notice This can only be called by the owner or a guardian
+  function cancelParameterChange(Parameter parameter)
+    public
+    onlyOwnerOrGuardian
+  {
+    ParameterChange memory change = pendingChanges[parameter];
+    require(change.eta != 0, "No change pending");
+    delete pendingChanges[parameter];
+    emit ParameterChangeCancelled(parameter, change.value);
+  }
+
+  /// @dev Sets the cooldown and expiration of public transactions to a target
+  /// @param _target Address the transactions are sent to
+  /// @param cooldown Cooldown in seconds, at least minCooldown
+  /// @param expiration Duration that a transaction is valid in seconds (or 0 if valid forever) after the cooldown
+  /// @notice Applies to transactions enqueued from now on. If a selector policy applies as well, the one with the longer cooldown is used
+  /// @notice A change that lowers the cooldown or expiration is time-locked, see _isDue
+  /// @notice This can only be called by the owner
+  function setTargetPolicy(
+    address _target,
+    uint256 cooldown,
+    uint256 expiration
+  ) public onlyOwner {
+    Policy memory policy = _policy(cooldown, expiration);
+    if (!_isDue(targetPolicies[_target], policy)) return;
+    targetPolicies[_target] = policy;
+    _raiseStrictestPolicy(policy);
+    emit TargetPolicySet(_target, cooldown, expiration);
+  }
+
+  /// @dev Removes the policy of a target, its transactions get the policy of their selector or txCooldown and txExpiration again
+  /// @param _target Address the transactions are sent to
+  /// @notice Time-locked if it lowers the cooldown or expiration, see _isDue
+  /// @notice This can only be called by the owner
+  function removeTargetPolicy(address _target) public onlyOwner {
+    require(targetPolicies[_target].enabled, "Policy not set");
+    if (!_isDue(targetPolicies[_target], _defaultPolicy())) return;
+    delete targetPolicies[_target];
+    emit TargetPolicyRemoved(_target);
+  }
+
+  /// @dev Sets the cooldown and expiration of public transactions calling a function, on any target
+  /// @param selector First four bytes of the transaction data
+  /// @param cooldown Cooldown in seconds, at least minCooldown
+  /// @param expiration Duration that a transaction is valid in seconds (or 0 if valid forever) after the cooldown
+  /// @notice Applies to transactions enqueued from now on. If a target policy applies as well, the one with the longer cooldown is used
+  /// @notice A change that lowers the cooldown or expiration is time-locked, see _isDue
+  /// @notice This can only be called by the owner
+  function setSelectorPolicy(
+    bytes4 selector,
+    uint256 cooldown,
+    uint256 expiration
+  ) public onlyOwner {
+    Policy memory policy = _policy(cooldown, expiration);
+    if (!_isDue(selectorPolicies[selector], policy)) return;
+    selectorPolicies[selector] = policy;
+    _raiseStrictestPolicy(policy);
+    emit SelectorPolicySet(selector, cooldown, expiration);
+  }
+
+  /// @dev Removes the policy of a function selector
+  /// @param selector First four bytes of the transaction data
+  /// @notice Time-locked if it lowers the cooldown or expiration, see _isDue
+  /// @notice This can only be called by the owner
+  function removeSelectorPolicy(bytes4 selector) public onlyOwner {
+    require(selectorPolicies[selector].enabled, "Policy not set");
+    if (!_isDue(selectorPolicies[selector], _defaultPolicy())) return;
+    delete selectorPolicies[selector];
+    emit SelectorPolicyRemoved(selector);
+  }
+
+  /// @dev Sets the cooldown and expiration of secret transactions
+  /// @param cooldown Cooldown in seconds, at least minCooldown
+  /// @param expiration Duration that a transaction is valid in seconds (or 0 if valid forever) after the cooldown
+  /// @notice Applies to transactions enqueued from now on. Secret transactions still get strictestPolicy if it has a longer cooldown
+  /// @notice A change that lowers the cooldown or expiration is time-locked, see _isDue
+  /// @notice This can only be called by the owner
+  function setSecretPolicy(uint256 cooldown, uint256 expiration)
+    public
+    onlyOwner
+  {
+    Policy memory policy = _policy(cooldown, expiration);
+    if (!_isDue(secretPolicy, policy)) return;
+    secretPolicy = policy;
+    emit SecretPolicySet(cooldown, expiration);
+  }
+
+  /// @dev Removes the policy of secret transactions, they get txCooldown and txExpiration again
+  /// @notice Time-locked if it lowers the cooldown or expiration, see _isDue
+  /// @notice This can only be called by the owner
+  function removeSecretPolicy() public onlyOwner {
+    require(secretPolicy.enabled, "Policy not set");
+    if (!_isDue(secretPolicy, _defaultPolicy())) return;
+    delete secretPolicy;
+    emit SecretPolicyRemoved();
+  }
+
+  /// @dev Drops a scheduled policy change
+  /// @param changeHash Hash of the calldata of the policy change
+  /// @notice This can only be called by the owner or a guardian
+  function cancelPolicyChange(bytes32 changeHash) public onlyOwnerOrGuardian {
+    require(pendingPolicyChanges[changeHash] != 0, "No change pending");
+    delete pendingPolicyChanges[changeHash];
+    emit PolicyChangeCancelled(changeHash);
+  }
+
+  /// @dev Switches between EIP-712 transaction hashes bound to this chain and modifier and the legacy hashes of only the transaction fields.
+  /// @param _domainSeparated True to use EIP-712 hashes
+  /// @notice The queue has to be empty, as the hashes in it would not match anymore
+  /// @notice This can only be called by the owner
+  function setDomainSeparated(bool _domainSeparated) public onlyOwner {
+    require(
+      txNonce == queuePointer,
+      "Queue must be empty to change the hash format"
+    );
+    domainSeparated = _domainSeparated;
+  }
+
+  /// @dev Makes revealing a secret transaction a precondition for executing it
+  /// @param _revealRequired True to require secret transactions to be revealed before execution
+  /// @notice While revealing is required, the cooldown of a revealed transaction is counted from its reveal
+  /// @notice This can only be called by the owner
+  function setRevealRequired(bool _revealRequired) public onlyOwner {
+    revealRequired = _revealRequired;
+  }
+
+  /// @dev Allows or disallows an address to sign EnqueueSecret messages
+  /// @param signer Address of the signer
+  /// @param allowed True to allow the signer
+  /// @notice This can only be called by the owner
+  function setSigner(address signer, bool allowed) public onlyOwner {
+    signers[signer] = allowed;
+    emit SignerSet(signer, allowed);
+  }
+
+  /// @dev Allows an address to veto transactions
+  /// @param guardian Address of the guardian
+  /// @notice This can only be called by the owner
+  function addGuardian(address guardian) public onlyOwner {
+    require(guardian != address(0), "Guardian can not be zero address");
+    require(!guardians[guardian], "Guardian already added");
+    guardians[guardian] = true;
+    emit GuardianAdded(guardian);
+  }
+
+  /// @dev Takes the right to veto transactions from a guardian
+  /// @param guardian Address of the guardian
+  /// @notice This can only be called by the owner
+  function removeGuardian(address guardian) public onlyOwner {
+    require(guardians[guardian], "Guardian not added");
+    guardians[guardian] = false;
+    emit GuardianRemoved(guardian);
   }
 
   /// @dev Sets transaction nonce. Used to invalidate or skip transactions in queue.
   /// @param _newTxNonce 1 + nonce of transaction to veto
-  /// @notice This can only be called by the owner
-  function vetoTransactionsTill(uint256 _newTxNonce) public onlyOwner {
+  /// @notice This can only be called by the owner or a guardian
+  function vetoTransactionsTill(uint256 _newTxNonce)
+    public
+    onlyOwnerOrGuardian
+  {
     require(_newTxNonce > txNonce, "New nonce must be higher than current txNonce");
     require(_newTxNonce <= queuePointer, "Cannot be higher than queuePointer");
     _adjustApprovals(_newTxNonce);
     emit TransactionsVetoed(txNonce, _newTxNonce - txNonce);
     txNonce = _newTxNonce;
+    _skipCancelled();
+  }
+
+  /// @dev Cancels a single transaction in the queue, without vetoing the transactions before it
+  /// @param nonce Queue nonce of the transaction to cancel
+  /// @notice Cancelled transactions are stepped over by the execute functions and skipExpired
+  /// @notice This can only be called by the owner, a guardian, or the module (or signer) that enqueued the transaction
+  function cancelTransaction(uint256 nonce) public {
+    require(
+      nonce >= txNonce && nonce < queuePointer,
+      "Transaction is not in the queue"
+    );
+    require(!txCancelled[nonce], "Transaction already cancelled");
+    require(
+      msg.sender == owner() ||
+        guardians[msg.sender] ||
+        msg.sender == txProposer[nonce],
+      "Caller can not cancel this transaction"
+    );
+    txCancelled[nonce] = true;
+    emit TransactionCancelled(nonce, txHash[nonce], msg.sender);
+    _skipCancelled();
   }
 
   function vetoTransactionsTillAndApprove(uint256 _newTxNonce, uint256 _transactions)
@@ -166,6 +523,32 @@ contract SecretDelay is Modifier {
     approved = _transactions;
   }
 
+  /// @dev Approves the transactions with the given hashes, starting at `nonce`, to be executed before their cooldown ends
+  /// @param nonce Queue nonce of the first transaction to approve
+  /// @param hashes Hashes of the transactions at `nonce`, `nonce + 1`, ...
+  /// @notice Unlike approveNext, each approval is bound to its nonce and hash, so it does not move to another transaction
+  ///         when transactions before it are vetoed or skipped
+  /// @notice This can only be called by the owner
+  function approveHashes(uint256 nonce, bytes32[] memory hashes)
+    public
+    onlyOwner
+  {
+    require(hashes.length > 0, "Must approve at least one tx");
+    require(nonce >= txNonce, "Cannot approve executed tx");
+    require(
+      nonce + hashes.length <= queuePointer,
+      "Cannot approve unknown tx"
+    );
+    for (uint256 i = 0; i < hashes.length; i++) {
+      require(
+        hashes[i] != bytes32(0) && txHash[nonce + i] == hashes[i],
+        "Transaction hashes do not match"
+      );
+      approvedHash[nonce + i] = hashes[i];
+      emit TransactionHashApproved(nonce + i, hashes[i]);
+    }
+  }
+
   /// @dev Adds a transaction to the queue (same as avatar interface so that this can be placed between other modules and the avatar).
   /// @param to Destination address of module transaction
   /// @param value Ether value of module transaction
@@ -180,6 +563,11 @@ contract SecretDelay is Modifier {
   ) public override moduleOnly returns (bool success) {
     txHash[queuePointer] = getTransactionHash(to, value, data, operation);
     txCreatedAt[queuePointer] = block.timestamp;
+    txProposer[queuePointer] = msg.sender;
+    _recordDelay(
+      getPolicy(to, data),
+      operation == Enum.Operation.DelegateCall
+    );
     emit TransactionAdded(
       queuePointer,
       txHash[queuePointer],
@@ -199,8 +587,75 @@ contract SecretDelay is Modifier {
     public
     moduleOnly
   {
+    _enqueueSecretTx(hashedTransaction, uri, msg.sender);
+  }
+
+  /// @dev Adds the hashes of several transactions to consecutive slots of the queue, each with the next salt
+  /// @param hashedTransactions hashes of the transactions
+  /// @param uris URI under which the proposal of each transaction can be found
+  /// @notice Can only be called by enabled modules
+  function enqueueSecretTxBatch(
+    bytes32[] memory hashedTransactions,
+    string[] memory uris
+  ) public moduleOnly {
+    require(hashedTransactions.length > 0, "Batch must not be empty");
+    require(
+      hashedTransactions.length == uris.length,
+      "Batch must have one uri per hash"
+    );
+    for (uint256 i = 0; i < hashedTransactions.length; i++) {
+      _enqueueSecretTx(hashedTransactions[i], uris[i], msg.sender);
+    }
+  }
+
+  /// @dev Adds the hash of a transaction to the queue on behalf of an allowed signer
+  /// @param signer Address that signed the EnqueueSecret message
+  /// @param hashedTransaction hash of the transaction
+  /// @param uri URI under which the proposal can be found
+  /// @param deadline Last timestamp at which the message can be relayed
+  /// @param signature Signature of the EIP-712 EnqueueSecret message, using the current signerNonce of the signer
+  /// @notice Can be called by anyone
+  function enqueueSecretTxWithSignature(
+    address signer,
+    bytes32 hashedTransaction,
+    string memory uri,
+    uint256 deadline,
+    bytes memory signature
+  ) public {
+    require(block.timestamp <= deadline, "Signature expired");
+    require(signers[signer], "Signer not allowed");
+    uint256 nonce = signerNonce[signer];
+    bytes32 digest =
+      _typedDataHash(
+        keccak256(
+          abi.encode(
+            ENQUEUE_SECRET_TYPEHASH,
+            hashedTransaction,
+            keccak256(bytes(uri)),
+            nonce,
+            deadline
+          )
+        )
+      );
+    require(
+      ECDSAUpgradeable.recover(digest, signature) == signer,
+      "Invalid signature"
+    );
+    signerNonce[signer] = nonce + 1;
+    uint256 index = queuePointer;
+    _enqueueSecretTx(hashedTransaction, uri, signer);
+    emit SecretTransactionRelayed(index, signer, nonce);
+  }
+
+  function _enqueueSecretTx(
+    bytes32 hashedTransaction,
+    string memory uri,
+    address proposer
+  ) internal {
     txHash[queuePointer] = hashedTransaction;
     txCreatedAt[queuePointer] = block.timestamp;
+    txProposer[queuePointer] = proposer;
+    _recordDelay(secretPolicy, true);
     emit SecretTransactionAdded(
       queuePointer,
       txHash[queuePointer],
@@ -228,8 +683,7 @@ contract SecretDelay is Modifier {
       txHash[txNonce] == getTransactionHash(to, value, data, operation),
       "Transaction hashes do not match"
     );
-    txNonce++;
-    require(exec(to, value, data, operation), "Module transaction failed");
+    _execute(to, value, data, operation);
   }
 
   /// @dev Executes the next transaction only if the cooldown has passed or tx has been approved and the transaction has not expired
@@ -250,37 +704,217 @@ contract SecretDelay is Modifier {
         getSecretTransactionHash(to, value, data, operation, _salt),
       "Transaction hashes do not match"
     );
-    txNonce++;
-    require(exec(to, value, data, operation), "Module transaction failed");
+    require(
+      !revealRequired || txRevealed[txNonce],
+      "Transaction has to be revealed first"
+    );
+    _execute(to, value, data, operation);
+  }
+
+  /// @dev Publishes a secret transaction in the queue without executing it, so that it can be reviewed during its cooldown
+  /// @param nonce Queue nonce of the secret transaction
+  /// @param to Destination address of module transaction
+  /// @param value Ether value of module transaction
+  /// @param data Data payload of module transaction
+  /// @param operation Operation type of module transaction
+  /// @param _salt Salt that was used for hashing the tx originally
+  /// @notice Can be called by anyone who knows the transaction and its salt
+  /// @notice If revealing is required, the cooldown of the transaction starts again at the reveal, approvals still skip it
+  function revealSecretTx(
+    uint256 nonce,
+    address to,
+    uint256 value,
+    bytes calldata data,
+    Enum.Operation operation,
+    uint256 _salt
+  ) public {
+    require(
+      nonce >= txNonce && nonce < queuePointer,
+      "Transaction is not in the queue"
+    );
+    require(!txRevealed[nonce], "Transaction has already been revealed");
+    require(
+      txHash[nonce] ==
+        getSecretTransactionHash(to, value, data, operation, _salt),
+      "Transaction hashes do not match"
+    );
+    txRevealed[nonce] = true;
+    txRevealedAt[nonce] = block.timestamp;
+    emit SecretTransactionRevealed(
+      nonce,
+      txHash[nonce],
+      to,
+      value,
+      data,
+      operation,
+      _salt
+    );
+  }
+
+  /// @dev Executes a run of transactions in queue order, starting at txNonce
+  /// @param transactions Preimages of the transactions from txNonce on, in queue order and without the cancelled ones
+  /// @param stopOnFailure If true, the batch stops at the first transaction that can not be executed
+  ///        (queue empty, in cooldown, expired, hash mismatch, not revealed or failed) and keeps the ones before it.
+  ///        If false, the whole batch reverts in that case.
+  /// @return executed Number of executed transactions
+  /// @notice Each transaction has to be executable when its turn comes, and uses up one approval if there are any
+  function executeNextTxBatch(
+    TransactionPreimage[] calldata transactions,
+    bool stopOnFailure
+  ) public returns (uint256 executed) {
+    require(transactions.length > 0, "Batch must not be empty");
+    bool enforce = !stopOnFailure;
+    for (; executed < transactions.length; executed++) {
+      TransactionPreimage calldata transaction = transactions[executed];
+      if (!_isExecutable(enforce)) break;
+      bytes32 hash =
+        transaction.secret
+          ? getSecretTransactionHash(
+            transaction.to,
+            transaction.value,
+            transaction.data,
+            transaction.operation,
+            transaction.salt
+          )
+          : getTransactionHash(
+            transaction.to,
+            transaction.value,
+            transaction.data,
+            transaction.operation
+          );
+      if (
+        !_check(
+          txHash[txNonce] == hash,
+          enforce,
+          "Transaction hashes do not match"
+        ) ||
+        !_check(
+          !transaction.secret || !revealRequired || txRevealed[txNonce],
+          enforce,
+          "Transaction has to be revealed first"
+        )
+      ) break;
+      uint256 previousApproved = approved;
+      if (approved > 0) approved--;
+      if (
+        !_tryExecute(
+          transaction.to,
+          transaction.value,
+          transaction.data,
+          transaction.operation
+        )
+      ) {
+        require(stopOnFailure, "Module transaction failed");
+        approved = previousApproved;
+        break;
+      }
+    }
   }
 
   function skipExpired() public {
-    while (
-      txExpiration != 0 &&
-      txCreatedAt[txNonce] + txCooldown + txExpiration < block.timestamp &&
-      txNonce < queuePointer
-    ) {
-      txNonce++;
+    uint256 nonce = txNonce;
+    while (nonce < queuePointer && (txCancelled[nonce] || _isExpired(nonce))) {
+      nonce++;
+    }
+    if (nonce > txNonce) {
+      emit TransactionsSkipped(txNonce, nonce - txNonce);
+      // The skipped transactions use up their approvals like executed ones.
+      _adjustApprovals(nonce);
+      txNonce = nonce;
+    }
+  }
+
+  /// @dev Returns the policy a public transaction gets when it is enqueued, disabled if txCooldown and txExpiration apply
+  /// @notice Delegate calls get strictestPolicy instead if it has a longer cooldown
+  /// @param to Destination address of the transaction
+  /// @param data Data payload of the transaction
+  function getPolicy(address to, bytes memory data)
+    public
+    view
+    returns (Policy memory policy)
+  {
+    policy = targetPolicies[to];
+    if (data.length >= 4) {
+      bytes32 word;
+      assembly {
+        word := mload(add(data, 32))
+      }
+      Policy memory selectorPolicy = selectorPolicies[bytes4(word)];
+      if (
+        selectorPolicy.enabled &&
+        (!policy.enabled || selectorPolicy.cooldown >= policy.cooldown)
+      ) {
+        policy = selectorPolicy;
+      }
     }
   }
 
+  /// @dev Returns the cooldown and expiration that apply to the transaction at a queue nonce
+  /// @param nonce Queue nonce of the transaction
+  /// @notice The values recorded when the transaction was enqueued, later changes of the parameters and policies do not apply to it
+  function getTxDelay(uint256 nonce)
+    public
+    view
+    returns (uint256 cooldown, uint256 expiration)
+  {
+    return (txPolicy[nonce].cooldown, txPolicy[nonce].expiration);
+  }
+
+  function domainSeparator() public view returns (bytes32) {
+    return
+      keccak256(abi.encode(DOMAIN_SEPARATOR_TYPEHASH, block.chainid, this));
+  }
+
+  /// @dev Returns the hash this modifier commits to for a public transaction
+  /// @notice Depends on domainSeparated
   function getTransactionHash(
     address to,
     uint256 value,
     bytes memory data,
     Enum.Operation operation
-  ) public pure returns (bytes32) {
-    return keccak256(abi.encodePacked(to, value, data, operation));
+  ) public view returns (bytes32) {
+    if (!domainSeparated) {
+      return keccak256(abi.encodePacked(to, value, data, operation));
+    }
+    return
+      _typedDataHash(
+        keccak256(
+          abi.encode(
+            TRANSACTION_TYPEHASH,
+            to,
+            value,
+            keccak256(data),
+            operation
+          )
+        )
+      );
   }
 
+  /// @dev Returns the hash a secret transaction has to be committed with
+  /// @notice Depends on domainSeparated
   function getSecretTransactionHash(
     address to,
     uint256 value,
     bytes memory data,
     Enum.Operation operation,
     uint256 _salt
-  ) public pure returns (bytes32) {
-    return keccak256(abi.encodePacked(to, value, data, operation, _salt));
+  ) public view returns (bytes32) {
+    if (!domainSeparated) {
+      return keccak256(abi.encodePacked(to, value, data, operation, _salt));
+    }
+    return
+      _typedDataHash(
+        keccak256(
+          abi.encode(
+            SECRET_TRANSACTION_TYPEHASH,
+            to,
+            value,
+            keccak256(data),
+            operation,
+            _salt
+          )
+        )
+      );
   }
 
   function getTxHash(uint256 _nonce) public view returns (bytes32) {
@@ -291,6 +925,172 @@ contract SecretDelay is Modifier {
     return (txCreatedAt[_nonce]);
   }
 
+  function _typedDataHash(bytes32 structHash) internal view returns (bytes32) {
+    return
+      keccak256(
+        abi.encodePacked(
+          bytes1(0x19),
+          bytes1(0x01),
+          domainSeparator(),
+          structHash
+        )
+      );
+  }
+
+  /// @dev Advances the queue past the transaction at txNonce and executes it, reverts if it fails
+  /// @notice The hash of the transaction has to be checked by the caller
+  function _execute(
+    address to,
+    uint256 value,
+    bytes calldata data,
+    Enum.Operation operation
+  ) internal {
+    require(
+      _tryExecute(to, value, data, operation),
+      "Module transaction failed"
+    );
+  }
+
+  /// @dev Executes the transaction at txNonce, the queue is only advanced past it if it succeeds
+  /// @notice The hash of the transaction has to be checked by the caller, failed attempts are logged as well
+  function _tryExecute(
+    address to,
+    uint256 value,
+    bytes calldata data,
+    Enum.Operation operation
+  ) internal returns (bool success) {
+    uint256 nonce = txNonce;
+    // Advanced before the call, so the transaction can not execute itself again.
+    txNonce++;
+    success = exec(to, value, data, operation);
+    emit TransactionExecuted(nonce, txHash[nonce], success);
+    if (success) {
+      _skipCancelled();
+    } else {
+      txNonce = nonce;
+    }
+  }
+
+  /// @dev Checks the conditions of the isExecutable modifier for the transaction at txNonce
+  /// @param enforce Whether to revert if a condition is not met, instead of returning false
+  function _isExecutable(bool enforce) internal view returns (bool) {
+    if (!_check(txNonce < queuePointer, enforce, "Transaction queue is empty"))
+      return false;
+    (uint256 cooldown, ) = getTxDelay(txNonce);
+    return
+      _check(
+        block.timestamp - _delayStart(txNonce) >= cooldown ||
+          approved > 0 ||
+          (approvedHash[txNonce] != bytes32(0) &&
+            approvedHash[txNonce] == txHash[txNonce]),
+        enforce,
+        "Transaction is still in cooldown"
+      ) &&
+      _check(!_isExpired(txNonce), enforce, "Transaction expired");
+  }
+
+  function _isExpired(uint256 nonce) internal view returns (bool) {
+    (uint256 cooldown, uint256 expiration) = getTxDelay(nonce);
+    return
+      expiration != 0 &&
+      _delayStart(nonce) + cooldown + expiration < block.timestamp;
+  }
+
+  /// @dev Returns when the cooldown of the transaction at nonce started, its expiration is counted from the end of it
+  /// @notice If revealing is required, the cooldown starts again at the reveal, so the revealed transaction can be reviewed for all of it
+  function _delayStart(uint256 nonce) internal view returns (uint256 start) {
+    start = txCreatedAt[nonce];
+    if (revealRequired && txRevealedAt[nonce] > start)
+      start = txRevealedAt[nonce];
+  }
+
+  function _policy(uint256 cooldown, uint256 expiration)
+    internal
+    view
+    returns (Policy memory)
+  {
+    require(
+      cooldown >= minCooldown,
+      "Cooldown can not be below the minimum cooldown"
+    );
+    require(
+      expiration == 0 || expiration >= 60,
+      "Expiratition must be 0 or at least 60 seconds"
+    );
+    return Policy(true, cooldown, expiration);
+  }
+
+  /// @dev Records the cooldown and expiration of the transaction enqueued at queuePointer
+  /// @param policy Policy that applies to the transaction, txCooldown and txExpiration are recorded if it is disabled
+  /// @param hidden Whether the calls the transaction makes are unknown, then it gets strictestPolicy if that has a longer cooldown
+  function _recordDelay(Policy memory policy, bool hidden) internal {
+    if (!policy.enabled) policy = _defaultPolicy();
+    if (hidden && strictestPolicy.cooldown > policy.cooldown)
+      policy = strictestPolicy;
+    txPolicy[queuePointer] = policy;
+  }
+
+  /// @dev Returns whether a policy change can be applied now. A change that lowers the cooldown or the expiration
+  ///      (an expiration of 0 being the highest) is scheduled instead, and can be applied by making the same call again
+  ///      once the current txCooldown has passed. Until then the owner or a guardian can drop it with cancelPolicyChange.
+  /// @param current Policy that is changed, txCooldown and txExpiration apply if it is disabled
+  /// @param next Policy after the change
+  function _isDue(Policy storage current, Policy memory next)
+    internal
+    returns (bool)
+  {
+    Policy memory from = current.enabled ? current : _defaultPolicy();
+    if (
+      next.cooldown >= from.cooldown &&
+      (next.expiration == 0 ||
+        (from.expiration != 0 && next.expiration >= from.expiration))
+    ) return true;
+    bytes32 changeHash = keccak256(msg.data);
+    uint256 eta = pendingPolicyChanges[changeHash];
+    if (eta == 0) {
+      eta = block.timestamp + txCooldown;
+      pendingPolicyChanges[changeHash] = eta;
+      emit PolicyChangeScheduled(changeHash, eta);
+      return false;
+    }
+    require(block.timestamp >= eta, "Change is still in cooldown");
+    delete pendingPolicyChanges[changeHash];
+    return true;
+  }
+
+  function _defaultPolicy() internal view returns (Policy memory) {
+    return Policy(false, txCooldown, txExpiration);
+  }
+
+  function _raiseStrictestPolicy(Policy memory policy) internal {
+    if (policy.cooldown > strictestPolicy.cooldown) strictestPolicy = policy;
+  }
+
+  function _check(
+    bool condition,
+    bool enforce,
+    string memory reason
+  ) internal pure returns (bool) {
+    require(condition || !enforce, reason);
+    return condition;
+  }
+
+  /// @dev Moves txNonce past the cancelled transactions at the head of the queue, together with their approvals
+  function _skipCancelled() internal {
+    uint256 nonce = txNonce;
+    while (nonce < queuePointer && txCancelled[nonce]) nonce++;
+    if (nonce > txNonce) {
+      _adjustApprovals(nonce);
+      txNonce = nonce;
+    }
+  }
+
+  function _scheduleChange(Parameter parameter, uint256 value) internal {
+    uint256 eta = block.timestamp + txCooldown;
+    pendingChanges[parameter] = ParameterChange(value, eta);
+    emit ParameterChangeScheduled(parameter, value, eta);
+  }
+
   function _adjustApprovals(uint256 _nonce) internal {
     uint256 delta = _nonce - txNonce;
 
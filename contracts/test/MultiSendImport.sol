@@ -0,0 +1,6 @@
+// SPDX-License-Identifier: LGPL-3.0-only
+pragma solidity >=0.8.0;
+
+// We import the contract so hardhat compiles it, and the tests can deploy it
+// to execute batched proposals.
+import "@gnosis.pm/safe-contracts/contracts/libraries/MultiSend.sol";
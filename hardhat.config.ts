@@ -19,6 +19,24 @@ dotenv.config();
 const { INFURA_KEY, MNEMONIC, ETHERSCAN_API_KEY, PK } = process.env;
 
 import "./src/tasks/setup";
+import "./src/tasks/enqueueSecret";
+import "./src/tasks/enqueueSecretBatch";
+import "./src/tasks/revealAndExecute";
+import "./src/tasks/executeAll";
+import "./src/tasks/keeper";
+import "./src/tasks/veto";
+import "./src/tasks/approve";
+import "./src/tasks/guardians";
+import "./src/tasks/parameters";
+import "./src/tasks/policy";
+import "./src/tasks/reveal";
+import "./src/tasks/queue";
+import "./src/tasks/watch";
+import "./src/tasks/signSecret";
+import "./src/tasks/relay";
+import "./src/tasks/guardianKey";
+import "./src/tasks/decryptProposal";
+import "./src/tasks/resolve";
 
 const DEFAULT_MNEMONIC =
   "candy maple cake sugar pudding cream honey rich smooth crumble sweet treat";
@@ -48,7 +66,11 @@ export default {
   },
   solidity: {
     compilers: [
-      { version: "0.8.0" },
+      // The optimizer keeps SecretDelay below the 24576 byte contract size limit.
+      {
+        version: "0.8.0",
+        settings: { optimizer: { enabled: true, runs: 200 } },
+      },
       { version: "0.6.12" },
     ]
   },
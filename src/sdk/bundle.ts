@@ -0,0 +1,87 @@
+import fs from "fs";
+
+import { BigNumber } from "ethers";
+
+import { getSecretTransactionHash } from "./hash";
+import { parseProposal, serializeProposal } from "./proposal";
+import { Proposal, RevealBundle } from "./types";
+
+/** Returns the JSON form of a reveal bundle, with the proposal in the proposal file format. */
+export const serializeRevealBundle = (bundle: RevealBundle): any => ({
+  modifier: bundle.modifier,
+  chainId: bundle.chainId,
+  uri: bundle.uri,
+  domainSeparated: bundle.domainSeparated,
+  proposal: serializeProposal(bundle.proposal),
+  entries: bundle.entries.map(({ nonce, txHash, salt }) => ({
+    nonce,
+    txHash,
+    salt: salt.toString(),
+  })),
+});
+
+/**
+ * Parses the JSON form of a reveal bundle and checks that its entries match the hashes of its transactions.
+ * `path` names the source of the bundle in errors.
+ */
+export const parseRevealBundle = (
+  value: unknown,
+  path: string
+): RevealBundle => {
+  const json = value as any;
+  let proposal: Proposal;
+  try {
+    proposal = parseProposal(json.proposal);
+  } catch (e) {
+    throw new Error(`${path}: ${e.message}`);
+  }
+  if (
+    !Array.isArray(json.entries) ||
+    json.entries.length !== proposal.txs.length
+  ) {
+    throw new Error(`${path}: entries must have one item per transaction`);
+  }
+  // Bundles written before domain separated hashes were added do not have the flag.
+  const domainSeparated = json.domainSeparated === true;
+  const domain = domainSeparated
+    ? { chainId: json.chainId, verifyingContract: json.modifier }
+    : undefined;
+  const entries = json.entries.map((entry: any, index: number) => {
+    const salt = BigNumber.from(entry.salt);
+    if (
+      getSecretTransactionHash(proposal.txs[index], salt, domain) !==
+      entry.txHash
+    ) {
+      throw new Error(
+        `${path}: entries[${index}].txHash does not match txs[${index}] hashed with salt ${salt}`
+      );
+    }
+    return { nonce: entry.nonce, txHash: entry.txHash, salt };
+  });
+  return {
+    modifier: json.modifier,
+    chainId: json.chainId,
+    uri: json.uri,
+    domainSeparated,
+    proposal,
+    entries,
+  };
+};
+
+export const writeRevealBundle = (path: string, bundle: RevealBundle): void => {
+  fs.writeFileSync(
+    path,
+    JSON.stringify(serializeRevealBundle(bundle), null, 2) + "\n"
+  );
+};
+
+/** Reads a reveal bundle and checks that its entries match the hashes of its transactions. */
+export const loadRevealBundle = (path: string): RevealBundle => {
+  let json: any;
+  try {
+    json = JSON.parse(fs.readFileSync(path, "utf8"));
+  } catch (e) {
+    throw new Error(`Could not read reveal bundle ${path}: ${e.message}`);
+  }
+  return parseRevealBundle(json, path);
+};
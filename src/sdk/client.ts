@@ -0,0 +1,1067 @@
+import {
+  BigNumber,
+  BigNumberish,
+  constants,
+  Contract,
+  ContractReceipt,
+  providers,
+} from "ethers";
+import { id, Result, toUtf8String } from "ethers/lib/utils";
+
+import { parseRevealBundle } from "./bundle";
+import { decryptRevealBundle, parseEncryptedRevealBundle } from "./encryption";
+import { generatePrivateSalt, getSecretTransactionHash } from "./hash";
+import { parseProposal } from "./proposal";
+import { signEnqueueSecret, TypedDataSigner } from "./relay";
+import {
+  ApprovedTransactions,
+  CancelledPolicyChange,
+  CancelledTransaction,
+  EnqueuedSecretTransaction,
+  EnqueuedTransaction,
+  EnqueueDetails,
+  EnqueueSecretMessage,
+  ExecutedTransaction,
+  GuardianChange,
+  HashDomain,
+  MetaTransaction,
+  Parameter,
+  PendingParameterChange,
+  PolicyChange,
+  PolicyRule,
+  PolicyScope,
+  Proposal,
+  QueueEntry,
+  RelayedSecretTransaction,
+  RelayRequest,
+  RevealBundle,
+  RevealedTransaction,
+  ScheduledParameterChange,
+  SettledParameterChange,
+  SkippedTransactions,
+  TransactionPreimage,
+  UriResolver,
+  VetoedTransactions,
+} from "./types";
+import { resolveUri } from "./uri";
+
+// Reads the content behind the uri of a secret proposal, which is either a proposal file or a reveal bundle.
+const parseUriContent = (
+  content: Uint8Array,
+  uri: string,
+  privateKey?: string
+): { proposal: Proposal; entries?: RevealBundle["entries"] } => {
+  let json: any;
+  try {
+    json = JSON.parse(toUtf8String(content));
+  } catch (e) {
+    throw new Error(`${uri} does not hold JSON: ${e.message}`);
+  }
+  if (json?.ciphertext !== undefined) {
+    if (!privateKey) {
+      throw new Error(
+        `${uri} holds an encrypted reveal bundle, a guardian key is required to read it`
+      );
+    }
+    return decryptRevealBundle(
+      parseEncryptedRevealBundle(json, uri),
+      privateKey
+    );
+  }
+  if (json?.entries !== undefined) {
+    return parseRevealBundle(json, uri);
+  }
+  try {
+    return { proposal: parseProposal(json) };
+  } catch (e) {
+    throw new Error(`${uri}: ${e.message}`);
+  }
+};
+
+/**
+ * Typed wrapper around a SecretDelay contract instance.
+ * The contract should be created from the SecretDelay ABI and connected to the signer that sends the transactions,
+ * e.g. `new SecretDelayClient(await ethers.getContractAt("SecretDelay", address, signer))`.
+ */
+export class SecretDelayClient {
+  constructor(readonly contract: Contract) {}
+
+  get address(): string {
+    return this.contract.address;
+  }
+
+  /** Returns the EIP-712 domain of the modifier, as used for signed messages. */
+  async getDomain(): Promise<HashDomain> {
+    const { chainId } = await this.contract.provider.getNetwork();
+    return { chainId, verifyingContract: this.address };
+  }
+
+  /** Returns the EIP-712 domain of the modifier if it has `domainSeparated` set, undefined if it uses legacy hashes. */
+  async getHashDomain(): Promise<HashDomain | undefined> {
+    return (await this.contract.domainSeparated())
+      ? this.getDomain()
+      : undefined;
+  }
+
+  private async send(method: string, ...args: any[]): Promise<ContractReceipt> {
+    const response = await this.contract[method](...args);
+    return response.wait();
+  }
+
+  // Decodes through the interface, as the args that ethers attaches to receipt events
+  // lose their names when the event has an indexed string.
+  private findAllEventArgs(receipt: ContractReceipt, name: string): Result[] {
+    const topic = this.contract.interface.getEventTopic(name);
+    return receipt.logs
+      .filter(
+        ({ address, topics }) => address === this.address && topics[0] === topic
+      )
+      .map((log) =>
+        this.contract.interface.decodeEventLog(name, log.data, log.topics)
+      );
+  }
+
+  private findOptionalEventArgs(
+    receipt: ContractReceipt,
+    name: string
+  ): Result | undefined {
+    return this.findAllEventArgs(receipt, name)[0];
+  }
+
+  private findEventArgs(receipt: ContractReceipt, name: string): Result {
+    const args = this.findOptionalEventArgs(receipt, name);
+    if (!args) {
+      throw new Error(
+        `${name} was not emitted by transaction ${receipt.transactionHash}`
+      );
+    }
+    return args;
+  }
+
+  /**
+   * Adds a public transaction to the queue.
+   * The connected signer has to be an enabled module.
+   */
+  async enqueue(tx: MetaTransaction): Promise<EnqueuedTransaction> {
+    const receipt = await this.send(
+      "execTransactionFromModule",
+      tx.to,
+      tx.value,
+      tx.data,
+      tx.operation
+    );
+    const args = this.findEventArgs(receipt, "TransactionAdded");
+    return {
+      queuePointer: args.queuePointer.toNumber(),
+      txHash: args.txHash,
+      transactionHash: receipt.transactionHash,
+    };
+  }
+
+  /**
+   * Commits the hash of a transaction to the queue.
+   * The connected signer has to be an enabled module.
+   *
+   * Without `privateSalt` the transaction is hashed with the current salt of the contract,
+   * which is published in `SecretTransactionAdded`. This throws if another secret transaction
+   * took the salt between hashing and inclusion, in which case the committed hash can not be executed and should be vetoed.
+   *
+   * With `privateSalt` (see `generatePrivateSalt`) the transaction is hashed with that salt instead,
+   * which has to be kept by the proposer until the transaction is executed.
+   */
+  async enqueueSecret(
+    tx: MetaTransaction,
+    uri: string,
+    privateSalt?: BigNumberish
+  ): Promise<EnqueuedSecretTransaction> {
+    const domain = await this.getHashDomain();
+    if (privateSalt !== undefined) {
+      const salt = BigNumber.from(privateSalt);
+      const receipt = await this.send(
+        "enqueueSecretTx",
+        getSecretTransactionHash(tx, salt, domain),
+        uri
+      );
+      const args = this.findEventArgs(receipt, "SecretTransactionAdded");
+      return {
+        queuePointer: args.queuePointer.toNumber(),
+        txHash: args.txHash,
+        uri,
+        salt,
+        transactionHash: receipt.transactionHash,
+      };
+    }
+    const salt: BigNumber = await this.contract.salt();
+    const hash = getSecretTransactionHash(tx, salt, domain);
+    const receipt = await this.send("enqueueSecretTx", hash, uri);
+    const args = this.findEventArgs(receipt, "SecretTransactionAdded");
+    if (!salt.eq(args.salt)) {
+      throw new Error(
+        `Transaction was hashed with salt ${salt} but enqueued with salt ${args.salt}`
+      );
+    }
+    return {
+      queuePointer: args.queuePointer.toNumber(),
+      txHash: args.txHash,
+      // `uri` is an indexed string, so the event only carries its hash.
+      uri,
+      salt: args.salt,
+      transactionHash: receipt.transactionHash,
+    };
+  }
+
+  /**
+   * Commits several transactions to consecutive slots of the queue in one `enqueueSecretTxBatch` call.
+   * The connected signer has to be an enabled module.
+   *
+   * Entries without `privateSalt` are hashed with the salt they get in the batch, the current salt of the contract
+   * plus their index. Like `enqueueSecret`, this throws if another secret transaction took one of the salts first.
+   */
+  async enqueueSecretBatch(
+    entries: { tx: MetaTransaction; uri: string; privateSalt?: BigNumberish }[]
+  ): Promise<EnqueuedSecretTransaction[]> {
+    const [domain, salt]: [
+      HashDomain | undefined,
+      BigNumber
+    ] = await Promise.all([this.getHashDomain(), this.contract.salt()]);
+    const salts = entries.map(({ privateSalt }, index) =>
+      privateSalt !== undefined ? BigNumber.from(privateSalt) : salt.add(index)
+    );
+    const receipt = await this.send(
+      "enqueueSecretTxBatch",
+      entries.map(({ tx }, index) =>
+        getSecretTransactionHash(tx, salts[index], domain)
+      ),
+      entries.map(({ uri }) => uri)
+    );
+    return this.findAllEventArgs(receipt, "SecretTransactionAdded").map(
+      (args, index) => {
+        if (
+          entries[index].privateSalt === undefined &&
+          !salts[index].eq(args.salt)
+        ) {
+          throw new Error(
+            `Transaction was hashed with salt ${salts[index]} but enqueued with salt ${args.salt}`
+          );
+        }
+        return {
+          queuePointer: args.queuePointer.toNumber(),
+          txHash: args.txHash,
+          uri: entries[index].uri,
+          salt: salts[index],
+          transactionHash: receipt.transactionHash,
+        };
+      }
+    );
+  }
+
+  /**
+   * Commits every transaction of a proposal to the queue, one slot per transaction.
+   * The connected signer has to be an enabled module.
+   * With `privateSalts` each transaction is hashed with a new salt from `generatePrivateSalt`,
+   * or with the given private salts, one per transaction.
+   */
+  async enqueueSecretProposal(
+    proposal: Proposal,
+    uri: string,
+    privateSalts: boolean | BigNumberish[] = false
+  ): Promise<EnqueuedSecretTransaction[]> {
+    if (
+      Array.isArray(privateSalts) &&
+      privateSalts.length !== proposal.txs.length
+    ) {
+      throw new Error(
+        `Got ${privateSalts.length} private salts for ${proposal.txs.length} transactions`
+      );
+    }
+    const enqueued: EnqueuedSecretTransaction[] = [];
+    for (const [index, tx] of proposal.txs.entries()) {
+      enqueued.push(
+        await this.enqueueSecret(
+          tx,
+          uri,
+          Array.isArray(privateSalts)
+            ? privateSalts[index]
+            : privateSalts
+            ? generatePrivateSalt()
+            : undefined
+        )
+      );
+    }
+    return enqueued;
+  }
+
+  /**
+   * Signs an EnqueueSecret message for every transaction of a proposal, so that anyone can relay them.
+   * `signer` has to be an allowed signer of the modifier. Each transaction is hashed with a private salt,
+   * as the public salt counter at the time of relaying is not known in advance.
+   * Returns the request for the relayer and the reveal bundle, which has no queue nonces yet.
+   * @param deadline Last timestamp at which the messages can be relayed
+   */
+  async signSecretProposal(
+    signer: TypedDataSigner,
+    proposal: Proposal,
+    uri: string,
+    deadline: number
+  ): Promise<{ request: RelayRequest; bundle: RevealBundle }> {
+    const signerAddress = await signer.getAddress();
+    const [domain, hashDomain, signerNonce]: [
+      HashDomain,
+      HashDomain | undefined,
+      BigNumber
+    ] = await Promise.all([
+      this.getDomain(),
+      this.getHashDomain(),
+      this.contract.signerNonce(signerAddress),
+    ]);
+    const request: RelayRequest = {
+      modifier: this.address,
+      chainId: domain.chainId,
+      signer: signerAddress,
+      entries: [],
+    };
+    const bundle: RevealBundle = {
+      modifier: this.address,
+      chainId: domain.chainId,
+      uri,
+      domainSeparated: hashDomain !== undefined,
+      proposal,
+      entries: [],
+    };
+    for (const [index, tx] of proposal.txs.entries()) {
+      const salt = generatePrivateSalt();
+      const message = {
+        txHash: getSecretTransactionHash(tx, salt, hashDomain),
+        uri,
+        nonce: signerNonce.toNumber() + index,
+        deadline,
+      };
+      request.entries.push({
+        message,
+        signature: await signEnqueueSecret(signer, domain, message),
+      });
+      bundle.entries.push({ txHash: message.txHash, salt });
+    }
+    return { request, bundle };
+  }
+
+  /** Submits a signed EnqueueSecret message. Can be sent by any account. */
+  async relay(
+    signer: string,
+    message: EnqueueSecretMessage,
+    signature: string
+  ): Promise<RelayedSecretTransaction> {
+    const receipt = await this.send(
+      "enqueueSecretTxWithSignature",
+      signer,
+      message.txHash,
+      message.uri,
+      message.deadline,
+      signature
+    );
+    const args = this.findEventArgs(receipt, "SecretTransactionRelayed");
+    return {
+      queuePointer: args.queuePointer.toNumber(),
+      txHash: message.txHash,
+      signer: args.signer,
+      signerNonce: args.signerNonce.toNumber(),
+      transactionHash: receipt.transactionHash,
+    };
+  }
+
+  /**
+   * Publishes the secret transaction at `nonce` without executing it.
+   * @param salt Salt the transaction was hashed with
+   */
+  async reveal(
+    nonce: number,
+    tx: MetaTransaction,
+    salt: BigNumberish
+  ): Promise<RevealedTransaction> {
+    const receipt = await this.send(
+      "revealSecretTx",
+      nonce,
+      tx.to,
+      tx.value,
+      tx.data,
+      tx.operation,
+      salt
+    );
+    const args = this.findEventArgs(receipt, "SecretTransactionRevealed");
+    return {
+      nonce: args.nonce.toNumber(),
+      txHash: args.txHash,
+      transactionHash: receipt.transactionHash,
+    };
+  }
+
+  /** Executes the public transaction at the head of the queue. */
+  async executeNext(tx: MetaTransaction): Promise<ExecutedTransaction> {
+    const receipt = await this.send(
+      "executeNextTx",
+      tx.to,
+      tx.value,
+      tx.data,
+      tx.operation
+    );
+    const args = this.findEventArgs(receipt, "TransactionExecuted");
+    return {
+      nonce: args.nonce.toNumber(),
+      transactionHash: receipt.transactionHash,
+    };
+  }
+
+  /**
+   * Executes the secret transaction at the head of the queue.
+   * @param salt Salt that was emitted when the transaction was enqueued
+   */
+  async executeNextSecret(
+    tx: MetaTransaction,
+    salt: BigNumberish
+  ): Promise<ExecutedTransaction> {
+    const receipt = await this.send(
+      "executeNextSecretTx",
+      tx.to,
+      tx.value,
+      tx.data,
+      tx.operation,
+      salt
+    );
+    const args = this.findEventArgs(receipt, "TransactionExecuted");
+    return {
+      nonce: args.nonce.toNumber(),
+      transactionHash: receipt.transactionHash,
+    };
+  }
+
+  /**
+   * Executes a run of transactions from the head of the queue in one `executeNextTxBatch` call.
+   * Preimages with a salt are executed as secret transactions.
+   * With `stopOnFailure` the batch stops at the first transaction that can not be executed, otherwise the call reverts.
+   * Returns the executed transactions, which are the first ones of `preimages`.
+   */
+  async executeBatch(
+    preimages: TransactionPreimage[],
+    stopOnFailure: boolean
+  ): Promise<ExecutedTransaction[]> {
+    const receipt = await this.send(
+      "executeNextTxBatch",
+      preimages.map(({ tx, salt }) => ({
+        to: tx.to,
+        value: tx.value,
+        data: tx.data,
+        operation: tx.operation,
+        secret: salt !== undefined,
+        salt: salt ?? 0,
+      })),
+      stopOnFailure
+    );
+    return this.findAllEventArgs(receipt, "TransactionExecuted")
+      .filter(({ success }) => success)
+      .map((args) => ({
+        nonce: args.nonce.toNumber(),
+        transactionHash: receipt.transactionHash,
+      }));
+  }
+
+  /**
+   * Vetoes all transactions up to (excluding) `newTxNonce`.
+   * The connected signer has to be the owner or a guardian.
+   */
+  async veto(newTxNonce: BigNumberish): Promise<VetoedTransactions> {
+    const receipt = await this.send("vetoTransactionsTill", newTxNonce);
+    const args = this.findEventArgs(receipt, "TransactionsVetoed");
+    return {
+      startingNonce: args.startingVetoedTrxNonce.toNumber(),
+      count: args.numberOfTrxVetoed.toNumber(),
+      transactionHash: receipt.transactionHash,
+    };
+  }
+
+  /**
+   * Cancels the transaction at `nonce` without vetoing the transactions before it.
+   * The connected signer has to be the owner, a guardian, or the module (or relayed signer) that enqueued the transaction.
+   */
+  async cancel(nonce: number): Promise<CancelledTransaction> {
+    const receipt = await this.send("cancelTransaction", nonce);
+    const args = this.findEventArgs(receipt, "TransactionCancelled");
+    return {
+      nonce: args.nonce.toNumber(),
+      txHash: args.txHash,
+      canceller: args.canceller,
+      transactionHash: receipt.transactionHash,
+    };
+  }
+
+  /**
+   * Approves the next `transactions` transactions to be executed before their cooldown ends.
+   * The connected signer has to be the owner.
+   */
+  async approveNext(transactions: BigNumberish): Promise<ApprovedTransactions> {
+    const receipt = await this.send("approveNext", transactions);
+    const args = this.findEventArgs(receipt, "TransactionsApproved");
+    return {
+      startingNonce: args.startingApprovedTrxNonce.toNumber(),
+      count: args.numberOfTrxApproved.toNumber(),
+      transactionHash: receipt.transactionHash,
+    };
+  }
+
+  /**
+   * Approves the transactions with `hashes`, starting at `nonce`, to be executed before their cooldown ends.
+   * Unlike `approveNext`, the approvals stay bound to their nonces and hashes.
+   * The connected signer has to be the owner.
+   */
+  async approveHashes(
+    nonce: number,
+    hashes: string[]
+  ): Promise<ApprovedTransactions> {
+    const receipt = await this.send("approveHashes", nonce, hashes);
+    return {
+      startingNonce: nonce,
+      count: this.findAllEventArgs(receipt, "TransactionHashApproved").length,
+      transactionHash: receipt.transactionHash,
+    };
+  }
+
+  /**
+   * Allows `guardian` to veto transactions.
+   * The connected signer has to be the owner.
+   */
+  async addGuardian(guardian: string): Promise<GuardianChange> {
+    const receipt = await this.send("addGuardian", guardian);
+    const args = this.findEventArgs(receipt, "GuardianAdded");
+    return {
+      guardian: args.guardian,
+      added: true,
+      transactionHash: receipt.transactionHash,
+    };
+  }
+
+  /**
+   * Takes the right to veto transactions from `guardian`.
+   * The connected signer has to be the owner.
+   */
+  async removeGuardian(guardian: string): Promise<GuardianChange> {
+    const receipt = await this.send("removeGuardian", guardian);
+    const args = this.findEventArgs(receipt, "GuardianRemoved");
+    return {
+      guardian: args.guardian,
+      added: false,
+      transactionHash: receipt.transactionHash,
+    };
+  }
+
+  private async scheduleChange(
+    method: "setTxCooldown" | "setTxExpiration",
+    value: number
+  ): Promise<ScheduledParameterChange> {
+    const receipt = await this.send(method, value);
+    const args = this.findEventArgs(receipt, "ParameterChangeScheduled");
+    return {
+      parameter: args.parameter,
+      value: args.value.toNumber(),
+      eta: args.eta.toNumber(),
+      transactionHash: receipt.transactionHash,
+    };
+  }
+
+  /**
+   * Schedules `cooldown` as the new cooldown, to be finalized once the current cooldown has passed.
+   * The connected signer has to be the owner.
+   */
+  async setTxCooldown(cooldown: number): Promise<ScheduledParameterChange> {
+    return this.scheduleChange("setTxCooldown", cooldown);
+  }
+
+  /**
+   * Schedules `expiration` as the new expiration, to be finalized once the current cooldown has passed.
+   * The connected signer has to be the owner.
+   */
+  async setTxExpiration(expiration: number): Promise<ScheduledParameterChange> {
+    return this.scheduleChange("setTxExpiration", expiration);
+  }
+
+  /** Applies the pending change of `parameter`, which anyone can do once it is due. */
+  async finalizeParameterChange(
+    parameter: Parameter
+  ): Promise<SettledParameterChange> {
+    const receipt = await this.send("finalizeParameterChange", parameter);
+    const args = this.findEventArgs(receipt, "ParameterChanged");
+    return {
+      parameter,
+      value: args.value.toNumber(),
+      applied: true,
+      transactionHash: receipt.transactionHash,
+    };
+  }
+
+  /**
+   * Drops the pending change of `parameter`.
+   * The connected signer has to be the owner or a guardian.
+   */
+  async cancelParameterChange(
+    parameter: Parameter
+  ): Promise<SettledParameterChange> {
+    const receipt = await this.send("cancelParameterChange", parameter);
+    const args = this.findEventArgs(receipt, "ParameterChangeCancelled");
+    return {
+      parameter,
+      value: args.value.toNumber(),
+      applied: false,
+      transactionHash: receipt.transactionHash,
+    };
+  }
+
+  /** Returns the scheduled changes of the cooldown and expiration that have not been finalized or cancelled yet. */
+  async getPendingParameterChanges(): Promise<PendingParameterChange[]> {
+    const changes = await Promise.all(
+      [Parameter.TxCooldown, Parameter.TxExpiration].map(async (parameter) => {
+        const { value, eta } = await this.contract.pendingChanges(parameter);
+        return { parameter, value: value.toNumber(), eta: eta.toNumber() };
+      })
+    );
+    return changes.filter(({ eta }) => eta !== 0);
+  }
+
+  // Reads the PolicyChangeScheduled event of a policy change that was only scheduled.
+  private findScheduledPolicyChange(
+    receipt: ContractReceipt
+  ): PolicyChange["scheduled"] {
+    const args = this.findOptionalEventArgs(receipt, "PolicyChangeScheduled");
+    return args
+      ? { changeHash: args.changeHash, eta: args.eta.toNumber() }
+      : undefined;
+  }
+
+  /**
+   * Sets the cooldown and expiration of the transactions `rule` applies to, enqueued from now on.
+   * A change that lowers the cooldown or expiration is only scheduled, see `PolicyChange.scheduled`.
+   * The connected signer has to be the owner.
+   */
+  async setPolicy(rule: PolicyRule): Promise<PolicyChange> {
+    const receipt =
+      rule.scope === "secret"
+        ? await this.send("setSecretPolicy", rule.cooldown, rule.expiration)
+        : await this.send(
+            rule.scope === "target" ? "setTargetPolicy" : "setSelectorPolicy",
+            rule.key,
+            rule.cooldown,
+            rule.expiration
+          );
+    return {
+      scope: rule.scope,
+      key: rule.key,
+      set: true,
+      scheduled: this.findScheduledPolicyChange(receipt),
+      transactionHash: receipt.transactionHash,
+    };
+  }
+
+  /**
+   * Removes the policy of `scope` for `key` (a target address or function selector, none for the secret policy).
+   * A removal that lowers the cooldown or expiration is only scheduled, see `PolicyChange.scheduled`.
+   * The connected signer has to be the owner.
+   */
+  async removePolicy(scope: PolicyScope, key?: string): Promise<PolicyChange> {
+    const receipt =
+      scope === "secret"
+        ? await this.send("removeSecretPolicy")
+        : await this.send(
+            scope === "target" ? "removeTargetPolicy" : "removeSelectorPolicy",
+            key
+          );
+    return {
+      scope,
+      key,
+      set: false,
+      scheduled: this.findScheduledPolicyChange(receipt),
+      transactionHash: receipt.transactionHash,
+    };
+  }
+
+  /**
+   * Drops a scheduled policy change by the hash of its calldata, see `PolicyChange.scheduled`.
+   * The connected signer has to be the owner or a guardian.
+   */
+  async cancelPolicyChange(changeHash: string): Promise<CancelledPolicyChange> {
+    const receipt = await this.send("cancelPolicyChange", changeHash);
+    const args = this.findEventArgs(receipt, "PolicyChangeCancelled");
+    return {
+      changeHash: args.changeHash,
+      transactionHash: receipt.transactionHash,
+    };
+  }
+
+  /** Returns the current policies, target policies first, as found in the TargetPolicySet and SelectorPolicySet logs. */
+  async getPolicies(fromBlock: providers.BlockTag = 0): Promise<PolicyRule[]> {
+    const keys = async (event: string) => {
+      const logs = await this.contract.provider.getLogs({
+        ...this.contract.filters[event](),
+        fromBlock,
+      });
+      return [
+        ...new Set(
+          logs.map(
+            (log) =>
+              this.contract.interface.decodeEventLog(
+                event,
+                log.data,
+                log.topics
+              )[0] as string
+          )
+        ),
+      ];
+    };
+    const toRule = (
+      scope: PolicyScope,
+      key: string | undefined,
+      policy: Result
+    ): PolicyRule | undefined =>
+      policy.enabled
+        ? {
+            scope,
+            key,
+            cooldown: policy.cooldown.toNumber(),
+            expiration: policy.expiration.toNumber(),
+          }
+        : undefined;
+
+    const rules = await Promise.all([
+      ...(await keys("TargetPolicySet")).map(async (target) =>
+        toRule("target", target, await this.contract.targetPolicies(target))
+      ),
+      ...(await keys("SelectorPolicySet")).map(async (selector) =>
+        toRule(
+          "selector",
+          selector,
+          await this.contract.selectorPolicies(selector)
+        )
+      ),
+      toRule("secret", undefined, await this.contract.secretPolicy()),
+    ]);
+    return rules.filter((rule): rule is PolicyRule => rule !== undefined);
+  }
+
+  /** Returns the current guardians, in the order they were first added, as found in the GuardianAdded logs. */
+  async getGuardians(fromBlock: providers.BlockTag = 0): Promise<string[]> {
+    const logs = await this.contract.provider.getLogs({
+      ...this.contract.filters.GuardianAdded(),
+      fromBlock,
+    });
+    const added = [
+      ...new Set(
+        logs.map(
+          (log) =>
+            this.contract.interface.decodeEventLog(
+              "GuardianAdded",
+              log.data,
+              log.topics
+            ).guardian as string
+        )
+      ),
+    ];
+    const current: boolean[] = await Promise.all(
+      added.map((guardian) => this.contract.guardians(guardian))
+    );
+    return added.filter((_, index) => current[index]);
+  }
+
+  /** Moves the head of the queue past all expired transactions. */
+  async skipExpired(): Promise<SkippedTransactions> {
+    const receipt = await this.send("skipExpired");
+    // TransactionsSkipped is only emitted if at least one transaction was skipped.
+    const args = this.findOptionalEventArgs(receipt, "TransactionsSkipped");
+    if (!args) {
+      const txNonce: BigNumber = await this.contract.txNonce({
+        blockTag: receipt.blockNumber,
+      });
+      return {
+        startingNonce: txNonce.toNumber(),
+        count: 0,
+        transactionHash: receipt.transactionHash,
+      };
+    }
+    return {
+      startingNonce: args.startingSkippedTrxNonce.toNumber(),
+      count: args.numberOfTrxSkipped.toNumber(),
+      transactionHash: receipt.transactionHash,
+    };
+  }
+
+  /** Returns the queue entry at `nonce`, with its timing from the cooldown and expiration recorded for it. */
+  async getEntry(nonce: number): Promise<QueueEntry> {
+    const [
+      txNonce,
+      approved,
+      createdAt,
+      revealedAt,
+    ]: BigNumber[] = await Promise.all([
+      this.contract.txNonce(),
+      this.contract.approved(),
+      this.contract.txCreatedAt(nonce),
+      this.contract.txRevealedAt(nonce),
+    ]);
+    const {
+      cooldown,
+      expiration,
+    }: {
+      cooldown: BigNumber;
+      expiration: BigNumber;
+    } = await this.contract.getTxDelay(nonce);
+    const [txHash, approvedHash]: string[] = await Promise.all([
+      this.contract.txHash(nonce),
+      this.contract.approvedHash(nonce),
+    ]);
+    const [revealed, cancelled, revealRequired]: boolean[] = await Promise.all([
+      this.contract.txRevealed(nonce),
+      this.contract.txCancelled(nonce),
+      this.contract.revealRequired(),
+    ]);
+    const cooldownStart =
+      revealRequired && revealedAt.gt(createdAt) ? revealedAt : createdAt;
+    return {
+      nonce,
+      txHash,
+      revealed,
+      revealedAt: revealed ? revealedAt.toNumber() : undefined,
+      cancelled,
+      createdAt: createdAt.toNumber(),
+      cooldownEndsAt: cooldownStart.add(cooldown).toNumber(),
+      expiresAt: expiration.isZero()
+        ? undefined
+        : cooldownStart.add(cooldown).add(expiration).toNumber(),
+      approved:
+        (nonce >= txNonce.toNumber() &&
+          nonce - txNonce.toNumber() < approved.toNumber()) ||
+        (approvedHash !== constants.HashZero && approvedHash === txHash),
+    };
+  }
+
+  /** Returns the entry at the head of the queue, undefined if the queue is empty. */
+  async getHead(): Promise<QueueEntry | undefined> {
+    const [txNonce, queuePointer]: BigNumber[] = await Promise.all([
+      this.contract.txNonce(),
+      this.contract.queuePointer(),
+    ]);
+    return txNonce.lt(queuePointer)
+      ? this.getEntry(txNonce.toNumber())
+      : undefined;
+  }
+
+  /** Returns all entries from `txNonce` (inclusive) to `queuePointer` (exclusive). */
+  async getQueue(): Promise<QueueEntry[]> {
+    const [txNonce, queuePointer]: BigNumber[] = await Promise.all([
+      this.contract.txNonce(),
+      this.contract.queuePointer(),
+    ]);
+    const entries: QueueEntry[] = [];
+    for (
+      let nonce = txNonce.toNumber();
+      nonce < queuePointer.toNumber();
+      nonce++
+    ) {
+      entries.push(await this.getEntry(nonce));
+    }
+    return entries;
+  }
+
+  /** Reads how each entry was added to the queue from the logs, keyed by queue nonce. */
+  async getEnqueueDetails(
+    fromBlock: providers.BlockTag = 0
+  ): Promise<Map<number, EnqueueDetails>> {
+    const { interface: iface, provider } = this.contract;
+    const [publicLogs, secretLogs] = await Promise.all([
+      provider.getLogs({
+        ...this.contract.filters.TransactionAdded(),
+        fromBlock,
+      }),
+      provider.getLogs({
+        ...this.contract.filters.SecretTransactionAdded(),
+        fromBlock,
+      }),
+    ]);
+    const details = new Map<number, EnqueueDetails>();
+    for (const log of publicLogs) {
+      const args = iface.decodeEventLog(
+        "TransactionAdded",
+        log.data,
+        log.topics
+      );
+      details.set(args.queuePointer.toNumber(), {
+        type: "public",
+        tx: {
+          to: args.to,
+          value: args.value,
+          data: args.data,
+          operation: args.operation,
+        },
+        transactionHash: log.transactionHash,
+      });
+    }
+    for (const log of secretLogs) {
+      const args = iface.decodeEventLog(
+        "SecretTransactionAdded",
+        log.data,
+        log.topics
+      );
+      details.set(args.queuePointer.toNumber(), {
+        type: "secret",
+        salt: args.salt,
+        uriHash: args.uri.hash,
+        uri: await this.recoverUri(
+          log.transactionHash,
+          args.uri.hash,
+          args.queuePointer.toNumber()
+        ),
+        transactionHash: log.transactionHash,
+      });
+    }
+    return details;
+  }
+
+  // Reads the uri of the secret transaction enqueued at `nonce` from the calldata of the transaction that enqueued it.
+  private async recoverUri(
+    transactionHash: string,
+    uriHash: string,
+    nonce: number
+  ): Promise<string | undefined> {
+    const { provider } = this.contract;
+    const { data } = await provider.getTransaction(transactionHash);
+    try {
+      const { name, args } = this.contract.interface.parseTransaction({ data });
+      let uri: string | undefined;
+      if (
+        name === "enqueueSecretTx" ||
+        name === "enqueueSecretTxWithSignature"
+      ) {
+        uri = args.uri;
+      } else if (name === "enqueueSecretTxBatch") {
+        // The batch fills consecutive slots, so the entry is at its offset from the first slot of the batch.
+        const receipt = await provider.getTransactionReceipt(transactionHash);
+        const nonces = this.findAllEventArgs(
+          receipt,
+          "SecretTransactionAdded"
+        ).map((added) => added.queuePointer.toNumber());
+        uri = args.uris[nonce - Math.min(...nonces)];
+      }
+      if (uri !== undefined && id(uri) === uriHash) {
+        return uri;
+      }
+    } catch (e) {
+      // Enqueued through another contract, the calldata is not ours to decode.
+    }
+    return undefined;
+  }
+
+  /**
+   * Returns the salt emitted when the secret transaction at `nonce` was enqueued, undefined for public entries.
+   * Transactions committed with a private salt were not hashed with this salt.
+   */
+  async getSecretSalt(nonce: number): Promise<BigNumber | undefined> {
+    return (await this.findSecretTransactionAdded(nonce))?.args.salt;
+  }
+
+  private async findSecretTransactionAdded(
+    nonce: number
+  ): Promise<{ args: Result; transactionHash: string } | undefined> {
+    const [log] = await this.contract.provider.getLogs({
+      ...this.contract.filters.SecretTransactionAdded(nonce),
+      fromBlock: 0,
+    });
+    return log
+      ? {
+          args: this.contract.interface.decodeEventLog(
+            "SecretTransactionAdded",
+            log.data,
+            log.topics
+          ),
+          transactionHash: log.transactionHash,
+        }
+      : undefined;
+  }
+
+  /**
+   * Fetches the content behind the uri of the secret transaction at `nonce` and matches it against the committed hashes.
+   * The content is either a proposal file, whose transactions are hashed with the public salt of each entry,
+   * or a reveal bundle, which is decrypted with the guardian `privateKey` if it is encrypted.
+   * Returns a reveal bundle of the entries from `nonce` on that were enqueued with the same uri
+   * and match a transaction of the content. Throws if the entry at `nonce` itself does not match.
+   */
+  async resolveSecretProposal(
+    nonce: number,
+    resolvers: UriResolver[],
+    privateKey?: string
+  ): Promise<RevealBundle> {
+    const [domain, hashDomain, queuePointer, first]: [
+      HashDomain,
+      HashDomain | undefined,
+      BigNumber,
+      { args: Result; transactionHash: string } | undefined
+    ] = await Promise.all([
+      this.getDomain(),
+      this.getHashDomain(),
+      this.contract.queuePointer(),
+      this.findSecretTransactionAdded(nonce),
+    ]);
+    if (!first) {
+      throw new Error(
+        `Transaction ${nonce} was not enqueued as a secret transaction`
+      );
+    }
+    const uri = await this.recoverUri(
+      first.transactionHash,
+      first.args.uri.hash,
+      nonce
+    );
+    if (uri === undefined) {
+      throw new Error(
+        `Could not recover the uri of transaction ${nonce} from the calldata of ${first.transactionHash}`
+      );
+    }
+    const content = parseUriContent(
+      await resolveUri(resolvers, uri),
+      uri,
+      privateKey
+    );
+
+    const bundle: RevealBundle = {
+      modifier: this.address,
+      chainId: domain.chainId,
+      uri,
+      domainSeparated: hashDomain !== undefined,
+      proposal: { id: content.proposal.id, txs: [] },
+      entries: [],
+    };
+    for (let current = nonce; current < queuePointer.toNumber(); current++) {
+      const added =
+        current === nonce
+          ? first
+          : await this.findSecretTransactionAdded(current);
+      if (!added || added.args.uri.hash !== first.args.uri.hash) {
+        break;
+      }
+      const txHash: string = added.args.txHash;
+      // Reveal bundles carry the salts, proposal files were hashed with the public salt of the entry.
+      const candidates = content.proposal.txs.map((tx, index) => ({
+        tx,
+        salt: content.entries ? content.entries[index].salt : added.args.salt,
+      }));
+      const match = candidates.find(
+        ({ tx, salt }) =>
+          getSecretTransactionHash(tx, salt, hashDomain) === txHash
+      );
+      if (!match) {
+        if (current === nonce) {
+          throw new Error(
+            `No transaction at ${uri} hashes to ${txHash}, the hash of transaction ${nonce}`
+          );
+        }
+        break;
+      }
+      bundle.proposal.txs.push(match.tx);
+      bundle.entries.push({ nonce: current, txHash, salt: match.salt });
+    }
+    return bundle;
+  }
+}
@@ -0,0 +1,200 @@
+import crypto from "crypto";
+import fs from "fs";
+
+import {
+  arrayify,
+  computePublicKey,
+  concat,
+  hexlify,
+  isHexString,
+  randomBytes,
+  sha256,
+  SigningKey,
+  toUtf8Bytes,
+  toUtf8String,
+} from "ethers/lib/utils";
+
+import { parseRevealBundle, serializeRevealBundle } from "./bundle";
+import { EncryptedRevealBundle, RevealBundle } from "./types";
+
+const CIPHER = "aes-256-gcm";
+const TAG_LENGTH = 16;
+
+const seal = (key: Uint8Array, plaintext: Uint8Array) => {
+  const iv = randomBytes(12);
+  const cipher = crypto.createCipheriv(CIPHER, key, iv);
+  return {
+    iv: hexlify(iv),
+    ciphertext: hexlify(
+      concat([cipher.update(plaintext), cipher.final(), cipher.getAuthTag()])
+    ),
+  };
+};
+
+const open = (key: Uint8Array, iv: string, ciphertext: string) => {
+  const bytes = arrayify(ciphertext);
+  const decipher = crypto.createDecipheriv(CIPHER, key, arrayify(iv));
+  decipher.setAuthTag(bytes.slice(-TAG_LENGTH));
+  return concat([
+    decipher.update(bytes.slice(0, -TAG_LENGTH)),
+    decipher.final(),
+  ]);
+};
+
+// Key that wraps the content key for one guardian, derived from the ECDH secret and the ephemeral key.
+const wrappingKey = (sharedSecret: string, ephemeralPublicKey: string) =>
+  arrayify(sha256(concat([sharedSecret, ephemeralPublicKey])));
+
+/** Generates a secp256k1 key pair for a guardian, the public key is compressed. */
+export const generateGuardianKey = (): {
+  privateKey: string;
+  publicKey: string;
+} => {
+  const key = new SigningKey(randomBytes(32));
+  return { privateKey: key.privateKey, publicKey: key.compressedPublicKey };
+};
+
+/**
+ * Encrypts a reveal bundle so that only the holders of the private keys of `publicKeys` can read it.
+ * Each guardian gets the content key encrypted with a key agreed (ECDH on secp256k1) between the guardian key and a fresh ephemeral key.
+ */
+export const encryptRevealBundle = (
+  bundle: RevealBundle,
+  publicKeys: string[]
+): EncryptedRevealBundle => {
+  if (publicKeys.length === 0) {
+    throw new Error("At least one guardian key is required");
+  }
+  const contentKey = randomBytes(32);
+  const { iv, ciphertext } = seal(
+    contentKey,
+    toUtf8Bytes(JSON.stringify(serializeRevealBundle(bundle)))
+  );
+  const recipients = publicKeys.map((publicKey) => {
+    const ephemeral = new SigningKey(randomBytes(32));
+    const ephemeralPublicKey = ephemeral.compressedPublicKey;
+    const wrapped = seal(
+      wrappingKey(ephemeral.computeSharedSecret(publicKey), ephemeralPublicKey),
+      contentKey
+    );
+    return {
+      publicKey: computePublicKey(publicKey, true),
+      ephemeralPublicKey,
+      iv: wrapped.iv,
+      encryptedKey: wrapped.ciphertext,
+    };
+  });
+  return {
+    modifier: bundle.modifier,
+    chainId: bundle.chainId,
+    iv,
+    ciphertext,
+    recipients,
+  };
+};
+
+/** Decrypts a reveal bundle with the private key of one of its guardians and checks its hashes like `loadRevealBundle`. */
+export const decryptRevealBundle = (
+  encrypted: EncryptedRevealBundle,
+  privateKey: string
+): RevealBundle => {
+  const publicKey = computePublicKey(privateKey, true);
+  const recipient = encrypted.recipients.find(
+    (candidate) => candidate.publicKey === publicKey
+  );
+  if (!recipient) {
+    throw new Error(`Reveal bundle is not encrypted to ${publicKey}`);
+  }
+  let plaintext: Uint8Array;
+  try {
+    const contentKey = open(
+      wrappingKey(
+        new SigningKey(privateKey).computeSharedSecret(
+          recipient.ephemeralPublicKey
+        ),
+        recipient.ephemeralPublicKey
+      ),
+      recipient.iv,
+      recipient.encryptedKey
+    );
+    plaintext = open(contentKey, encrypted.iv, encrypted.ciphertext);
+  } catch (e) {
+    throw new Error(`Could not decrypt the reveal bundle: ${e.message}`);
+  }
+  const bundle = parseRevealBundle(
+    JSON.parse(toUtf8String(plaintext)),
+    "encrypted reveal bundle"
+  );
+  if (
+    bundle.modifier !== encrypted.modifier ||
+    bundle.chainId !== encrypted.chainId
+  ) {
+    throw new Error(
+      `Encrypted reveal bundle is labeled for ${encrypted.modifier} on chain ${encrypted.chainId}, but holds a bundle for ${bundle.modifier} on chain ${bundle.chainId}`
+    );
+  }
+  return bundle;
+};
+
+export const writeEncryptedRevealBundle = (
+  path: string,
+  encrypted: EncryptedRevealBundle
+): void => {
+  fs.writeFileSync(path, JSON.stringify(encrypted, null, 2) + "\n");
+};
+
+/** Checks that `value` has the shape of an encrypted reveal bundle. `path` names its source in errors. */
+export const parseEncryptedRevealBundle = (
+  value: unknown,
+  path: string
+): EncryptedRevealBundle => {
+  const encrypted = value as EncryptedRevealBundle;
+  if (
+    !isHexString(encrypted?.ciphertext) ||
+    !Array.isArray(encrypted.recipients)
+  ) {
+    throw new Error(`${path} is not an encrypted reveal bundle`);
+  }
+  return encrypted;
+};
+
+export const loadEncryptedRevealBundle = (
+  path: string
+): EncryptedRevealBundle => {
+  let json: unknown;
+  try {
+    json = JSON.parse(fs.readFileSync(path, "utf8"));
+  } catch (e) {
+    throw new Error(
+      `Could not read encrypted reveal bundle ${path}: ${e.message}`
+    );
+  }
+  return parseEncryptedRevealBundle(json, path);
+};
+
+const readKeyFile = (path: string) => {
+  try {
+    return fs.readFileSync(path, "utf8").trim();
+  } catch (e) {
+    throw new Error(`Could not read key file ${path}: ${e.message}`);
+  }
+};
+
+/** Reads the hex encoded public key of a guardian. A private key file is accepted as well, only its public key is used. */
+export const loadGuardianPublicKey = (path: string): string => {
+  const key = readKeyFile(path);
+  try {
+    return computePublicKey(key, true);
+  } catch (e) {
+    throw new Error(`${path} does not hold a secp256k1 key`);
+  }
+};
+
+/** Reads the hex encoded private key of a guardian. */
+export const loadGuardianPrivateKey = (path: string): string => {
+  const key = readKeyFile(path);
+  if (!isHexString(key, 32)) {
+    throw new Error(`${path} does not hold a 32 byte hex private key`);
+  }
+  return key;
+};
@@ -0,0 +1,28 @@
+import { QueueEntry } from "./types";
+
+const formatTime = (timestamp: number) =>
+  new Date(timestamp * 1000).toISOString();
+
+/**
+ * Applies the checks of the `isExecutable` modifier to the head of the queue at time `now`.
+ * Returns a readable reason if the head can not be executed, undefined otherwise.
+ */
+export const getExecutionBlocker = (
+  head: QueueEntry | undefined,
+  now: number
+): string | undefined => {
+  if (!head) {
+    return "Transaction queue is empty";
+  }
+  if (now < head.cooldownEndsAt && !head.approved) {
+    return `Transaction ${head.nonce} is still in cooldown until ${formatTime(
+      head.cooldownEndsAt
+    )} (${head.cooldownEndsAt - now} seconds left) and has not been approved`;
+  }
+  if (head.expiresAt !== undefined && now > head.expiresAt) {
+    return `Transaction ${head.nonce} expired at ${formatTime(
+      head.expiresAt
+    )}, it can only be skipped with skipExpired or vetoed`;
+  }
+  return undefined;
+};
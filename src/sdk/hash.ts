@@ -0,0 +1,83 @@
+import { BigNumber, BigNumberish } from "ethers";
+import {
+  _TypedDataEncoder,
+  randomBytes,
+  solidityKeccak256,
+} from "ethers/lib/utils";
+
+import { HashDomain, MetaTransaction } from "./types";
+
+const TRANSACTION_TYPES = {
+  Transaction: [
+    { name: "to", type: "address" },
+    { name: "value", type: "uint256" },
+    { name: "data", type: "bytes" },
+    { name: "operation", type: "uint8" },
+  ],
+};
+
+const SECRET_TRANSACTION_TYPES = {
+  SecretTransaction: [
+    ...TRANSACTION_TYPES.Transaction,
+    { name: "salt", type: "uint256" },
+  ],
+};
+
+/** Same as `SecretDelay.domainSeparator`. */
+export const getDomainSeparator = (domain: HashDomain): string =>
+  _TypedDataEncoder.hashDomain(domain);
+
+/**
+ * Same as `SecretDelay.getTransactionHash`.
+ * Pass the `domain` of the modifier if it has `domainSeparated` set.
+ */
+export const getTransactionHash = (
+  tx: MetaTransaction,
+  domain?: HashDomain
+): string =>
+  domain
+    ? _TypedDataEncoder.hash(domain, TRANSACTION_TYPES, tx)
+    : solidityKeccak256(
+        ["address", "uint256", "bytes", "uint8"],
+        [tx.to, tx.value, tx.data, tx.operation]
+      );
+
+/**
+ * Same as `SecretDelay.getSecretTransactionHash`.
+ * Pass the `domain` of the modifier if it has `domainSeparated` set.
+ */
+export const getSecretTransactionHash = (
+  tx: MetaTransaction,
+  salt: BigNumberish,
+  domain?: HashDomain
+): string =>
+  domain
+    ? _TypedDataEncoder.hash(domain, SECRET_TRANSACTION_TYPES, {
+        ...tx,
+        salt,
+      })
+    : solidityKeccak256(
+        ["address", "uint256", "bytes", "uint8", "uint256"],
+        [tx.to, tx.value, tx.data, tx.operation, salt]
+      );
+
+/**
+ * Hashes every transaction of a proposal as it would be committed by consecutive `enqueueSecretTx` calls,
+ * i.e. the first transaction with `salt`, the second one with `salt + 1` and so on.
+ */
+export const getSecretProposalHashes = (
+  txs: MetaTransaction[],
+  salt: BigNumberish,
+  domain?: HashDomain
+): string[] =>
+  txs.map((tx, index) =>
+    getSecretTransactionHash(tx, BigNumber.from(salt).add(index), domain)
+  );
+
+/**
+ * Returns a random 256 bit salt for committing a secret transaction.
+ * Unlike the public `salt` counter it can not be guessed, so the committed hash can not be brute-forced
+ * from a list of likely transactions before the salt is revealed by `executeNextSecretTx`.
+ */
+export const generatePrivateSalt = (): BigNumber =>
+  BigNumber.from(randomBytes(32));
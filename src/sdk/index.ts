@@ -0,0 +1,96 @@
+export {
+  serializeRevealBundle,
+  parseRevealBundle,
+  writeRevealBundle,
+  loadRevealBundle,
+} from "./bundle";
+export { SecretDelayClient } from "./client";
+export {
+  generateGuardianKey,
+  encryptRevealBundle,
+  decryptRevealBundle,
+  writeEncryptedRevealBundle,
+  parseEncryptedRevealBundle,
+  loadEncryptedRevealBundle,
+  loadGuardianPublicKey,
+  loadGuardianPrivateKey,
+} from "./encryption";
+export { getExecutionBlocker } from "./executable";
+export { SecretDelayIndexer, IndexerOptions } from "./indexer";
+export { formatAlert, stdoutSink, fileSink, webhookSink } from "./sinks";
+export { SecretDelayWatcher, WatcherOptions } from "./watcher";
+export { SecretDelayKeeper, KeeperOptions } from "./keeper";
+export {
+  getDomainSeparator,
+  getTransactionHash,
+  getSecretTransactionHash,
+  getSecretProposalHashes,
+  generatePrivateSalt,
+} from "./hash";
+export {
+  computeCid,
+  computeCidV0,
+  parseIpfsUri,
+  localUriStore,
+  httpUriResolver,
+  resolveUri,
+} from "./uri";
+export {
+  validateProposal,
+  parseProposal,
+  serializeProposal,
+  loadProposal,
+} from "./proposal";
+export {
+  encodeMultiSend,
+  decodeMultiSend,
+  encodeMultiSendTransaction,
+  batchProposal,
+} from "./multisend";
+export {
+  signEnqueueSecret,
+  recoverEnqueueSecretSigner,
+  writeRelayRequest,
+  loadRelayRequest,
+  TypedDataSigner,
+} from "./relay";
+export {
+  Operation,
+  Parameter,
+  MetaTransaction,
+  HashDomain,
+  Proposal,
+  EnqueuedTransaction,
+  EnqueuedSecretTransaction,
+  EnqueueDetails,
+  RevealBundle,
+  EncryptedRevealBundle,
+  RevealedTransaction,
+  TransactionPreimage,
+  ExecutedTransaction,
+  VetoedTransactions,
+  ApprovedTransactions,
+  SkippedTransactions,
+  CancelledTransaction,
+  GuardianChange,
+  PendingParameterChange,
+  ScheduledParameterChange,
+  SettledParameterChange,
+  PolicyScope,
+  PolicyRule,
+  PolicyChange,
+  CancelledPolicyChange,
+  QueueEntry,
+  EnqueueSecretMessage,
+  RelayRequest,
+  RelayedSecretTransaction,
+  IndexedStatus,
+  IndexedTransaction,
+  IndexerState,
+  TransactionQuery,
+  QueueAlert,
+  AlertSink,
+  KeeperReport,
+  UriResolver,
+  UriStore,
+} from "./types";
@@ -0,0 +1,291 @@
+import fs from "fs";
+
+import { BigNumber, Contract, providers } from "ethers";
+
+import { IndexedTransaction, IndexerState, TransactionQuery } from "./types";
+
+const INDEXED_EVENTS = [
+  "TransactionAdded",
+  "SecretTransactionAdded",
+  "TransactionExecuted",
+  "TransactionsVetoed",
+  "TransactionsApproved",
+  "TransactionHashApproved",
+  "TransactionCancelled",
+  "TransactionsSkipped",
+  "SecretTransactionRelayed",
+  "SecretTransactionRevealed",
+];
+
+export interface IndexerOptions {
+  // JSON file the state is kept in. The indexer resumes from it if it exists.
+  statePath?: string;
+  // Block to start from when there is no state yet, usually the deployment block of the modifier.
+  startBlock?: number;
+  // Maximum number of blocks requested per getLogs call.
+  blockRange?: number;
+}
+
+/**
+ * Rebuilds the history of a SecretDelay queue from its logs.
+ * The contract should be created from the SecretDelay ABI, it only has to be connected to a provider.
+ */
+export class SecretDelayIndexer {
+  private state: IndexerState;
+  private readonly blockRange: number;
+
+  constructor(
+    readonly contract: Contract,
+    readonly options: IndexerOptions = {}
+  ) {
+    this.blockRange = options.blockRange ?? 10000;
+    this.state =
+      options.statePath && fs.existsSync(options.statePath)
+        ? this.readState(options.statePath)
+        : {
+            modifier: contract.address,
+            chainId: 0,
+            lastBlock: (options.startBlock ?? 0) - 1,
+            txNonce: 0,
+            transactions: [],
+          };
+  }
+
+  private readState(path: string): IndexerState {
+    let state: IndexerState;
+    try {
+      state = JSON.parse(fs.readFileSync(path, "utf8"));
+    } catch (e) {
+      throw new Error(`Could not read indexer state ${path}: ${e.message}`);
+    }
+    if (state.modifier !== this.contract.address) {
+      throw new Error(
+        `${path} indexes ${state.modifier}, not ${this.contract.address}`
+      );
+    }
+    return state;
+  }
+
+  private writeState(): void {
+    if (this.options.statePath) {
+      fs.writeFileSync(
+        this.options.statePath,
+        JSON.stringify(this.state, null, 2) + "\n"
+      );
+    }
+  }
+
+  /** Last block whose logs have been processed. */
+  get lastBlock(): number {
+    return this.state.lastBlock;
+  }
+
+  /**
+   * Processes the logs from the block after `lastBlock` up to `toBlock` (default: latest block)
+   * and writes the state after every range of `blockRange` blocks,
+   * so an interrupted sync resumes where it stopped.
+   */
+  async sync(toBlock?: number): Promise<IndexerState> {
+    const provider = this.contract.provider;
+    const { chainId } = await provider.getNetwork();
+    if (this.state.chainId === 0) {
+      this.state.chainId = chainId;
+    } else if (this.state.chainId !== chainId) {
+      throw new Error(
+        `Indexer state is for chain ${this.state.chainId}, but the provider is connected to chain ${chainId}`
+      );
+    }
+    // getBlockNumber is cached by ethers, the latest block is not.
+    const target = toBlock ?? (await provider.getBlock("latest")).number;
+    while (this.state.lastBlock < target) {
+      const fromBlock = this.state.lastBlock + 1;
+      const rangeEnd = Math.min(fromBlock + this.blockRange - 1, target);
+      const logs = await provider.getLogs({
+        address: this.contract.address,
+        topics: [
+          INDEXED_EVENTS.map((name) =>
+            this.contract.interface.getEventTopic(name)
+          ),
+        ],
+        fromBlock,
+        toBlock: rangeEnd,
+      });
+      for (const log of logs) {
+        this.apply(log);
+      }
+      this.state.lastBlock = rangeEnd;
+      this.writeState();
+    }
+    return this.state;
+  }
+
+  private apply(log: providers.Log): void {
+    // Decoded through decodeEventLog, as parseLog drops the names of the args for events with an indexed string.
+    const { name } = this.contract.interface.getEvent(log.topics[0]);
+    const decoded = this.contract.interface.decodeEventLog(
+      name,
+      log.data,
+      log.topics
+    );
+    const enqueuedAt = {
+      blockNumber: log.blockNumber,
+      transactionHash: log.transactionHash,
+    };
+    switch (name) {
+      case "TransactionAdded":
+        this.state.transactions[decoded.queuePointer.toNumber()] = {
+          nonce: decoded.queuePointer.toNumber(),
+          txHash: decoded.txHash,
+          type: "public",
+          status: "pending",
+          enqueuedAt,
+          tx: {
+            to: decoded.to,
+            value: decoded.value.toString(),
+            data: decoded.data,
+            operation: decoded.operation,
+          },
+        };
+        break;
+      case "SecretTransactionAdded":
+        this.state.transactions[decoded.queuePointer.toNumber()] = {
+          nonce: decoded.queuePointer.toNumber(),
+          txHash: decoded.txHash,
+          type: "secret",
+          status: "pending",
+          enqueuedAt,
+          salt: decoded.salt.toString(),
+          uriHash: decoded.uri.hash,
+        };
+        break;
+      case "SecretTransactionRelayed":
+        this.updateRange(
+          decoded.queuePointer,
+          BigNumber.from(1),
+          (transaction) => {
+            transaction.signer = decoded.signer;
+          }
+        );
+        break;
+      case "SecretTransactionRevealed":
+        this.updateRange(decoded.nonce, BigNumber.from(1), (transaction) => {
+          transaction.tx = {
+            to: decoded.to,
+            value: decoded.value.toString(),
+            data: decoded.data,
+            operation: decoded.operation,
+          };
+          transaction.salt = decoded.salt.toString();
+          transaction.revealedIn = log.transactionHash;
+        });
+        break;
+      case "TransactionExecuted":
+        // A failed attempt of a batch leaves the transaction at the head of the queue.
+        if (!decoded.success) break;
+        this.updateRange(decoded.nonce, BigNumber.from(1), (transaction) => {
+          transaction.status = "executed";
+          transaction.executedIn = log.transactionHash;
+        });
+        this.moveHead(decoded.nonce.toNumber() + 1);
+        break;
+      case "TransactionsVetoed":
+        this.updateRange(
+          decoded.startingVetoedTrxNonce,
+          decoded.numberOfTrxVetoed,
+          (transaction) => {
+            // Cancelled entries in the vetoed range keep their status.
+            if (transaction.status === "cancelled") return;
+            transaction.status = "vetoed";
+            transaction.vetoedIn = log.transactionHash;
+          }
+        );
+        this.moveHead(
+          decoded.startingVetoedTrxNonce
+            .add(decoded.numberOfTrxVetoed)
+            .toNumber()
+        );
+        break;
+      case "TransactionsApproved":
+        this.updateRange(
+          decoded.startingApprovedTrxNonce,
+          decoded.numberOfTrxApproved,
+          (transaction) => {
+            transaction.approvedIn = log.transactionHash;
+          }
+        );
+        break;
+      case "TransactionHashApproved":
+        this.updateRange(decoded.nonce, BigNumber.from(1), (transaction) => {
+          transaction.approvedIn = log.transactionHash;
+        });
+        break;
+      case "TransactionsSkipped":
+        this.updateRange(
+          decoded.startingSkippedTrxNonce,
+          decoded.numberOfTrxSkipped,
+          (transaction) => {
+            if (transaction.status === "cancelled") return;
+            transaction.status = "skipped";
+            transaction.skippedIn = log.transactionHash;
+          }
+        );
+        this.moveHead(
+          decoded.startingSkippedTrxNonce
+            .add(decoded.numberOfTrxSkipped)
+            .toNumber()
+        );
+        break;
+      case "TransactionCancelled":
+        this.updateRange(decoded.nonce, BigNumber.from(1), (transaction) => {
+          transaction.status = "cancelled";
+          transaction.cancelledIn = log.transactionHash;
+        });
+        this.moveHead(this.state.txNonce);
+        break;
+    }
+  }
+
+  private updateRange(
+    start: BigNumber,
+    count: BigNumber,
+    update: (transaction: IndexedTransaction) => void
+  ): void {
+    for (
+      let nonce = start.toNumber();
+      nonce < start.add(count).toNumber();
+      nonce++
+    ) {
+      const transaction = this.state.transactions[nonce];
+      if (transaction) {
+        update(transaction);
+      }
+    }
+  }
+
+  // Sets the head of the queue to `nonce`, past the cancelled entries there, as the contract steps over them.
+  private moveHead(nonce: number): void {
+    while (this.state.transactions[nonce]?.status === "cancelled") {
+      nonce++;
+    }
+    this.state.txNonce = nonce;
+  }
+
+  /** Returns the indexed transaction at `nonce`, undefined if no log for it has been processed yet. */
+  getTransaction(nonce: number): IndexedTransaction | undefined {
+    // Nonces enqueued before `startBlock` are holes, which JSON stores as null.
+    return this.state.transactions[nonce] ?? undefined;
+  }
+
+  /** Returns the indexed transactions matching all given criteria, ordered by nonce. `toNonce` is exclusive. */
+  getTransactions(query: TransactionQuery = {}): IndexedTransaction[] {
+    return this.state.transactions.filter(
+      (transaction) =>
+        transaction &&
+        (query.status === undefined || transaction.status === query.status) &&
+        (query.type === undefined || transaction.type === query.type) &&
+        (query.fromNonce === undefined ||
+          transaction.nonce >= query.fromNonce) &&
+        (query.toNonce === undefined || transaction.nonce < query.toNonce)
+    );
+  }
+}
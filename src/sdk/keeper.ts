@@ -0,0 +1,216 @@
+import fs from "fs";
+import path from "path";
+
+import { BigNumber, BigNumberish, Contract } from "ethers";
+
+import { loadRevealBundle } from "./bundle";
+import { SecretDelayClient } from "./client";
+import { getExecutionBlocker } from "./executable";
+import { IndexerOptions, SecretDelayIndexer } from "./indexer";
+import { KeeperReport, TransactionPreimage } from "./types";
+
+export interface KeeperOptions extends IndexerOptions {
+  // Directory with the reveal bundles (`*.reveal.json`) of secret transactions, read again on every poll.
+  bundleDir?: string;
+  // Highest gas price in wei the keeper sends transactions at. While the gas price is higher, it waits.
+  maxGasPrice?: BigNumberish;
+  // Milliseconds between two polls.
+  pollInterval?: number;
+  // Upper bound for the delay between retries, which doubles with each failed poll.
+  maxRetryInterval?: number;
+  // Called with errors of failed polls and unreadable bundles, defaults to console.error.
+  onError?: (error: Error) => void;
+  // Called with the report of each poll, e.g. to log what the keeper did.
+  onReport?: (report: KeeperReport) => void;
+}
+
+/**
+ * Executes the entries of a SecretDelay queue as soon as the `isExecutable` checks let them through,
+ * and skips the head of the queue once it expired.
+ * Public entries are executed from their TransactionAdded logs, secret entries from the reveal bundles in `bundleDir`
+ * or from their SecretTransactionRevealed logs. If the modifier requires reveals, secret entries are revealed as soon as
+ * their bundle is found, even during their cooldown, as the cooldown starts again at the reveal.
+ * The contract has to be connected to the signer that sends the transactions.
+ */
+export class SecretDelayKeeper {
+  readonly indexer: SecretDelayIndexer;
+  readonly client: SecretDelayClient;
+  private readonly pollInterval: number;
+  private readonly maxRetryInterval: number;
+  private failures = 0;
+  private timer?: NodeJS.Timeout;
+  // Set while the keeper is started, resolves the promise returned by `start`.
+  private onStop?: () => void;
+
+  constructor(readonly contract: Contract, readonly options: KeeperOptions) {
+    this.indexer = new SecretDelayIndexer(contract, options);
+    this.client = new SecretDelayClient(contract);
+    this.pollInterval = options.pollInterval ?? 15000;
+    this.maxRetryInterval = options.maxRetryInterval ?? 300000;
+  }
+
+  private reportError(error: Error): void {
+    (this.options.onError ?? console.error)(error);
+  }
+
+  // Preimages of the secret transactions in the bundle directory, by hash.
+  private loadBundles(): Map<string, TransactionPreimage> {
+    const preimages = new Map<string, TransactionPreimage>();
+    const dir = this.options.bundleDir;
+    if (!dir) {
+      return preimages;
+    }
+    for (const name of fs.readdirSync(dir)) {
+      if (!name.endsWith(".reveal.json")) continue;
+      try {
+        const bundle = loadRevealBundle(path.join(dir, name));
+        // The directory may be shared with other modifiers.
+        if (bundle.modifier !== this.contract.address) continue;
+        bundle.entries.forEach(({ txHash, salt }, index) =>
+          preimages.set(txHash, { tx: bundle.proposal.txs[index], salt })
+        );
+      } catch (e) {
+        this.reportError(e);
+      }
+    }
+    return preimages;
+  }
+
+  // Returns a reason not to send a transaction now, undefined if the gas price is below the ceiling.
+  private async checkGasPrice(): Promise<string | undefined> {
+    if (this.options.maxGasPrice === undefined) {
+      return undefined;
+    }
+    const gasPrice = await this.contract.provider.getGasPrice();
+    return gasPrice.gt(this.options.maxGasPrice)
+      ? `Gas price of ${gasPrice} wei is above the ceiling of ${BigNumber.from(
+          this.options.maxGasPrice
+        )} wei`
+      : undefined;
+  }
+
+  // Reveals the queued secret entries found in the bundles that have not been revealed and not expired yet.
+  // Returns a reason not to send them, undefined if all of them were revealed.
+  private async revealBundled(
+    bundled: Map<string, TransactionPreimage>,
+    report: KeeperReport
+  ): Promise<string | undefined> {
+    // The next block is at least one second after the latest one.
+    const now = (await this.contract.provider.getBlock("latest")).timestamp + 1;
+    for (const entry of await this.client.getQueue()) {
+      if (entry.revealed || entry.cancelled) continue;
+      if (entry.expiresAt !== undefined && now > entry.expiresAt) continue;
+      const transaction = this.indexer.getTransaction(entry.nonce);
+      const preimage =
+        transaction?.type === "secret"
+          ? bundled.get(transaction.txHash)
+          : undefined;
+      if (!preimage || preimage.salt === undefined) continue;
+      const blocker = await this.checkGasPrice();
+      if (blocker) return blocker;
+      report.revealed.push(
+        await this.client.reveal(entry.nonce, preimage.tx, preimage.salt)
+      );
+    }
+    return undefined;
+  }
+
+  /**
+   * Syncs the indexer, reveals the bundled secret entries if the modifier requires it, then executes or skips entries from the head of the queue until it is empty
+   * or the head can not be executed yet. Errors of sent transactions are thrown.
+   */
+  async poll(): Promise<KeeperReport> {
+    await this.indexer.sync();
+    const bundled = this.loadBundles();
+    const report: KeeperReport = { executed: [], skipped: [], revealed: [] };
+    if (await this.contract.revealRequired()) {
+      report.blocker = await this.revealBundled(bundled, report);
+      if (report.blocker) {
+        this.options.onReport?.(report);
+        return report;
+      }
+    }
+    for (;;) {
+      const head = await this.client.getHead();
+      if (!head) break;
+      // The next block is at least one second after the latest one.
+      const now =
+        (await this.contract.provider.getBlock("latest")).timestamp + 1;
+      if (head.expiresAt !== undefined && now > head.expiresAt) {
+        report.blocker = await this.checkGasPrice();
+        if (report.blocker) break;
+        report.skipped.push(await this.client.skipExpired());
+        continue;
+      }
+      report.blocker = getExecutionBlocker(head, now);
+      if (report.blocker) break;
+
+      const transaction = this.indexer.getTransaction(head.nonce);
+      if (!transaction) {
+        report.blocker = `Transaction ${head.nonce} was enqueued before the indexed blocks`;
+        break;
+      }
+      const preimage =
+        transaction.type === "public" || transaction.revealedIn
+          ? {
+              tx: transaction.tx as NonNullable<typeof transaction.tx>,
+              salt:
+                transaction.type === "secret" ? transaction.salt : undefined,
+            }
+          : bundled.get(transaction.txHash);
+      if (!preimage) {
+        report.blocker = `Transaction ${head.nonce} is secret and not in the reveal bundles`;
+        break;
+      }
+      report.blocker = await this.checkGasPrice();
+      if (report.blocker) break;
+      if (preimage.salt === undefined) {
+        report.executed.push(await this.client.executeNext(preimage.tx));
+        continue;
+      }
+      report.executed.push(
+        await this.client.executeNextSecret(preimage.tx, preimage.salt)
+      );
+    }
+    this.options.onReport?.(report);
+    return report;
+  }
+
+  /** Polls until `stop` is called. The returned promise resolves once the keeper stopped. */
+  start(): Promise<void> {
+    const next = async () => {
+      try {
+        await this.poll();
+        this.failures = 0;
+      } catch (e) {
+        this.failures++;
+        this.reportError(e);
+      }
+      if (this.onStop) {
+        this.timer = setTimeout(
+          next,
+          Math.min(
+            this.pollInterval * 2 ** this.failures,
+            Math.max(this.maxRetryInterval, this.pollInterval)
+          )
+        );
+      }
+    };
+    return new Promise((resolve) => {
+      this.onStop = () => {
+        this.onStop = undefined;
+        resolve();
+      };
+      next();
+    });
+  }
+
+  /** Stops polling, no poll is started after this call. */
+  stop(): void {
+    if (this.timer) {
+      clearTimeout(this.timer);
+      this.timer = undefined;
+    }
+    this.onStop?.();
+  }
+}
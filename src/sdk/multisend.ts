@@ -0,0 +1,76 @@
+import { BigNumber } from "ethers";
+import {
+  getAddress,
+  hexConcat,
+  hexDataLength,
+  hexDataSlice,
+  Interface,
+  solidityPack,
+} from "ethers/lib/utils";
+
+import { MetaTransaction, Operation, Proposal } from "./types";
+
+const MULTI_SEND_INTERFACE = new Interface([
+  "function multiSend(bytes transactions)",
+]);
+
+/** Packs transactions into the `transactions` argument of `MultiSend.multiSend`. */
+export const encodeMultiSend = (txs: MetaTransaction[]): string =>
+  hexConcat(
+    txs.map(({ to, value, data, operation }) =>
+      solidityPack(
+        ["uint8", "address", "uint256", "uint256", "bytes"],
+        [operation, to, value, hexDataLength(data), data]
+      )
+    )
+  );
+
+/** Unpacks the transactions of the data of a `MultiSend.multiSend` call. */
+export const decodeMultiSend = (data: string): MetaTransaction[] => {
+  const packed: string = MULTI_SEND_INTERFACE.decodeFunctionData(
+    "multiSend",
+    data
+  ).transactions;
+  const txs: MetaTransaction[] = [];
+  // operation (1 byte), to (20 bytes), value (32 bytes), data length (32 bytes), data.
+  for (let offset = 0; offset < hexDataLength(packed); ) {
+    const dataLength = BigNumber.from(
+      hexDataSlice(packed, offset + 53, offset + 85)
+    ).toNumber();
+    txs.push({
+      operation: BigNumber.from(
+        hexDataSlice(packed, offset, offset + 1)
+      ).toNumber(),
+      to: getAddress(hexDataSlice(packed, offset + 1, offset + 21)),
+      value: BigNumber.from(hexDataSlice(packed, offset + 21, offset + 53)),
+      data: hexDataSlice(packed, offset + 85, offset + 85 + dataLength),
+    });
+    offset += 85 + dataLength;
+  }
+  return txs;
+};
+
+/**
+ * Returns the transaction that executes `txs` atomically through a delegate call to the MultiSend contract at `multiSend`:
+ * if one of them fails, all of them are reverted.
+ */
+export const encodeMultiSendTransaction = (
+  txs: MetaTransaction[],
+  multiSend: string
+): MetaTransaction => ({
+  to: multiSend,
+  value: BigNumber.from(0),
+  data: MULTI_SEND_INTERFACE.encodeFunctionData("multiSend", [
+    encodeMultiSend(txs),
+  ]),
+  operation: Operation.DelegateCall,
+});
+
+/** Returns a proposal with a single transaction that batches all transactions of `proposal`, so they take one queue slot. */
+export const batchProposal = (
+  proposal: Proposal,
+  multiSend: string
+): Proposal => ({
+  id: proposal.id,
+  txs: [encodeMultiSendTransaction(proposal.txs, multiSend)],
+});
@@ -0,0 +1,123 @@
+import fs from "fs";
+
+import { BigNumber } from "ethers";
+import { getAddress, isAddress, isHexString } from "ethers/lib/utils";
+
+import { MetaTransaction, Operation, Proposal } from "./types";
+
+const isObject = (value: unknown): value is Record<string, unknown> =>
+  typeof value === "object" && value !== null && !Array.isArray(value);
+
+const isUintString = (value: unknown): value is string =>
+  typeof value === "string" &&
+  (/^[0-9]+$/.test(value) || /^0x[0-9a-fA-F]+$/.test(value));
+
+const validateTransaction = (tx: unknown, path: string): string[] => {
+  if (!isObject(tx)) {
+    return [`${path}: must be an object`];
+  }
+  const errors: string[] = [];
+  if (typeof tx.to !== "string" || !isAddress(tx.to)) {
+    errors.push(`${path}.to: must be an address, got ${JSON.stringify(tx.to)}`);
+  }
+  if (!isUintString(tx.value)) {
+    errors.push(
+      `${path}.value: must be a decimal or 0x-prefixed hex string, got ${JSON.stringify(
+        tx.value
+      )}`
+    );
+  } else if (BigNumber.from(tx.value).gt(BigNumber.from(2).pow(256).sub(1))) {
+    errors.push(`${path}.value: does not fit into uint256`);
+  }
+  if (
+    typeof tx.data !== "string" ||
+    !isHexString(tx.data) ||
+    tx.data.length % 2 !== 0
+  ) {
+    errors.push(
+      `${path}.data: must be a 0x-prefixed hex string of whole bytes, got ${JSON.stringify(
+        tx.data
+      )}`
+    );
+  }
+  if (
+    tx.operation !== Operation.Call &&
+    tx.operation !== Operation.DelegateCall
+  ) {
+    errors.push(
+      `${path}.operation: must be 0 (call) or 1 (delegate call), got ${JSON.stringify(
+        tx.operation
+      )}`
+    );
+  }
+  return errors;
+};
+
+/** Returns one message per invalid field of a proposal, or an empty array if it is valid. */
+export const validateProposal = (proposal: unknown): string[] => {
+  if (!isObject(proposal)) {
+    return ["proposal: must be an object"];
+  }
+  const errors: string[] = [];
+  if (typeof proposal.id !== "string" || proposal.id.length === 0) {
+    errors.push(
+      `id: must be a non-empty string, got ${JSON.stringify(proposal.id)}`
+    );
+  }
+  if (!Array.isArray(proposal.txs) || proposal.txs.length === 0) {
+    errors.push("txs: must be a non-empty array");
+  } else {
+    proposal.txs.forEach((tx, index) =>
+      errors.push(...validateTransaction(tx, `txs[${index}]`))
+    );
+  }
+  return errors;
+};
+
+/** Validates a decoded proposal file and normalizes its transactions. */
+export const parseProposal = (proposal: unknown): Proposal => {
+  const errors = validateProposal(proposal);
+  if (errors.length > 0) {
+    throw new Error(`Invalid proposal:\n  ${errors.join("\n  ")}`);
+  }
+  const { id, txs } = proposal as { id: string; txs: any[] };
+  return {
+    id,
+    txs: txs.map(
+      ({ to, value, data, operation }): MetaTransaction => ({
+        to: getAddress(to),
+        value: BigNumber.from(value),
+        data,
+        operation,
+      })
+    ),
+  };
+};
+
+/** Returns a proposal in the proposal file format, with the values as decimal strings. */
+export const serializeProposal = (
+  proposal: Proposal
+): { id: string; txs: Record<string, unknown>[] } => ({
+  id: proposal.id,
+  txs: proposal.txs.map(({ to, value, data, operation }) => ({
+    to,
+    value: BigNumber.from(value).toString(),
+    data,
+    operation,
+  })),
+});
+
+/** Reads and validates a proposal file (see `docs/proposal.schema.json`). */
+export const loadProposal = (path: string): Proposal => {
+  let proposal: unknown;
+  try {
+    proposal = JSON.parse(fs.readFileSync(path, "utf8"));
+  } catch (e) {
+    throw new Error(`Could not read proposal ${path}: ${e.message}`);
+  }
+  try {
+    return parseProposal(proposal);
+  } catch (e) {
+    throw new Error(`${path}: ${e.message}`);
+  }
+};
@@ -0,0 +1,76 @@
+import fs from "fs";
+
+import { Signer, Wallet } from "ethers";
+import { verifyTypedData } from "ethers/lib/utils";
+
+import { EnqueueSecretMessage, HashDomain, RelayRequest } from "./types";
+
+// Signer that can sign EIP-712 messages, e.g. a Wallet or a hardhat-ethers signer.
+export type TypedDataSigner = Signer & {
+  _signTypedData: Wallet["_signTypedData"];
+};
+
+const ENQUEUE_SECRET_TYPES = {
+  EnqueueSecret: [
+    { name: "txHash", type: "bytes32" },
+    { name: "uri", type: "string" },
+    { name: "nonce", type: "uint256" },
+    { name: "deadline", type: "uint256" },
+  ],
+};
+
+/**
+ * Signs an EnqueueSecret message for `SecretDelay.enqueueSecretTxWithSignature`.
+ * The domain is always bound to the chain and modifier, independent of `domainSeparated`.
+ */
+export const signEnqueueSecret = (
+  signer: TypedDataSigner,
+  domain: HashDomain,
+  message: EnqueueSecretMessage
+): Promise<string> =>
+  signer._signTypedData(domain, ENQUEUE_SECRET_TYPES, message);
+
+/** Returns the address that signed an EnqueueSecret message. */
+export const recoverEnqueueSecretSigner = (
+  domain: HashDomain,
+  message: EnqueueSecretMessage,
+  signature: string
+): string => verifyTypedData(domain, ENQUEUE_SECRET_TYPES, message, signature);
+
+export const writeRelayRequest = (
+  path: string,
+  request: RelayRequest
+): void => {
+  fs.writeFileSync(path, JSON.stringify(request, null, 2) + "\n");
+};
+
+/** Reads a relay request and checks that all its messages were signed by its signer. */
+export const loadRelayRequest = (path: string): RelayRequest => {
+  let request: RelayRequest;
+  try {
+    request = JSON.parse(fs.readFileSync(path, "utf8"));
+  } catch (e) {
+    throw new Error(`Could not read relay request ${path}: ${e.message}`);
+  }
+  if (!Array.isArray(request.entries) || request.entries.length === 0) {
+    throw new Error(`${path}: entries must be a non-empty array`);
+  }
+  const domain = {
+    chainId: request.chainId,
+    verifyingContract: request.modifier,
+  };
+  request.entries.forEach(({ message, signature }, index) => {
+    let signer: string;
+    try {
+      signer = recoverEnqueueSecretSigner(domain, message, signature);
+    } catch (e) {
+      throw new Error(`${path}: entries[${index}]: ${e.message}`);
+    }
+    if (signer !== request.signer) {
+      throw new Error(
+        `${path}: entries[${index}] was signed by ${signer}, not by ${request.signer}`
+      );
+    }
+  });
+  return request;
+};
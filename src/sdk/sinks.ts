@@ -0,0 +1,69 @@
+import fs from "fs";
+import http from "http";
+import https from "https";
+
+import { AlertSink, QueueAlert } from "./types";
+
+/** Formats an alert as a single readable line. */
+export const formatAlert = (alert: QueueAlert): string => {
+  const cooldown =
+    alert.secondsLeft > 0
+      ? `cooldown ends at ${new Date(
+          alert.cooldownEndsAt * 1000
+        ).toISOString()} (${alert.secondsLeft} seconds left)`
+      : "cooldown has already ended";
+  return `${alert.type === "secret" ? "Secret transaction" : "Transaction"} ${
+    alert.nonce
+  } (${alert.txHash}) queued on ${alert.modifier}, ${cooldown}`;
+};
+
+/** Prints each alert to stdout. */
+export const stdoutSink = (): AlertSink => ({
+  name: "stdout",
+  send: async (alert) => console.log(formatAlert(alert)),
+});
+
+/** Appends each alert to `path` as a line of JSON. */
+export const fileSink = (path: string): AlertSink => ({
+  name: `file ${path}`,
+  send: async (alert) =>
+    fs.promises.appendFile(path, JSON.stringify(alert) + "\n"),
+});
+
+/**
+ * Posts each alert as JSON to `url`, failing on any response that is not 2xx.
+ * The request is aborted if it takes longer than `timeout` milliseconds, so a hanging webhook does not stall the watcher.
+ */
+export const webhookSink = (url: string, timeout = 10000): AlertSink => ({
+  name: `webhook ${url}`,
+  send: (alert) =>
+    new Promise((resolve, reject) => {
+      const body = JSON.stringify(alert);
+      const request = (url.startsWith("https:") ? https : http).request(
+        url,
+        {
+          method: "POST",
+          headers: {
+            "Content-Type": "application/json",
+            "Content-Length": Buffer.byteLength(body),
+          },
+        },
+        (response) => {
+          response.resume();
+          const status = response.statusCode ?? 0;
+          if (status >= 200 && status < 300) {
+            resolve();
+          } else {
+            reject(new Error(`Webhook ${url} responded with ${status}`));
+          }
+        }
+      );
+      request.setTimeout(timeout, () =>
+        request.destroy(
+          new Error(`Webhook ${url} did not respond within ${timeout} ms`)
+        )
+      );
+      request.on("error", reject);
+      request.end(body);
+    }),
+});
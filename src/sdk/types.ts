@@ -0,0 +1,337 @@
+import { BigNumber, BigNumberish } from "ethers";
+
+// Mirrors Enum.Operation from the Safe contracts.
+export enum Operation {
+  Call = 0,
+  DelegateCall = 1,
+}
+
+// Mirrors SecretDelay.Parameter, the parameters whose changes are time-locked.
+export enum Parameter {
+  TxCooldown = 0,
+  TxExpiration = 1,
+}
+
+export interface MetaTransaction {
+  to: string;
+  value: BigNumberish;
+  data: string;
+  operation: Operation;
+}
+
+// EIP-712 domain of a modifier that has `domainSeparated` set.
+export interface HashDomain {
+  chainId: number;
+  verifyingContract: string;
+}
+
+// Content of a proposal file, see `docs/proposal.schema.json`.
+export interface Proposal {
+  id: string;
+  txs: MetaTransaction[];
+}
+
+export interface EnqueuedTransaction {
+  queuePointer: number;
+  txHash: string;
+  transactionHash: string;
+}
+
+export interface EnqueuedSecretTransaction extends EnqueuedTransaction {
+  uri: string;
+  // Salt the transaction was hashed with, either the public counter or a private salt.
+  salt: BigNumber;
+}
+
+// Everything needed to execute a committed secret proposal, one entry per transaction.
+export interface RevealBundle {
+  modifier: string;
+  chainId: number;
+  uri: string;
+  // Whether the entries are EIP-712 hashes for `modifier` on `chainId`, see `SecretDelay.domainSeparated`.
+  domainSeparated: boolean;
+  proposal: Proposal;
+  entries: {
+    // Queue nonce, unknown for transactions signed for a relayer until they are relayed.
+    nonce?: number;
+    txHash: string;
+    salt: BigNumber;
+  }[];
+}
+
+// Reveal bundle encrypted to the keys of a set of guardians, meant to be stored at the uri of the proposal.
+export interface EncryptedRevealBundle {
+  // Copies of the fields of the encrypted bundle, so a guardian knows which modifier to check it against.
+  modifier: string;
+  chainId: number;
+  // AES-256-GCM encryption of the bundle under a random content key, followed by the authentication tag.
+  iv: string;
+  ciphertext: string;
+  // The content key encrypted to each guardian with a key agreed between an ephemeral key and the guardian key.
+  recipients: {
+    // Compressed secp256k1 public key of the guardian.
+    publicKey: string;
+    ephemeralPublicKey: string;
+    iv: string;
+    encryptedKey: string;
+  }[];
+}
+
+// EIP-712 message with which an allowed signer enqueues a secret transaction through a relayer.
+export interface EnqueueSecretMessage {
+  txHash: string;
+  uri: string;
+  // Has to be the `signerNonce` of the signer when the message is relayed.
+  nonce: number;
+  // Last timestamp at which the message can be relayed.
+  deadline: number;
+}
+
+// Signed messages of one signer as handed to a relayer. Holds neither the transactions nor their salts.
+export interface RelayRequest {
+  modifier: string;
+  chainId: number;
+  signer: string;
+  entries: {
+    message: EnqueueSecretMessage;
+    signature: string;
+  }[];
+}
+
+export interface RelayedSecretTransaction extends EnqueuedTransaction {
+  signer: string;
+  signerNonce: number;
+}
+
+export interface RevealedTransaction {
+  nonce: number;
+  txHash: string;
+  transactionHash: string;
+}
+
+// Preimage of a queued transaction, secret transactions carry the salt they were hashed with.
+export interface TransactionPreimage {
+  tx: MetaTransaction;
+  salt?: BigNumberish;
+}
+
+export interface ExecutedTransaction {
+  nonce: number;
+  transactionHash: string;
+}
+
+export interface VetoedTransactions {
+  startingNonce: number;
+  count: number;
+  transactionHash: string;
+}
+
+export interface ApprovedTransactions {
+  startingNonce: number;
+  count: number;
+  transactionHash: string;
+}
+
+export interface SkippedTransactions {
+  startingNonce: number;
+  count: number;
+  transactionHash: string;
+}
+
+export interface CancelledTransaction {
+  nonce: number;
+  txHash: string;
+  canceller: string;
+  transactionHash: string;
+}
+
+export interface GuardianChange {
+  guardian: string;
+  // False if the guardian was removed.
+  added: boolean;
+  transactionHash: string;
+}
+
+// Change of a time-locked parameter that waits to be finalized.
+export interface PendingParameterChange {
+  parameter: Parameter;
+  value: number;
+  // Timestamp from which the change can be finalized.
+  eta: number;
+}
+
+export interface ScheduledParameterChange extends PendingParameterChange {
+  transactionHash: string;
+}
+
+// Outcome of a pending change that was finalized or cancelled.
+export interface SettledParameterChange {
+  parameter: Parameter;
+  value: number;
+  // False if the change was cancelled.
+  applied: boolean;
+  transactionHash: string;
+}
+
+export type PolicyScope = "target" | "selector" | "secret";
+
+// Cooldown and expiration override, see `setTargetPolicy`, `setSelectorPolicy` and `setSecretPolicy`.
+export interface PolicyRule {
+  scope: PolicyScope;
+  // Target address or function selector, undefined for the secret policy.
+  key?: string;
+  cooldown: number;
+  // 0 if transactions under the policy never expire.
+  expiration: number;
+}
+
+export interface PolicyChange {
+  scope: PolicyScope;
+  key?: string;
+  // False if the rule was removed.
+  set: boolean;
+  // Set if the change lowers a cooldown or expiration and was only scheduled. Making the same call again
+  // from `eta` on applies it, until then the owner or a guardian can drop it with `cancelPolicyChange(changeHash)`.
+  scheduled?: { changeHash: string; eta: number };
+  transactionHash: string;
+}
+
+export interface CancelledPolicyChange {
+  changeHash: string;
+  transactionHash: string;
+}
+
+export interface QueueEntry {
+  nonce: number;
+  txHash: string;
+  createdAt: number;
+  // Timestamp from which the entry can be executed without approval, from the policy recorded for the entry if there is one.
+  // While the modifier requires reveals, the cooldown of a revealed entry is counted from its reveal.
+  cooldownEndsAt: number;
+  // Last timestamp at which the entry can be executed, undefined if it never expires. Counted from `cooldownEndsAt`.
+  expiresAt?: number;
+  // True if the entry falls inside the current `approved` window or its hash was approved with `approveHashes`.
+  approved: boolean;
+  // True if the secret transaction of the entry was published with `revealSecretTx`.
+  revealed: boolean;
+  // Timestamp of the `revealSecretTx` call, undefined if the entry has not been revealed.
+  revealedAt?: number;
+  // True if the entry was cancelled with `cancelTransaction`. Cancelled entries are stepped over.
+  cancelled: boolean;
+}
+
+// How an entry was added to the queue, as read from the TransactionAdded and SecretTransactionAdded logs.
+export type EnqueueDetails =
+  | {
+      type: "public";
+      tx: MetaTransaction;
+      transactionHash: string;
+    }
+  | {
+      type: "secret";
+      // Value of the public salt counter, entries committed with a private salt were hashed with another salt.
+      salt: BigNumber;
+      // `uri` is indexed, so only its hash is logged. The uri itself is recovered
+      // from the calldata when `enqueueSecretTx`, `enqueueSecretTxBatch` or `enqueueSecretTxWithSignature`
+      // was called directly.
+      uriHash: string;
+      uri?: string;
+      transactionHash: string;
+    };
+
+export type IndexedStatus =
+  | "pending"
+  | "executed"
+  | "vetoed"
+  | "skipped"
+  | "cancelled";
+
+// Entry of the indexer state. Numbers that do not fit a js number are stored as decimal strings so the state stays plain JSON.
+export interface IndexedTransaction {
+  nonce: number;
+  txHash: string;
+  type: "public" | "secret";
+  status: IndexedStatus;
+  enqueuedAt: { blockNumber: number; transactionHash: string };
+  // Set for public entries and for secret entries once they are revealed.
+  tx?: {
+    to: string;
+    value: string;
+    data: string;
+    operation: Operation;
+  };
+  // Only set for secret entries. `salt` is the public counter value (see EnqueueDetails)
+  // until the entry is revealed, then it is the salt the transaction was hashed with.
+  salt?: string;
+  uriHash?: string;
+  // Set for secret entries enqueued through a relayer.
+  signer?: string;
+  approvedIn?: string;
+  revealedIn?: string;
+  // Hash of the transaction that executed, vetoed, skipped or cancelled the entry.
+  executedIn?: string;
+  vetoedIn?: string;
+  skippedIn?: string;
+  cancelledIn?: string;
+}
+
+export interface IndexerState {
+  modifier: string;
+  chainId: number;
+  // Last block whose logs have been processed.
+  lastBlock: number;
+  // Head of the queue as of `lastBlock`, derived from the execute, veto, skip and cancel logs.
+  txNonce: number;
+  transactions: IndexedTransaction[];
+}
+
+export interface TransactionQuery {
+  status?: IndexedStatus;
+  type?: "public" | "secret";
+  fromNonce?: number;
+  toNonce?: number;
+}
+
+// Raised by the watcher for each entry added to the queue.
+export interface QueueAlert {
+  modifier: string;
+  chainId: number;
+  nonce: number;
+  type: "public" | "secret";
+  txHash: string;
+  transactionHash: string;
+  createdAt: number;
+  cooldownEndsAt: number;
+  // Seconds until `cooldownEndsAt` at the time of the alert, 0 if the cooldown already ended.
+  secondsLeft: number;
+  tx?: IndexedTransaction["tx"];
+  salt?: string;
+  uriHash?: string;
+}
+
+export interface AlertSink {
+  name: string;
+  send(alert: QueueAlert): Promise<void>;
+}
+
+// What the keeper did in one poll.
+export interface KeeperReport {
+  executed: ExecutedTransaction[];
+  skipped: SkippedTransactions[];
+  // Secret transactions revealed as soon as their bundle was found, as the modifier requires it.
+  revealed: RevealedTransaction[];
+  // Why the keeper left the head of the queue as it is, undefined if the queue is empty.
+  blocker?: string;
+}
+
+// Fetches the content behind the `uri` of secret transactions.
+export interface UriResolver {
+  name: string;
+  canResolve(uri: string): boolean;
+  resolve(uri: string): Promise<Uint8Array>;
+}
+
+// Resolver that can also store content, returning the uri under which it can be resolved.
+export interface UriStore extends UriResolver {
+  put(content: Uint8Array): Promise<string>;
+}
@@ -0,0 +1,179 @@
+import fs from "fs";
+import http from "http";
+import https from "https";
+import path from "path";
+
+import { base58, concat, sha256 } from "ethers/lib/utils";
+
+import { UriResolver, UriStore } from "./types";
+
+// Chunk size of `ipfs add`, larger contents are split into several blocks and get a CID of the dag linking them.
+const MAX_BLOCK_SIZE = 262144;
+const BASE32_ALPHABET = "abcdefghijklmnopqrstuvwxyz234567";
+
+const base32 = (bytes: Uint8Array) => {
+  let output = "";
+  let value = 0;
+  let bits = 0;
+  for (const byte of bytes) {
+    value = (value << 8) | byte;
+    bits += 8;
+    while (bits >= 5) {
+      output += BASE32_ALPHABET[(value >>> (bits - 5)) & 31];
+      bits -= 5;
+    }
+    value &= (1 << bits) - 1;
+  }
+  if (bits > 0) {
+    output += BASE32_ALPHABET[(value << (5 - bits)) & 31];
+  }
+  return output;
+};
+
+/**
+ * Returns the CIDv1 of `content` as a single raw block hashed with sha2-256, in base32.
+ * This is the CID that `ipfs add --cid-version 1 --raw-leaves` assigns to a file of up to 256 KiB.
+ */
+export const computeCid = (content: Uint8Array): string => {
+  if (content.length > MAX_BLOCK_SIZE) {
+    throw new Error(
+      `Content of ${content.length} bytes does not fit a single IPFS block of ${MAX_BLOCK_SIZE} bytes`
+    );
+  }
+  // CIDv1, raw codec, sha2-256 multihash of 32 bytes.
+  return "b" + base32(concat([[0x01, 0x55, 0x12, 0x20], sha256(content)]));
+};
+
+const varint = (value: number) => {
+  const bytes: number[] = [];
+  for (; value >= 0x80; value = Math.floor(value / 0x80)) {
+    bytes.push((value & 0x7f) | 0x80);
+  }
+  bytes.push(value);
+  return bytes;
+};
+
+/**
+ * Returns the CIDv0 (`Qm…`) of `content` as a single UnixFS file node, in base58.
+ * This is the CID that a plain `ipfs add` assigns to a file of up to 256 KiB.
+ */
+export const computeCidV0 = (content: Uint8Array): string => {
+  if (content.length > MAX_BLOCK_SIZE) {
+    throw new Error(
+      `Content of ${content.length} bytes does not fit a single IPFS block of ${MAX_BLOCK_SIZE} bytes`
+    );
+  }
+  // UnixFS Data message of type File, with the content and its size. Empty contents have no data field.
+  const unixfs = concat([
+    [0x08, 0x02],
+    content.length > 0 ? concat([[0x12], varint(content.length), content]) : [],
+    [0x18],
+    varint(content.length),
+  ]);
+  // dag-pb node without links, sha2-256 multihash of 32 bytes.
+  const node = concat([[0x0a], varint(unixfs.length), unixfs]);
+  return base58.encode(concat([[0x12, 0x20], sha256(node)]));
+};
+
+/** Returns the CID of an `ipfs://<cid>` uri, with a CIDv1 in base32 or a CIDv0, undefined for other uris. */
+export const parseIpfsUri = (uri: string): string | undefined => {
+  const match = /^ipfs:\/\/([a-z2-7]+|Qm[1-9A-HJ-NP-Za-km-z]{44})$/.exec(uri);
+  return match ? match[1] : undefined;
+};
+
+const checkCid = (uri: string, cid: string, content: Uint8Array) => {
+  const computed = cid.startsWith("Qm")
+    ? computeCidV0(content)
+    : computeCid(content);
+  if (computed !== cid) {
+    throw new Error(`Content resolved for ${uri} does not match its CID`);
+  }
+  return content;
+};
+
+/**
+ * Stores contents in `directory` under their CID and resolves `ipfs://<cid>` uris from it.
+ * The uris are the same as those of the contents added to IPFS, so the store can stand in for IPFS in tests.
+ * Uris of contents that are not in the store are left to the other resolvers.
+ */
+export const localUriStore = (directory: string): UriStore => ({
+  name: `local store ${directory}`,
+  canResolve: (uri) => {
+    const cid = parseIpfsUri(uri);
+    return cid !== undefined && fs.existsSync(path.join(directory, cid));
+  },
+  resolve: async (uri) => {
+    const cid = parseIpfsUri(uri);
+    if (!cid) {
+      throw new Error(`${uri} is not an ipfs:// uri`);
+    }
+    let content: Uint8Array;
+    try {
+      content = await fs.promises.readFile(path.join(directory, cid));
+    } catch (e) {
+      throw new Error(
+        `Could not resolve ${uri} from ${directory}: ${e.message}`
+      );
+    }
+    return checkCid(uri, cid, content);
+  },
+  put: async (content) => {
+    const cid = computeCid(content);
+    await fs.promises.mkdir(directory, { recursive: true });
+    await fs.promises.writeFile(path.join(directory, cid), content);
+    return `ipfs://${cid}`;
+  },
+});
+
+const get = (url: string): Promise<Uint8Array> =>
+  new Promise((resolve, reject) => {
+    const request = (url.startsWith("https:") ? https : http).get(
+      url,
+      (response) => {
+        const status = response.statusCode ?? 0;
+        if (status < 200 || status >= 300) {
+          response.resume();
+          reject(new Error(`${url} responded with ${status}`));
+          return;
+        }
+        const chunks: Buffer[] = [];
+        response.on("data", (chunk: Buffer) => chunks.push(chunk));
+        response.on("end", () => resolve(Buffer.concat(chunks)));
+        response.on("error", reject);
+      }
+    );
+    request.on("error", reject);
+  });
+
+/**
+ * Resolves `http(s)://` uris with a GET request, and `ipfs://<cid>` uris from `<gateway>/ipfs/<cid>`.
+ * Contents of ipfs uris are checked against their CID, so the gateway does not have to be trusted.
+ */
+export const httpUriResolver = (gateway: string): UriResolver => ({
+  name: `http gateway ${gateway}`,
+  canResolve: (uri) =>
+    parseIpfsUri(uri) !== undefined || /^https?:\/\//.test(uri),
+  resolve: async (uri) => {
+    const cid = parseIpfsUri(uri);
+    if (!cid) {
+      return get(uri);
+    }
+    return checkCid(
+      uri,
+      cid,
+      await get(`${gateway.replace(/\/$/, "")}/ipfs/${cid}`)
+    );
+  },
+});
+
+/** Resolves `uri` with the first of `resolvers` that can resolve it. */
+export const resolveUri = async (
+  resolvers: UriResolver[],
+  uri: string
+): Promise<Uint8Array> => {
+  const resolver = resolvers.find((candidate) => candidate.canResolve(uri));
+  if (!resolver) {
+    throw new Error(`No resolver for ${uri}`);
+  }
+  return resolver.resolve(uri);
+};
@@ -0,0 +1,198 @@
+import fs from "fs";
+
+import { BigNumber, Contract } from "ethers";
+
+import { IndexerOptions, SecretDelayIndexer } from "./indexer";
+import { AlertSink, QueueAlert } from "./types";
+
+export interface WatcherOptions extends IndexerOptions {
+  sinks: AlertSink[];
+  // JSON file the nonce up to which every entry reached all sinks is kept in.
+  // Defaults to `<statePath>.alerts.json` if there is a `statePath`.
+  cursorPath?: string;
+  // Milliseconds between two polls.
+  pollInterval?: number;
+  // Upper bound for the delay between retries, which doubles with each failed poll.
+  maxRetryInterval?: number;
+  // Called with errors of failed polls and sinks, defaults to console.error.
+  onError?: (error: Error) => void;
+}
+
+/**
+ * Polls a SecretDelay modifier for new queue entries and sends an alert for each of them to all sinks.
+ * New entries are found with a SecretDelayIndexer. The watcher keeps a cursor of the entries that reached all sinks,
+ * so an alert is sent again until every sink took it, and a watcher with a `cursorPath` does not repeat alerts after a restart.
+ * Each poll is a set of plain requests to the provider, so a watcher recovers from a lost connection with the next poll.
+ */
+export class SecretDelayWatcher {
+  readonly indexer: SecretDelayIndexer;
+  private readonly pollInterval: number;
+  private readonly maxRetryInterval: number;
+  private readonly cursorPath?: string;
+  // Entries below this nonce reached all sinks.
+  private alertedNonce: number;
+  private failures = 0;
+  private timer?: NodeJS.Timeout;
+  // Set while the watcher is started, resolves the promise returned by `start`.
+  private onStop?: () => void;
+
+  constructor(readonly contract: Contract, readonly options: WatcherOptions) {
+    this.indexer = new SecretDelayIndexer(contract, options);
+    this.pollInterval = options.pollInterval ?? 15000;
+    this.maxRetryInterval = options.maxRetryInterval ?? 300000;
+    this.cursorPath =
+      options.cursorPath ??
+      (options.statePath ? `${options.statePath}.alerts.json` : undefined);
+    this.alertedNonce = this.readCursor();
+  }
+
+  private reportError(error: Error): void {
+    (this.options.onError ?? console.error)(error);
+  }
+
+  // Without a cursor, the entries the indexer resumed with were alerted by the watcher that indexed them.
+  private readCursor(): number {
+    if (!this.cursorPath || !fs.existsSync(this.cursorPath)) {
+      return this.indexer
+        .getTransactions()
+        .reduce((next, { nonce }) => Math.max(next, nonce + 1), 0);
+    }
+    let cursor: { modifier: string; alertedNonce: number };
+    try {
+      cursor = JSON.parse(fs.readFileSync(this.cursorPath, "utf8"));
+    } catch (e) {
+      throw new Error(
+        `Could not read watcher cursor ${this.cursorPath}: ${e.message}`
+      );
+    }
+    if (cursor.modifier !== this.contract.address) {
+      throw new Error(
+        `${this.cursorPath} is the cursor of ${cursor.modifier}, not ${this.contract.address}`
+      );
+    }
+    return cursor.alertedNonce;
+  }
+
+  private writeCursor(): void {
+    if (this.cursorPath) {
+      fs.writeFileSync(
+        this.cursorPath,
+        JSON.stringify(
+          { modifier: this.contract.address, alertedNonce: this.alertedNonce },
+          null,
+          2
+        ) + "\n"
+      );
+    }
+  }
+
+  /**
+   * Syncs the indexer and alerts on all entries from the cursor on, in queue order.
+   * Errors of the sinks are reported. The cursor stops at the first entry a sink failed on,
+   * so that entry and the ones after it are sent to all sinks again with the next poll.
+   * Returns the alerts that reached all sinks.
+   */
+  async poll(): Promise<QueueAlert[]> {
+    // Written before the indexer state, so that a restart does not take entries that were never alerted as alerted.
+    if (this.cursorPath && !fs.existsSync(this.cursorPath)) {
+      this.writeCursor();
+    }
+    const { chainId } = await this.indexer.sync();
+    const added = this.indexer.getTransactions({
+      fromNonce: this.alertedNonce,
+    });
+    if (added.length === 0) {
+      return [];
+    }
+
+    const provider = this.contract.provider;
+    const latest = await provider.getBlock("latest");
+    const alerts: QueueAlert[] = [];
+    for (const entry of added) {
+      const { timestamp } = await provider.getBlock(
+        entry.enqueuedAt.blockNumber
+      );
+      // The policy recorded for the entry, or the current txCooldown.
+      const {
+        cooldown,
+      }: { cooldown: BigNumber } = await this.contract.getTxDelay(entry.nonce);
+      const cooldownEndsAt = cooldown.add(timestamp).toNumber();
+      alerts.push({
+        modifier: this.contract.address,
+        chainId,
+        nonce: entry.nonce,
+        type: entry.type,
+        txHash: entry.txHash,
+        transactionHash: entry.enqueuedAt.transactionHash,
+        createdAt: timestamp,
+        cooldownEndsAt,
+        secondsLeft: Math.max(cooldownEndsAt - latest.timestamp, 0),
+        ...(entry.type === "public"
+          ? { tx: entry.tx }
+          : { salt: entry.salt, uriHash: entry.uriHash }),
+      });
+    }
+
+    const delivered: QueueAlert[] = [];
+    for (const alert of alerts) {
+      const sent = await Promise.all(
+        this.options.sinks.map((sink) =>
+          sink.send(alert).then(
+            () => true,
+            (e: Error) => {
+              this.reportError(
+                new Error(
+                  `Could not send alert for nonce ${alert.nonce} to ${sink.name}: ${e.message}`
+                )
+              );
+              return false;
+            }
+          )
+        )
+      );
+      if (!sent.every(Boolean)) break;
+      this.alertedNonce = alert.nonce + 1;
+      this.writeCursor();
+      delivered.push(alert);
+    }
+    return delivered;
+  }
+
+  /** Polls until `stop` is called. The returned promise resolves once the watcher stopped. */
+  start(): Promise<void> {
+    const next = async () => {
+      try {
+        await this.poll();
+        this.failures = 0;
+      } catch (e) {
+        this.failures++;
+        this.reportError(e);
+      }
+      if (this.onStop) {
+        this.timer = setTimeout(
+          next,
+          Math.min(
+            this.pollInterval * 2 ** this.failures,
+            Math.max(this.maxRetryInterval, this.pollInterval)
+          )
+        );
+      }
+    };
+    return new Promise((resolve) => {
+      this.onStop = () => {
+        this.onStop = undefined;
+        resolve();
+      };
+      next();
+    });
+  }
+
+  /** Stops polling, no poll is started after this call. */
+  stop(): void {
+    if (this.timer) {
+      clearTimeout(this.timer);
+      this.timer = undefined;
+    }
+    this.onStop?.();
+  }
+}
@@ -0,0 +1,192 @@
+import readline from "readline";
+
+import "hardhat-deploy";
+import "@nomiclabs/hardhat-ethers";
+import { task, types } from "hardhat/config";
+import { HardhatRuntimeEnvironment } from "hardhat/types";
+
+import {
+  decodeMultiSend,
+  loadRevealBundle,
+  MetaTransaction,
+  Operation,
+  SecretDelayClient,
+  SecretDelayIndexer,
+} from "../sdk";
+
+interface ApproveTaskArgs {
+  modifier: string;
+  nonce?: number;
+  count: number;
+  bundles?: string;
+  state?: string;
+  fromBlock?: number;
+  yes: boolean;
+}
+
+const formatTx = (tx: MetaTransaction, indent: string): string => {
+  const lines = [
+    `${indent}to: ${tx.to}`,
+    `${indent}value: ${tx.value.toString()}`,
+    `${indent}operation: ${Operation[tx.operation]}`,
+    `${indent}data: ${tx.data}`,
+  ];
+  try {
+    const batched = decodeMultiSend(tx.data);
+    lines.push(`${indent}multiSend of ${batched.length} transaction(s):`);
+    batched.forEach((inner, index) =>
+      lines.push(`${indent}  [${index}]`, formatTx(inner, `${indent}    `))
+    );
+  } catch (e) {
+    // Not a multiSend call, the data is shown as it is.
+  }
+  return lines.join("\n");
+};
+
+const confirm = (question: string): Promise<boolean> =>
+  new Promise((resolve) => {
+    const prompt = readline.createInterface({
+      input: process.stdin,
+      output: process.stdout,
+    });
+    prompt.question(question, (answer) => {
+      prompt.close();
+      resolve(/^y(es)?$/i.test(answer.trim()));
+    });
+  });
+
+const approve = async (
+  taskArgs: ApproveTaskArgs,
+  hardhatRuntime: HardhatRuntimeEnvironment
+) => {
+  const [caller] = await hardhatRuntime.ethers.getSigners();
+  console.log("Using the account:", caller.address);
+  const contract = await hardhatRuntime.ethers.getContractAt(
+    "SecretDelay",
+    taskArgs.modifier,
+    caller
+  );
+  const client = new SecretDelayClient(contract);
+
+  // Transactions of the secret entries in the reveal bundles, by hash.
+  const bundled = new Map<string, MetaTransaction>();
+  for (const path of taskArgs.bundles ? taskArgs.bundles.split(",") : []) {
+    const bundle = loadRevealBundle(path);
+    if (bundle.modifier !== contract.address) {
+      throw new Error(
+        `${path} is a reveal bundle for ${bundle.modifier}, not for ${contract.address}`
+      );
+    }
+    bundle.entries.forEach(({ txHash }, index) =>
+      bundled.set(txHash, bundle.proposal.txs[index])
+    );
+  }
+
+  const indexer = new SecretDelayIndexer(contract, {
+    statePath: taskArgs.state,
+    startBlock: taskArgs.fromBlock,
+  });
+  const { txNonce } = await indexer.sync();
+  const first = taskArgs.nonce ?? txNonce;
+  const hashes: string[] = [];
+  for (let nonce = first; nonce < first + taskArgs.count; nonce++) {
+    const transaction = indexer.getTransaction(nonce);
+    if (!transaction) {
+      throw new Error(`Transaction ${nonce} is not in the indexed blocks`);
+    }
+    if (transaction.status !== "pending") {
+      throw new Error(
+        `Transaction ${nonce} has already been ${transaction.status}`
+      );
+    }
+    let source: string;
+    let tx: MetaTransaction | undefined;
+    if (transaction.type === "public") {
+      source = "public";
+      tx = transaction.tx;
+    } else if (transaction.revealedIn) {
+      source = "secret, revealed";
+      tx = transaction.tx;
+    } else {
+      source = "secret, from the reveal bundles";
+      tx = bundled.get(transaction.txHash);
+    }
+    // Approving a transaction that can not be shown is what hash approvals are meant to prevent.
+    if (!tx) {
+      throw new Error(
+        `Transaction ${nonce} is secret and not in the reveal bundles, pass its reveal bundle with --bundles to review it`
+      );
+    }
+    console.log(
+      `Transaction ${nonce} (${transaction.txHash}), ${source}:\n${formatTx(
+        tx,
+        "  "
+      )}`
+    );
+    hashes.push(transaction.txHash);
+  }
+
+  if (
+    !taskArgs.yes &&
+    !(await confirm(`Approve these ${hashes.length} transaction(s)? [y/N] `))
+  ) {
+    console.log("Nothing approved");
+    return undefined;
+  }
+  const owner: string = await contract.owner();
+  if (owner !== caller.address) {
+    // The owner is usually a Safe, which has to execute the call itself.
+    const tx = await contract.populateTransaction.approveHashes(first, hashes);
+    console.log(
+      `${caller.address} is not the owner, execute this transaction from the owner ${owner}:`
+    );
+    console.log("To:", tx.to);
+    console.log("Data:", tx.data);
+    return { to: tx.to, data: tx.data };
+  }
+  const approved = await client.approveHashes(first, hashes);
+  console.log(
+    `Approved ${approved.count} transaction(s) from ${approved.startingNonce} in`,
+    approved.transactionHash
+  );
+  return approved;
+};
+
+task(
+  "approve",
+  "Shows transactions in the queue of a SecretDelay modifier and approves their hashes, so they can be executed before their cooldown ends"
+)
+  .addParam("modifier", "Address of the modifier", undefined, types.string)
+  .addParam(
+    "nonce",
+    "Nonce of the first transaction to approve (defaults to the head of the queue)",
+    undefined,
+    types.int,
+    true
+  )
+  .addParam("count", "Number of transactions to approve", 1, types.int, true)
+  .addParam(
+    "bundles",
+    "Comma separated paths of reveal bundles with the transactions of secret entries",
+    undefined,
+    types.string,
+    true
+  )
+  .addParam(
+    "state",
+    "JSON file the indexer state is kept in, so later runs only read new logs",
+    undefined,
+    types.string,
+    true
+  )
+  .addParam(
+    "fromBlock",
+    "Block to start indexing from if there is no state yet (defaults to 0)",
+    undefined,
+    types.int,
+    true
+  )
+  .addFlag("yes", "Approve without asking for confirmation")
+  .setAction(approve);
+
+export {};
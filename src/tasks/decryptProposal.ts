@@ -0,0 +1,122 @@
+import "hardhat-deploy";
+import "@nomiclabs/hardhat-ethers";
+import { BigNumber } from "ethers";
+import { task, types } from "hardhat/config";
+import { HardhatRuntimeEnvironment } from "hardhat/types";
+
+import {
+  decryptRevealBundle,
+  loadEncryptedRevealBundle,
+  loadGuardianPrivateKey,
+  writeRevealBundle,
+} from "../sdk";
+
+interface DecryptProposalTaskArgs {
+  file: string;
+  key: string;
+  bundle?: string;
+  offline: boolean;
+}
+
+const decryptProposal = async (
+  taskArgs: DecryptProposalTaskArgs,
+  hardhatRuntime: HardhatRuntimeEnvironment
+) => {
+  const bundle = decryptRevealBundle(
+    loadEncryptedRevealBundle(taskArgs.file),
+    loadGuardianPrivateKey(taskArgs.key)
+  );
+  console.log(
+    `Proposal ${bundle.proposal.id} for ${bundle.modifier} on chain ${bundle.chainId}, uri ${bundle.uri}`
+  );
+  bundle.proposal.txs.forEach(({ to, value, data, operation }, index) => {
+    console.log(`txs[${index}]:`, {
+      nonce: bundle.entries[index].nonce,
+      to,
+      value: BigNumber.from(value).toString(),
+      data,
+      operation,
+    });
+  });
+
+  if (taskArgs.offline) {
+    console.log(
+      "Checked the transactions against the hashes in the bundle, not against the queue"
+    );
+  } else {
+    const chainId = Number(await hardhatRuntime.getChainId());
+    if (bundle.chainId !== chainId) {
+      throw new Error(
+        `Reveal bundle was created on chain ${bundle.chainId}, but connected to chain ${chainId}`
+      );
+    }
+    const modifier = await hardhatRuntime.ethers.getContractAt(
+      "SecretDelay",
+      bundle.modifier
+    );
+    for (const [index, entry] of bundle.entries.entries()) {
+      const { txHash } = entry;
+      let { nonce } = entry;
+      if (nonce === undefined) {
+        // Bundles stored before they were enqueued carry no nonces, find them from the logs of their hashes.
+        const [log] = await modifier.provider.getLogs({
+          ...modifier.filters.SecretTransactionAdded(null, txHash),
+          fromBlock: 0,
+        });
+        if (!log) {
+          throw new Error(
+            `txs[${index}] hashes to ${txHash}, which was not enqueued in ${bundle.modifier}`
+          );
+        }
+        nonce = modifier.interface
+          .decodeEventLog("SecretTransactionAdded", log.data, log.topics)
+          .queuePointer.toNumber() as number;
+        console.log(`txs[${index}] was enqueued as transaction ${nonce}`);
+      }
+      const queued = await modifier.txHash(nonce);
+      if (queued !== txHash) {
+        throw new Error(
+          `txs[${index}] hashes to ${txHash}, but transaction ${nonce} of the queue has hash ${queued}`
+        );
+      }
+    }
+    console.log("All transactions match their hashes in the queue");
+  }
+
+  if (taskArgs.bundle) {
+    writeRevealBundle(taskArgs.bundle, bundle);
+    console.log("Reveal bundle written to:", taskArgs.bundle);
+  }
+  return bundle;
+};
+
+task(
+  "decryptProposal",
+  "Decrypts an encrypted reveal bundle with a guardian key and checks it against the queue of its SecretDelay modifier"
+)
+  .addParam(
+    "file",
+    "Path of the encrypted reveal bundle",
+    undefined,
+    types.string
+  )
+  .addParam(
+    "key",
+    "Path of the guardian private key file",
+    undefined,
+    types.string
+  )
+  .addParam(
+    "bundle",
+    "Path to write the decrypted reveal bundle to",
+    undefined,
+    types.string,
+    true
+  )
+  .addFlag(
+    "offline",
+    "Only check the transactions against the hashes in the bundle, without reading the queue"
+  )
+  .setAction(decryptProposal);
+
+export {};
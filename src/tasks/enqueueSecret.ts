@@ -0,0 +1,230 @@
+import fs from "fs";
+
+import "hardhat-deploy";
+import "@nomiclabs/hardhat-ethers";
+import { BigNumber } from "ethers";
+import { toUtf8Bytes } from "ethers/lib/utils";
+import { task, types } from "hardhat/config";
+import { HardhatRuntimeEnvironment } from "hardhat/types";
+
+import {
+  batchProposal,
+  encryptRevealBundle,
+  generatePrivateSalt,
+  getSecretTransactionHash,
+  loadGuardianPublicKey,
+  loadProposal,
+  RevealBundle,
+  localUriStore,
+  SecretDelayClient,
+  serializeProposal,
+  writeEncryptedRevealBundle,
+  writeRevealBundle,
+} from "../sdk";
+
+interface EnqueueSecretTaskArgs {
+  modifier: string;
+  proposal: string;
+  uri?: string;
+  store?: string;
+  bundle?: string;
+  privateSalt: boolean;
+  guardians?: string;
+  encrypted?: string;
+  multisend?: string;
+}
+
+const enqueueSecretProposal = async (
+  taskArgs: EnqueueSecretTaskArgs,
+  hardhatRuntime: HardhatRuntimeEnvironment
+) => {
+  const [caller] = await hardhatRuntime.ethers.getSigners();
+  console.log("Using the account:", caller.address);
+  if (!taskArgs.uri === !taskArgs.store) {
+    throw new Error("Pass either a uri or a store to put the proposal in");
+  }
+  if (taskArgs.store && taskArgs.guardians && !taskArgs.privateSalt) {
+    throw new Error(
+      "A reveal bundle can only be stored before enqueueing with private salts, as the public salts are not known in advance"
+    );
+  }
+  let proposal = loadProposal(taskArgs.proposal);
+  if (taskArgs.multisend) {
+    if (
+      (await hardhatRuntime.ethers.provider.getCode(taskArgs.multisend)) ===
+      "0x"
+    ) {
+      throw new Error(
+        `There is no MultiSend contract at ${taskArgs.multisend}`
+      );
+    }
+    console.log(
+      `Batching ${proposal.txs.length} transaction(s) into one MultiSend call to ${taskArgs.multisend}`
+    );
+    proposal = batchProposal(proposal, taskArgs.multisend);
+  }
+  // Read before enqueueing, so a missing key file does not leave a proposal without its encrypted bundle.
+  const guardianKeys = taskArgs.guardians
+    ? taskArgs.guardians.split(",").map((path) => loadGuardianPublicKey(path))
+    : [];
+  const modifier = await hardhatRuntime.ethers.getContractAt(
+    "SecretDelay",
+    taskArgs.modifier,
+    caller
+  );
+  if (!(await modifier.isModuleEnabled(caller.address))) {
+    throw new Error(
+      `${caller.address} is not an enabled module of ${modifier.address}`
+    );
+  }
+
+  const client = new SecretDelayClient(modifier);
+  const chainId = Number(await hardhatRuntime.getChainId());
+  const domainSeparated: boolean = await modifier.domainSeparated();
+  let uri = taskArgs.uri as string;
+  let privateSalts: boolean | BigNumber[] = taskArgs.privateSalt;
+  if (taskArgs.store) {
+    // The uri is the CID of the content, so the content is stored before the transactions are committed.
+    let content: Uint8Array;
+    if (guardianKeys.length > 0) {
+      const salts = proposal.txs.map(() => generatePrivateSalt());
+      const hashDomain = await client.getHashDomain();
+      privateSalts = salts;
+      content = toUtf8Bytes(
+        JSON.stringify(
+          encryptRevealBundle(
+            {
+              modifier: modifier.address,
+              chainId,
+              // A bundle can not hold the CID of its own encryption.
+              uri: "",
+              domainSeparated,
+              proposal,
+              entries: proposal.txs.map((tx, index) => ({
+                txHash: getSecretTransactionHash(tx, salts[index], hashDomain),
+                salt: salts[index],
+              })),
+            },
+            guardianKeys
+          )
+        )
+      );
+    } else if (taskArgs.multisend) {
+      // The batched proposal is stored, as it is the one that hashes to the committed hash.
+      content = toUtf8Bytes(
+        JSON.stringify(serializeProposal(proposal), null, 2) + "\n"
+      );
+    } else {
+      content = fs.readFileSync(taskArgs.proposal);
+    }
+    uri = await localUriStore(taskArgs.store).put(content);
+    console.log(
+      guardianKeys.length > 0
+        ? `Reveal bundle encrypted for ${guardianKeys.length} guardian(s) stored as ${uri}`
+        : `Proposal stored as ${uri}`
+    );
+  }
+  const enqueued = await client.enqueueSecretProposal(
+    proposal,
+    uri,
+    privateSalts
+  );
+  for (const { queuePointer, txHash, salt } of enqueued) {
+    console.log("SecretTransactionAdded:", {
+      queuePointer,
+      txHash,
+      // Private salts are only written to the reveal bundle.
+      salt: taskArgs.privateSalt ? "private" : salt.toString(),
+    });
+  }
+
+  const bundlePath =
+    taskArgs.bundle || taskArgs.proposal.replace(/(\.json)?$/, ".reveal.json");
+  const bundle: RevealBundle = {
+    modifier: modifier.address,
+    chainId,
+    uri,
+    domainSeparated,
+    proposal,
+    entries: enqueued.map(({ queuePointer, txHash, salt }) => ({
+      nonce: queuePointer,
+      txHash,
+      salt,
+    })),
+  };
+  writeRevealBundle(bundlePath, bundle);
+  console.log("Reveal bundle written to:", bundlePath);
+  if (guardianKeys.length > 0 && !taskArgs.store) {
+    const encryptedPath =
+      taskArgs.encrypted ||
+      taskArgs.proposal.replace(/(\.json)?$/, ".encrypted.json");
+    writeEncryptedRevealBundle(
+      encryptedPath,
+      encryptRevealBundle(bundle, guardianKeys)
+    );
+    console.log(
+      `Reveal bundle encrypted for ${guardianKeys.length} guardian(s) written to ${encryptedPath}, it should be stored at ${uri}`
+    );
+  }
+  if (taskArgs.privateSalt) {
+    console.log(
+      "The private salts are only stored in the reveal bundle, the transactions can not be executed without it"
+    );
+  }
+};
+
+task(
+  "enqueueSecret",
+  "Commits the transactions of a proposal file to the queue of a SecretDelay modifier"
+)
+  .addParam("modifier", "Address of the modifier", undefined, types.string)
+  .addParam("proposal", "Path of the proposal file", undefined, types.string)
+  .addParam(
+    "uri",
+    "URI under which the proposal can be found",
+    undefined,
+    types.string,
+    true
+  )
+  .addParam(
+    "store",
+    "Directory of a local content-addressed store to put the proposal in, its ipfs:// uri is used instead of --uri. With --guardians, the encrypted reveal bundle is stored instead",
+    undefined,
+    types.string,
+    true
+  )
+  .addParam(
+    "bundle",
+    "Path of the reveal bundle to write (defaults to <proposal>.reveal.json)",
+    undefined,
+    types.string,
+    true
+  )
+  .addFlag(
+    "privateSalt",
+    "Hash each transaction with a random salt instead of the public salt counter"
+  )
+  .addParam(
+    "guardians",
+    "Comma separated paths of guardian public key files to encrypt the reveal bundle to",
+    undefined,
+    types.string,
+    true
+  )
+  .addParam(
+    "encrypted",
+    "Path of the encrypted reveal bundle to write (defaults to <proposal>.encrypted.json)",
+    undefined,
+    types.string,
+    true
+  )
+  .addParam(
+    "multisend",
+    "Address of a MultiSend contract, commits all transactions as one batch that is executed atomically in one queue slot",
+    undefined,
+    types.string,
+    true
+  )
+  .setAction(enqueueSecretProposal);
+
+export {};
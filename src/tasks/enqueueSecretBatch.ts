@@ -0,0 +1,130 @@
+import "hardhat-deploy";
+import "@nomiclabs/hardhat-ethers";
+import { task, types } from "hardhat/config";
+import { HardhatRuntimeEnvironment } from "hardhat/types";
+
+import {
+  batchProposal,
+  generatePrivateSalt,
+  loadProposal,
+  SecretDelayClient,
+  writeRevealBundle,
+} from "../sdk";
+
+interface EnqueueSecretBatchTaskArgs {
+  modifier: string;
+  proposals: string;
+  uris: string;
+  privateSalt: boolean;
+  multisend?: string;
+}
+
+const enqueueSecretBatch = async (
+  taskArgs: EnqueueSecretBatchTaskArgs,
+  hardhatRuntime: HardhatRuntimeEnvironment
+) => {
+  const [caller] = await hardhatRuntime.ethers.getSigners();
+  console.log("Using the account:", caller.address);
+  const paths = taskArgs.proposals.split(",");
+  const uris = taskArgs.uris.split(",");
+  if (paths.length !== uris.length) {
+    throw new Error(
+      `Got ${paths.length} proposal files but ${uris.length} uris, pass one uri per proposal`
+    );
+  }
+  const proposals = paths.map((path) =>
+    taskArgs.multisend
+      ? batchProposal(loadProposal(path), taskArgs.multisend)
+      : loadProposal(path)
+  );
+  const modifier = await hardhatRuntime.ethers.getContractAt(
+    "SecretDelay",
+    taskArgs.modifier,
+    caller
+  );
+  if (!(await modifier.isModuleEnabled(caller.address))) {
+    throw new Error(
+      `${caller.address} is not an enabled module of ${modifier.address}`
+    );
+  }
+
+  const client = new SecretDelayClient(modifier);
+  const enqueued = await client.enqueueSecretBatch(
+    proposals.flatMap((proposal, index) =>
+      proposal.txs.map((tx) => ({
+        tx,
+        uri: uris[index],
+        privateSalt: taskArgs.privateSalt ? generatePrivateSalt() : undefined,
+      }))
+    )
+  );
+  console.log(
+    `Enqueued ${enqueued.length} transaction(s) of ${proposals.length} proposal(s) in`,
+    enqueued[0].transactionHash
+  );
+
+  const chainId = Number(await hardhatRuntime.getChainId());
+  const domainSeparated: boolean = await modifier.domainSeparated();
+  const bundles = [];
+  let offset = 0;
+  for (const [index, proposal] of proposals.entries()) {
+    const entries = enqueued
+      .slice(offset, offset + proposal.txs.length)
+      .map(({ queuePointer, txHash, salt }) => ({
+        nonce: queuePointer,
+        txHash,
+        salt,
+      }));
+    offset += proposal.txs.length;
+    const bundle = {
+      modifier: modifier.address,
+      chainId,
+      uri: uris[index],
+      domainSeparated,
+      proposal,
+      entries,
+    };
+    const bundlePath = paths[index].replace(/(\.json)?$/, ".reveal.json");
+    writeRevealBundle(bundlePath, bundle);
+    console.log(
+      `Proposal ${proposal.id} queued at nonces ${entries
+        .map(({ nonce }) => nonce)
+        .join(", ")}, reveal bundle written to:`,
+      bundlePath
+    );
+    bundles.push(bundle);
+  }
+  return bundles;
+};
+
+task(
+  "enqueueSecretBatch",
+  "Commits the transactions of several proposal files to the queue of a SecretDelay modifier in one transaction"
+)
+  .addParam("modifier", "Address of the modifier", undefined, types.string)
+  .addParam(
+    "proposals",
+    "Comma separated paths of the proposal files",
+    undefined,
+    types.string
+  )
+  .addParam(
+    "uris",
+    "Comma separated URIs under which the proposals can be found, one per proposal file",
+    undefined,
+    types.string
+  )
+  .addFlag(
+    "privateSalt",
+    "Hash each transaction with a random salt instead of the salt it gets from the public salt counter"
+  )
+  .addParam(
+    "multisend",
+    "Address of a MultiSend contract, commits the transactions of each proposal as one batch",
+    undefined,
+    types.string,
+    true
+  )
+  .setAction(enqueueSecretBatch);
+
+export {};
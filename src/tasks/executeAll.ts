@@ -0,0 +1,146 @@
+import "hardhat-deploy";
+import "@nomiclabs/hardhat-ethers";
+import { task, types } from "hardhat/config";
+import { HardhatRuntimeEnvironment } from "hardhat/types";
+
+import {
+  getExecutionBlocker,
+  loadRevealBundle,
+  SecretDelayClient,
+  SecretDelayIndexer,
+  TransactionPreimage,
+} from "../sdk";
+
+interface ExecuteAllTaskArgs {
+  modifier: string;
+  bundles?: string;
+  state?: string;
+  fromBlock?: number;
+  allOrNothing: boolean;
+}
+
+const executeAll = async (
+  taskArgs: ExecuteAllTaskArgs,
+  hardhatRuntime: HardhatRuntimeEnvironment
+) => {
+  const [caller] = await hardhatRuntime.ethers.getSigners();
+  console.log("Using the account:", caller.address);
+  const contract = await hardhatRuntime.ethers.getContractAt(
+    "SecretDelay",
+    taskArgs.modifier,
+    caller
+  );
+  const client = new SecretDelayClient(contract);
+
+  // Preimages of the secret transactions in the reveal bundles, by hash.
+  const bundled = new Map<string, TransactionPreimage>();
+  for (const path of taskArgs.bundles ? taskArgs.bundles.split(",") : []) {
+    const bundle = loadRevealBundle(path);
+    if (bundle.modifier !== contract.address) {
+      throw new Error(
+        `${path} is a reveal bundle for ${bundle.modifier}, not for ${contract.address}`
+      );
+    }
+    bundle.entries.forEach(({ txHash, salt }, index) =>
+      bundled.set(txHash, { tx: bundle.proposal.txs[index], salt })
+    );
+  }
+
+  const indexer = new SecretDelayIndexer(contract, {
+    statePath: taskArgs.state,
+    startBlock: taskArgs.fromBlock,
+  });
+  await indexer.sync();
+  // The indexed nonce can lag behind the head if someone executed in the meantime.
+  const txNonce = (await contract.txNonce()).toNumber();
+  // The next block is at least one second after the latest one.
+  const { timestamp } = await hardhatRuntime.ethers.provider.getBlock("latest");
+  const preimages: TransactionPreimage[] = [];
+  for (
+    let nonce = txNonce;
+    nonce < (await contract.queuePointer()).toNumber();
+    nonce++
+  ) {
+    const transaction = indexer.getTransaction(nonce);
+    const entry = await client.getEntry(nonce);
+    // The contract steps over cancelled transactions, so they are not part of the batch.
+    if (entry.cancelled) continue;
+    const blocker = getExecutionBlocker(entry, timestamp + 1);
+    let preimage: TransactionPreimage | undefined;
+    if (blocker) {
+      console.log(`Stopping before transaction ${nonce}: ${blocker}`);
+      break;
+    }
+    if (!transaction) {
+      console.log(
+        `Stopping before transaction ${nonce}: it was enqueued before the indexed blocks`
+      );
+      break;
+    }
+    if (transaction.type === "public" || transaction.revealedIn) {
+      preimage = {
+        tx: transaction.tx as NonNullable<typeof transaction.tx>,
+        salt: transaction.type === "secret" ? transaction.salt : undefined,
+      };
+    } else if ((await contract.revealRequired()) && !entry.revealed) {
+      console.log(
+        `Stopping before transaction ${nonce}: it has to be revealed with the reveal task first`
+      );
+      break;
+    } else {
+      preimage = bundled.get(transaction.txHash);
+    }
+    if (!preimage) {
+      console.log(
+        `Stopping before transaction ${nonce}: it is secret and not in the reveal bundles`
+      );
+      break;
+    }
+    preimages.push(preimage);
+  }
+  if (preimages.length === 0) {
+    console.log("Nothing to execute");
+    return [];
+  }
+
+  const executed = await client.executeBatch(preimages, !taskArgs.allOrNothing);
+  console.log(
+    `Executed ${executed.length} of ${preimages.length} transaction(s)`,
+    executed.map(({ nonce }) => nonce)
+  );
+  return executed;
+};
+
+task(
+  "executeAll",
+  "Executes the executable transactions from the head of the queue of a SecretDelay modifier in one transaction"
+)
+  .addParam("modifier", "Address of the modifier", undefined, types.string)
+  .addParam(
+    "bundles",
+    "Comma separated paths of reveal bundles with the preimages of secret transactions",
+    undefined,
+    types.string,
+    true
+  )
+  .addParam(
+    "state",
+    "JSON file the indexer state is kept in, so later runs only read new logs",
+    undefined,
+    types.string,
+    true
+  )
+  .addParam(
+    "fromBlock",
+    "Block to start indexing from if there is no state yet (defaults to 0)",
+    undefined,
+    types.int,
+    true
+  )
+  .addFlag(
+    "allOrNothing",
+    "Revert the whole batch if one transaction can not be executed, instead of keeping the ones before it"
+  )
+  .setAction(executeAll);
+
+export {};
@@ -0,0 +1,39 @@
+import fs from "fs";
+
+import { task, types } from "hardhat/config";
+
+import { generateGuardianKey } from "../sdk";
+
+interface GuardianKeyTaskArgs {
+  out: string;
+}
+
+const createGuardianKey = async (taskArgs: GuardianKeyTaskArgs) => {
+  const keyPath = `${taskArgs.out}.key`;
+  const publicKeyPath = `${taskArgs.out}.pub`;
+  for (const path of [keyPath, publicKeyPath]) {
+    if (fs.existsSync(path)) {
+      throw new Error(`${path} already exists`);
+    }
+  }
+  const { privateKey, publicKey } = generateGuardianKey();
+  fs.writeFileSync(keyPath, privateKey + "\n", { mode: 0o600 });
+  fs.writeFileSync(publicKeyPath, publicKey + "\n");
+  console.log("Private key written to:", keyPath);
+  console.log("Public key written to:", publicKeyPath);
+  return publicKey;
+};
+
+task(
+  "guardianKey",
+  "Generates a key pair with which a guardian can read encrypted reveal bundles"
+)
+  .addParam(
+    "out",
+    "Path prefix of the key files, writes <out>.key and <out>.pub",
+    undefined,
+    types.string
+  )
+  .setAction(createGuardianKey);
+
+export {};
@@ -0,0 +1,91 @@
+import "hardhat-deploy";
+import "@nomiclabs/hardhat-ethers";
+import { task, types } from "hardhat/config";
+import { HardhatRuntimeEnvironment } from "hardhat/types";
+
+import { SecretDelayClient } from "../sdk";
+
+interface GuardiansTaskArgs {
+  modifier: string;
+  add?: string;
+  remove?: string;
+  fromBlock: number;
+}
+
+const guardians = async (
+  taskArgs: GuardiansTaskArgs,
+  hardhatRuntime: HardhatRuntimeEnvironment
+) => {
+  const [caller] = await hardhatRuntime.ethers.getSigners();
+  console.log("Using the account:", caller.address);
+  const contract = await hardhatRuntime.ethers.getContractAt(
+    "SecretDelay",
+    taskArgs.modifier,
+    caller
+  );
+  const client = new SecretDelayClient(contract);
+  if (taskArgs.add && taskArgs.remove) {
+    throw new Error("Pass either --add or --remove");
+  }
+  if (!taskArgs.add && !taskArgs.remove) {
+    const current = await client.getGuardians(taskArgs.fromBlock);
+    console.log(
+      current.length > 0
+        ? `Guardians of ${contract.address}:\n${current.join("\n")}`
+        : `${contract.address} has no guardians`
+    );
+    return current;
+  }
+
+  const owner: string = await contract.owner();
+  if (owner !== caller.address) {
+    // The owner is usually a Safe, which has to execute the call itself.
+    const tx = taskArgs.add
+      ? await contract.populateTransaction.addGuardian(taskArgs.add)
+      : await contract.populateTransaction.removeGuardian(taskArgs.remove);
+    console.log(
+      `${caller.address} is not the owner, execute this transaction from the owner ${owner}:`
+    );
+    console.log("To:", tx.to);
+    console.log("Data:", tx.data);
+    return { to: tx.to, data: tx.data };
+  }
+  const change = taskArgs.add
+    ? await client.addGuardian(taskArgs.add)
+    : await client.removeGuardian(taskArgs.remove as string);
+  console.log(
+    `${change.added ? "Added" : "Removed"} guardian ${change.guardian} in`,
+    change.transactionHash
+  );
+  return change;
+};
+
+task(
+  "guardians",
+  "Lists, adds or removes the guardians of a SecretDelay modifier, which can veto transactions"
+)
+  .addParam("modifier", "Address of the modifier", undefined, types.string)
+  .addParam(
+    "add",
+    "Address to add as a guardian",
+    undefined,
+    types.string,
+    true
+  )
+  .addParam(
+    "remove",
+    "Address to remove from the guardians",
+    undefined,
+    types.string,
+    true
+  )
+  .addParam(
+    "fromBlock",
+    "Block to read the GuardianAdded logs from when listing",
+    0,
+    types.int,
+    true
+  )
+  .setAction(guardians);
+
+export {};
@@ -0,0 +1,103 @@
+import "hardhat-deploy";
+import "@nomiclabs/hardhat-ethers";
+import { task, types } from "hardhat/config";
+import { HardhatRuntimeEnvironment } from "hardhat/types";
+
+import { KeeperReport, SecretDelayKeeper } from "../sdk";
+
+interface KeeperTaskArgs {
+  modifier: string;
+  bundles?: string;
+  state?: string;
+  fromBlock?: number;
+  interval: number;
+  maxGasPrice?: string;
+}
+
+const logReport = (report: KeeperReport) => {
+  for (const { nonce, transactionHash } of report.revealed) {
+    console.log(`Revealed transaction ${nonce} in ${transactionHash}`);
+  }
+  for (const { nonce, transactionHash } of report.executed) {
+    console.log(`Executed transaction ${nonce} in ${transactionHash}`);
+  }
+  for (const { startingNonce, count, transactionHash } of report.skipped) {
+    console.log(
+      `Skipped ${count} expired transaction(s) from ${startingNonce} in ${transactionHash}`
+    );
+  }
+  if (report.blocker) {
+    console.log(`Waiting: ${report.blocker}`);
+  }
+};
+
+const keeper = async (
+  taskArgs: KeeperTaskArgs,
+  hardhatRuntime: HardhatRuntimeEnvironment
+) => {
+  const [caller] = await hardhatRuntime.ethers.getSigners();
+  console.log("Using the account:", caller.address);
+  const keeper = new SecretDelayKeeper(
+    await hardhatRuntime.ethers.getContractAt(
+      "SecretDelay",
+      taskArgs.modifier,
+      caller
+    ),
+    {
+      bundleDir: taskArgs.bundles,
+      statePath: taskArgs.state,
+      startBlock: taskArgs.fromBlock,
+      pollInterval: taskArgs.interval * 1000,
+      maxGasPrice:
+        taskArgs.maxGasPrice === undefined
+          ? undefined
+          : hardhatRuntime.ethers.utils.parseUnits(
+              taskArgs.maxGasPrice,
+              "gwei"
+            ),
+      onReport: logReport,
+    }
+  );
+  console.log(`Keeping ${taskArgs.modifier}`);
+  process.once("SIGINT", () => keeper.stop());
+  process.once("SIGTERM", () => keeper.stop());
+  await keeper.start();
+};
+
+task(
+  "keeper",
+  "Executes the transactions in the queue of a SecretDelay modifier once they can be executed, and skips expired ones"
+)
+  .addParam("modifier", "Address of the modifier", undefined, types.string)
+  .addParam(
+    "bundles",
+    "Directory with the reveal bundles of the secret transactions to execute",
+    undefined,
+    types.string,
+    true
+  )
+  .addParam(
+    "state",
+    "JSON file the indexer state is kept in, so later runs only read new logs",
+    undefined,
+    types.string,
+    true
+  )
+  .addParam(
+    "fromBlock",
+    "Block to start indexing from if there is no state yet (defaults to 0)",
+    undefined,
+    types.int,
+    true
+  )
+  .addParam("interval", "Seconds between two polls", 15, types.int, true)
+  .addParam(
+    "maxGasPrice",
+    "Highest gas price in gwei to send transactions at",
+    undefined,
+    types.string,
+    true
+  )
+  .setAction(keeper);
+
+export {};
@@ -0,0 +1,188 @@
+import "hardhat-deploy";
+import "@nomiclabs/hardhat-ethers";
+import { PopulatedTransaction } from "ethers";
+import { task, types } from "hardhat/config";
+import { HardhatRuntimeEnvironment } from "hardhat/types";
+
+import { Parameter, SecretDelayClient } from "../sdk";
+
+interface ParametersTaskArgs {
+  modifier: string;
+  cooldown?: number;
+  expiration?: number;
+  finalize: boolean;
+  cancel?: string;
+}
+
+const parameterNames: Record<string, Parameter> = {
+  cooldown: Parameter.TxCooldown,
+  expiration: Parameter.TxExpiration,
+};
+
+const nameOf = (parameter: Parameter) =>
+  parameter === Parameter.TxCooldown ? "cooldown" : "expiration";
+
+const parameters = async (
+  taskArgs: ParametersTaskArgs,
+  hardhatRuntime: HardhatRuntimeEnvironment
+) => {
+  const [caller] = await hardhatRuntime.ethers.getSigners();
+  console.log("Using the account:", caller.address);
+  const contract = await hardhatRuntime.ethers.getContractAt(
+    "SecretDelay",
+    taskArgs.modifier,
+    caller
+  );
+  const client = new SecretDelayClient(contract);
+  const schedule =
+    taskArgs.cooldown !== undefined || taskArgs.expiration !== undefined;
+  if (
+    [schedule, taskArgs.finalize, !!taskArgs.cancel].filter(Boolean).length > 1
+  ) {
+    throw new Error("Pass either new values, --finalize or --cancel");
+  }
+
+  if (taskArgs.finalize) {
+    const { timestamp } = await contract.provider.getBlock("latest");
+    // The next block is at least one second after the latest one.
+    const due = (await client.getPendingParameterChanges()).filter(
+      ({ eta }) => eta <= timestamp + 1
+    );
+    if (due.length === 0) {
+      throw new Error(`No parameter change of ${contract.address} is due`);
+    }
+    const finalized = [];
+    for (const { parameter } of due) {
+      const change = await client.finalizeParameterChange(parameter);
+      console.log(
+        `Set the ${nameOf(parameter)} to ${change.value} seconds in`,
+        change.transactionHash
+      );
+      finalized.push(change);
+    }
+    return finalized;
+  }
+
+  if (!schedule && !taskArgs.cancel) {
+    const [txCooldown, txExpiration, minCooldown] = (
+      await Promise.all([
+        contract.txCooldown(),
+        contract.txExpiration(),
+        contract.minCooldown(),
+      ])
+    ).map((value) => value.toNumber());
+    const pending = await client.getPendingParameterChanges();
+    console.log(`Cooldown: ${txCooldown} seconds (at least ${minCooldown})`);
+    console.log(`Expiration: ${txExpiration} seconds`);
+    for (const { parameter, value, eta } of pending) {
+      console.log(
+        `Pending: ${nameOf(parameter)} of ${value} seconds, due at ${new Date(
+          eta * 1000
+        ).toISOString()}`
+      );
+    }
+    return { txCooldown, txExpiration, minCooldown, pending };
+  }
+
+  const txs: PopulatedTransaction[] = [];
+  let allowed: boolean;
+  const owner: string = await contract.owner();
+  if (taskArgs.cancel) {
+    const parameter = parameterNames[taskArgs.cancel];
+    if (parameter === undefined) {
+      throw new Error(
+        `Unknown parameter ${taskArgs.cancel}, use cooldown or expiration`
+      );
+    }
+    txs.push(
+      await contract.populateTransaction.cancelParameterChange(parameter)
+    );
+    allowed =
+      owner === caller.address || (await contract.guardians(caller.address));
+  } else {
+    if (taskArgs.cooldown !== undefined) {
+      txs.push(
+        await contract.populateTransaction.setTxCooldown(taskArgs.cooldown)
+      );
+    }
+    if (taskArgs.expiration !== undefined) {
+      txs.push(
+        await contract.populateTransaction.setTxExpiration(taskArgs.expiration)
+      );
+    }
+    allowed = owner === caller.address;
+  }
+  if (!allowed) {
+    // The owner is usually a Safe, which has to execute the calls itself.
+    console.log(
+      `${caller.address} can not change the parameters, execute these transactions from the owner ${owner}:`
+    );
+    for (const tx of txs) {
+      console.log("To:", tx.to);
+      console.log("Data:", tx.data);
+    }
+    return txs.map(({ to, data }) => ({ to, data }));
+  }
+
+  if (taskArgs.cancel) {
+    const change = await client.cancelParameterChange(
+      parameterNames[taskArgs.cancel]
+    );
+    console.log(
+      `Cancelled the change of the ${nameOf(change.parameter)} to ${
+        change.value
+      } seconds in`,
+      change.transactionHash
+    );
+    return [change];
+  }
+  const scheduled = [];
+  if (taskArgs.cooldown !== undefined) {
+    scheduled.push(await client.setTxCooldown(taskArgs.cooldown));
+  }
+  if (taskArgs.expiration !== undefined) {
+    scheduled.push(await client.setTxExpiration(taskArgs.expiration));
+  }
+  for (const change of scheduled) {
+    console.log(
+      `Scheduled the ${nameOf(change.parameter)} of ${
+        change.value
+      } seconds, finalize it from ${new Date(
+        change.eta * 1000
+      ).toISOString()} in`,
+      change.transactionHash
+    );
+  }
+  return scheduled;
+};
+
+task(
+  "parameters",
+  "Lists, schedules, finalizes or cancels changes of the cooldown and expiration of a SecretDelay modifier"
+)
+  .addParam("modifier", "Address of the modifier", undefined, types.string)
+  .addParam(
+    "cooldown",
+    "New cooldown in seconds to schedule",
+    undefined,
+    types.int,
+    true
+  )
+  .addParam(
+    "expiration",
+    "New expiration in seconds to schedule (0 for no expiration)",
+    undefined,
+    types.int,
+    true
+  )
+  .addFlag("finalize", "Applies the scheduled changes that are due")
+  .addParam(
+    "cancel",
+    "Parameter whose scheduled change to drop, cooldown or expiration",
+    undefined,
+    types.string,
+    true
+  )
+  .setAction(parameters);
+
+export {};
@@ -0,0 +1,218 @@
+import "hardhat-deploy";
+import "@nomiclabs/hardhat-ethers";
+import { task, types } from "hardhat/config";
+import { HardhatRuntimeEnvironment } from "hardhat/types";
+
+import { PolicyRule, PolicyScope, SecretDelayClient } from "../sdk";
+
+interface PolicyTaskArgs {
+  modifier: string;
+  target?: string;
+  selector?: string;
+  secret: boolean;
+  cooldown?: number;
+  expiration: number;
+  remove: boolean;
+  cancel?: string;
+  fromBlock: number;
+}
+
+// Accepts a 4 byte selector or a function signature such as "upgradeTo(address)".
+const parseSelector = (
+  selector: string,
+  hardhatRuntime: HardhatRuntimeEnvironment
+) => {
+  const { id, isHexString } = hardhatRuntime.ethers.utils;
+  if (isHexString(selector)) {
+    if (!isHexString(selector, 4)) {
+      throw new Error(`Selector ${selector} is not 4 bytes long`);
+    }
+    return selector.toLowerCase();
+  }
+  return id(selector).slice(0, 10);
+};
+
+// Suffix of the contract functions that set and remove the policies of a scope.
+const policyNames: Record<PolicyScope, string> = {
+  target: "TargetPolicy",
+  selector: "SelectorPolicy",
+  secret: "SecretPolicy",
+};
+
+const formatRule = ({ scope, key, cooldown, expiration }: PolicyRule) =>
+  `${scope}${key ? ` ${key}` : ""}: cooldown of ${cooldown} seconds, ${
+    expiration === 0 ? "no expiration" : `expiration of ${expiration} seconds`
+  }`;
+
+const policy = async (
+  taskArgs: PolicyTaskArgs,
+  hardhatRuntime: HardhatRuntimeEnvironment
+) => {
+  const [caller] = await hardhatRuntime.ethers.getSigners();
+  console.log("Using the account:", caller.address);
+  const contract = await hardhatRuntime.ethers.getContractAt(
+    "SecretDelay",
+    taskArgs.modifier,
+    caller
+  );
+  const client = new SecretDelayClient(contract);
+  if (taskArgs.cancel) {
+    const owner: string = await contract.owner();
+    if (
+      owner !== caller.address &&
+      !(await contract.guardians(caller.address))
+    ) {
+      const tx = await contract.populateTransaction.cancelPolicyChange(
+        taskArgs.cancel
+      );
+      console.log(
+        `${caller.address} can not cancel policy changes, execute this transaction from the owner ${owner}:`
+      );
+      console.log("To:", tx.to);
+      console.log("Data:", tx.data);
+      return { to: tx.to, data: tx.data };
+    }
+    const cancelled = await client.cancelPolicyChange(taskArgs.cancel);
+    console.log(
+      `Cancelled the policy change ${cancelled.changeHash} in`,
+      cancelled.transactionHash
+    );
+    return cancelled;
+  }
+  const scopes: PolicyScope[] = [];
+  if (taskArgs.target) scopes.push("target");
+  if (taskArgs.selector) scopes.push("selector");
+  if (taskArgs.secret) scopes.push("secret");
+  if (scopes.length > 1) {
+    throw new Error("Pass only one of --target, --selector or --secret");
+  }
+
+  if (scopes.length === 0) {
+    const [txCooldown, txExpiration, strictest] = await Promise.all([
+      contract.txCooldown(),
+      contract.txExpiration(),
+      contract.strictestPolicy(),
+    ]);
+    const rules = await client.getPolicies(taskArgs.fromBlock);
+    console.log(
+      `Default: cooldown of ${txCooldown} seconds, expiration of ${txExpiration} seconds`
+    );
+    if (strictest.enabled) {
+      console.log(
+        `Secret and delegate call transactions: cooldown of at least ${strictest.cooldown} seconds`
+      );
+    }
+    rules.forEach((rule) => console.log(formatRule(rule)));
+    return rules;
+  }
+
+  const [scope] = scopes;
+  const key =
+    scope === "target"
+      ? hardhatRuntime.ethers.utils.getAddress(taskArgs.target as string)
+      : scope === "selector"
+      ? parseSelector(taskArgs.selector as string, hardhatRuntime)
+      : undefined;
+  if (!taskArgs.remove && taskArgs.cooldown === undefined) {
+    throw new Error("Pass the --cooldown of the policy, or --remove");
+  }
+  const rule: PolicyRule = {
+    scope,
+    key,
+    cooldown: taskArgs.cooldown as number,
+    expiration: taskArgs.expiration,
+  };
+
+  const owner: string = await contract.owner();
+  if (owner !== caller.address) {
+    // The owner is usually a Safe, which has to execute the call itself.
+    const args = [
+      ...(key ? [key] : []),
+      ...(taskArgs.remove ? [] : [rule.cooldown, rule.expiration]),
+    ];
+    const method = `${taskArgs.remove ? "remove" : "set"}${policyNames[scope]}`;
+    const tx = await contract.populateTransaction[method](...args);
+    console.log(
+      `${caller.address} is not the owner, execute this transaction from the owner ${owner}:`
+    );
+    console.log("To:", tx.to);
+    console.log("Data:", tx.data);
+    return { to: tx.to, data: tx.data };
+  }
+  const change = taskArgs.remove
+    ? await client.removePolicy(scope, key)
+    : await client.setPolicy(rule);
+  if (change.scheduled) {
+    const { changeHash, eta } = change.scheduled;
+    console.log(
+      `The change lowers the cooldown or expiration and was scheduled as ${changeHash} in`,
+      change.transactionHash
+    );
+    console.log(
+      `Run the same command again from ${new Date(
+        eta * 1000
+      ).toISOString()} to apply it`
+    );
+    return change;
+  }
+  console.log(
+    taskArgs.remove
+      ? `Removed the ${scope} policy${key ? ` of ${key}` : ""} in`
+      : `Set ${formatRule(rule)} in`,
+    change.transactionHash
+  );
+  return change;
+};
+
+task(
+  "policy",
+  "Lists, sets, removes or cancels changes of the cooldown and expiration policies of a SecretDelay modifier"
+)
+  .addParam("modifier", "Address of the modifier", undefined, types.string)
+  .addParam(
+    "target",
+    "Target address the policy applies to",
+    undefined,
+    types.string,
+    true
+  )
+  .addParam(
+    "selector",
+    "Function selector or signature the policy applies to, e.g. upgradeTo(address)",
+    undefined,
+    types.string,
+    true
+  )
+  .addFlag("secret", "Sets or removes the policy of secret transactions")
+  .addParam(
+    "cooldown",
+    "Cooldown in seconds of the policy",
+    undefined,
+    types.int,
+    true
+  )
+  .addParam(
+    "expiration",
+    "Expiration in seconds of the policy (0 for no expiration)",
+    0,
+    types.int,
+    true
+  )
+  .addFlag("remove", "Removes the policy instead of setting it")
+  .addParam(
+    "cancel",
+    "Hash of a scheduled policy change to drop",
+    undefined,
+    types.string,
+    true
+  )
+  .addParam(
+    "fromBlock",
+    "Block to read the policy logs from when listing",
+    0,
+    types.int,
+    true
+  )
+  .setAction(policy);
+
+export {};
@@ -0,0 +1,111 @@
+import "hardhat-deploy";
+import "@nomiclabs/hardhat-ethers";
+import { BigNumber } from "ethers";
+import { task, types } from "hardhat/config";
+import { HardhatRuntimeEnvironment } from "hardhat/types";
+
+import { SecretDelayClient } from "../sdk";
+
+interface QueueTaskArgs {
+  modifier: string;
+  format: string;
+  fromBlock: number;
+}
+
+const formatTime = (timestamp?: number) =>
+  timestamp === undefined ? "never" : new Date(timestamp * 1000).toISOString();
+
+const getQueueState = async (
+  taskArgs: QueueTaskArgs,
+  hardhatRuntime: HardhatRuntimeEnvironment
+) => {
+  const client = new SecretDelayClient(
+    await hardhatRuntime.ethers.getContractAt("SecretDelay", taskArgs.modifier)
+  );
+  const [txNonce, queuePointer, approved]: BigNumber[] = await Promise.all([
+    client.contract.txNonce(),
+    client.contract.queuePointer(),
+    client.contract.approved(),
+  ]);
+  const [entries, details] = await Promise.all([
+    client.getQueue(),
+    client.getEnqueueDetails(taskArgs.fromBlock),
+  ]);
+  return {
+    modifier: client.address,
+    txNonce: txNonce.toNumber(),
+    queuePointer: queuePointer.toNumber(),
+    approved: approved.toNumber(),
+    entries: entries.map((entry) => {
+      const detail = details.get(entry.nonce);
+      return {
+        ...entry,
+        type: detail?.type,
+        salt: detail?.type === "secret" ? detail.salt.toString() : undefined,
+        uri:
+          detail?.type === "secret" ? detail.uri ?? detail.uriHash : undefined,
+        to: detail?.type === "public" ? detail.tx.to : undefined,
+        value:
+          detail?.type === "public"
+            ? BigNumber.from(detail.tx.value).toString()
+            : undefined,
+        data: detail?.type === "public" ? detail.tx.data : undefined,
+        operation: detail?.type === "public" ? detail.tx.operation : undefined,
+      };
+    }),
+  };
+};
+
+const showQueue = async (
+  taskArgs: QueueTaskArgs,
+  hardhatRuntime: HardhatRuntimeEnvironment
+) => {
+  if (!["table", "json"].includes(taskArgs.format)) {
+    throw new Error(`Unknown format ${taskArgs.format}, use table or json`);
+  }
+  const state = await getQueueState(taskArgs, hardhatRuntime);
+  if (taskArgs.format === "json") {
+    console.log(JSON.stringify(state, null, 2));
+    return state;
+  }
+
+  console.log(
+    `Modifier ${state.modifier}: txNonce ${state.txNonce}, queuePointer ${state.queuePointer}, approved ${state.approved}`
+  );
+  console.table(
+    state.entries.map((entry) => ({
+      nonce: entry.nonce,
+      type: entry.type ?? "unknown",
+      txHash: entry.txHash,
+      createdAt: formatTime(entry.createdAt),
+      cooldownEndsAt: formatTime(entry.cooldownEndsAt),
+      expiresAt: formatTime(entry.expiresAt),
+      approved: entry.approved,
+      revealed: entry.revealed,
+      cancelled: entry.cancelled,
+      salt: entry.salt ?? "",
+      uri: entry.uri ?? "",
+    }))
+  );
+  return state;
+};
+
+task("queue", "Shows the queue of a SecretDelay modifier")
+  .addParam("modifier", "Address of the modifier", undefined, types.string)
+  .addParam(
+    "format",
+    "Output format: table | json",
+    "table",
+    types.string,
+    true
+  )
+  .addParam(
+    "fromBlock",
+    "Block from which the TransactionAdded and SecretTransactionAdded logs are read",
+    0,
+    types.int,
+    true
+  )
+  .setAction(showQueue);
+
+export {};
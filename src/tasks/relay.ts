@@ -0,0 +1,53 @@
+import "hardhat-deploy";
+import "@nomiclabs/hardhat-ethers";
+import { task, types } from "hardhat/config";
+import { HardhatRuntimeEnvironment } from "hardhat/types";
+
+import { loadRelayRequest, SecretDelayClient } from "../sdk";
+
+interface RelayTaskArgs {
+  request: string;
+}
+
+const relay = async (
+  taskArgs: RelayTaskArgs,
+  hardhatRuntime: HardhatRuntimeEnvironment
+) => {
+  const [caller] = await hardhatRuntime.ethers.getSigners();
+  console.log("Using the account:", caller.address);
+  const request = loadRelayRequest(taskArgs.request);
+  const chainId = Number(await hardhatRuntime.getChainId());
+  if (request.chainId !== chainId) {
+    throw new Error(
+      `Relay request was signed for chain ${request.chainId}, but connected to chain ${chainId}`
+    );
+  }
+  const client = new SecretDelayClient(
+    await hardhatRuntime.ethers.getContractAt(
+      "SecretDelay",
+      request.modifier,
+      caller
+    )
+  );
+
+  const relayed = [];
+  for (const { message, signature } of request.entries) {
+    const entry = await client.relay(request.signer, message, signature);
+    console.log("SecretTransactionRelayed:", {
+      queuePointer: entry.queuePointer,
+      txHash: entry.txHash,
+      signerNonce: entry.signerNonce,
+    });
+    relayed.push(entry);
+  }
+  return relayed;
+};
+
+task(
+  "relay",
+  "Submits the signed messages of a relay request to a SecretDelay modifier"
+)
+  .addParam("request", "Path of the relay request", undefined, types.string)
+  .setAction(relay);
+
+export {};
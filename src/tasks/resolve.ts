@@ -0,0 +1,107 @@
+import "hardhat-deploy";
+import "@nomiclabs/hardhat-ethers";
+import { BigNumber } from "ethers";
+import { task, types } from "hardhat/config";
+import { HardhatRuntimeEnvironment } from "hardhat/types";
+
+import {
+  httpUriResolver,
+  loadGuardianPrivateKey,
+  localUriStore,
+  SecretDelayClient,
+  UriResolver,
+  writeRevealBundle,
+} from "../sdk";
+
+interface ResolveTaskArgs {
+  modifier: string;
+  nonce: number;
+  store?: string;
+  gateway?: string;
+  key?: string;
+  bundle?: string;
+}
+
+const resolve = async (
+  taskArgs: ResolveTaskArgs,
+  hardhatRuntime: HardhatRuntimeEnvironment
+) => {
+  const resolvers: UriResolver[] = [];
+  if (taskArgs.store) {
+    resolvers.push(localUriStore(taskArgs.store));
+  }
+  if (taskArgs.gateway) {
+    resolvers.push(httpUriResolver(taskArgs.gateway));
+  }
+  if (resolvers.length === 0) {
+    throw new Error("Pass a store or a gateway to resolve the uri with");
+  }
+  const client = new SecretDelayClient(
+    await hardhatRuntime.ethers.getContractAt("SecretDelay", taskArgs.modifier)
+  );
+  const bundle = await client.resolveSecretProposal(
+    taskArgs.nonce,
+    resolvers,
+    taskArgs.key ? loadGuardianPrivateKey(taskArgs.key) : undefined
+  );
+  console.log(`Proposal ${bundle.proposal.id} resolved from ${bundle.uri}`);
+  bundle.proposal.txs.forEach(({ to, value, data, operation }, index) => {
+    console.log(`Transaction ${bundle.entries[index].nonce}:`, {
+      to,
+      value: BigNumber.from(value).toString(),
+      data,
+      operation,
+    });
+  });
+  console.log(
+    `All ${bundle.entries.length} transaction(s) match their hashes in the queue`
+  );
+  if (taskArgs.bundle) {
+    writeRevealBundle(taskArgs.bundle, bundle);
+    console.log("Reveal bundle written to:", taskArgs.bundle);
+  }
+  return bundle;
+};
+
+task(
+  "resolve",
+  "Fetches the proposal behind the uri of a secret transaction and checks it against the hashes in the queue"
+)
+  .addParam("modifier", "Address of the modifier", undefined, types.string)
+  .addParam(
+    "nonce",
+    "Queue nonce of the first transaction to resolve, the following transactions with the same uri are resolved as well",
+    undefined,
+    types.int
+  )
+  .addParam(
+    "store",
+    "Directory of a local content-addressed store",
+    undefined,
+    types.string,
+    true
+  )
+  .addParam(
+    "gateway",
+    "Base URL of an IPFS HTTP gateway, also used for http(s) uris",
+    undefined,
+    types.string,
+    true
+  )
+  .addParam(
+    "key",
+    "Path of a guardian private key file, to read encrypted reveal bundles",
+    undefined,
+    types.string,
+    true
+  )
+  .addParam(
+    "bundle",
+    "Path to write a reveal bundle of the resolved transactions to",
+    undefined,
+    types.string,
+    true
+  )
+  .setAction(resolve);
+
+export {};
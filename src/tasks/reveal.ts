@@ -0,0 +1,80 @@
+import "hardhat-deploy";
+import "@nomiclabs/hardhat-ethers";
+import { task, types } from "hardhat/config";
+import { HardhatRuntimeEnvironment } from "hardhat/types";
+
+import { loadRevealBundle, SecretDelayClient } from "../sdk";
+
+interface RevealTaskArgs {
+  bundle: string;
+  modifier?: string;
+}
+
+const reveal = async (
+  taskArgs: RevealTaskArgs,
+  hardhatRuntime: HardhatRuntimeEnvironment
+) => {
+  const [caller] = await hardhatRuntime.ethers.getSigners();
+  console.log("Using the account:", caller.address);
+  const bundle = loadRevealBundle(taskArgs.bundle);
+  const chainId = Number(await hardhatRuntime.getChainId());
+  if (bundle.chainId !== chainId) {
+    throw new Error(
+      `Reveal bundle was created on chain ${bundle.chainId}, but connected to chain ${chainId}`
+    );
+  }
+  const client = new SecretDelayClient(
+    await hardhatRuntime.ethers.getContractAt(
+      "SecretDelay",
+      taskArgs.modifier || bundle.modifier,
+      caller
+    )
+  );
+
+  // Bundles of relayed proposals do not know the queue nonces, so the entries are looked up by hash.
+  const queue = await client.getQueue();
+  const revealed = [];
+  for (const [index, { nonce, txHash, salt }] of bundle.entries.entries()) {
+    const entry = queue.find(
+      (candidate) =>
+        candidate.txHash === txHash &&
+        (nonce === undefined || candidate.nonce === nonce)
+    );
+    if (!entry) {
+      throw new Error(
+        `Can not reveal txs[${index}]: ${txHash} is not in the queue, it has already been executed, vetoed or skipped, or was never enqueued`
+      );
+    }
+    if (entry.revealed) {
+      console.log(`Transaction ${entry.nonce} has already been revealed`);
+      continue;
+    }
+    const result = await client.reveal(
+      entry.nonce,
+      bundle.proposal.txs[index],
+      salt
+    );
+    console.log(
+      `Revealed transaction ${result.nonce} in`,
+      result.transactionHash
+    );
+    revealed.push(result);
+  }
+  return revealed;
+};
+
+task(
+  "reveal",
+  "Publishes the transactions of a reveal bundle in the queue of a SecretDelay modifier without executing them"
+)
+  .addParam("bundle", "Path of the reveal bundle", undefined, types.string)
+  .addParam(
+    "modifier",
+    "Address of the modifier (defaults to the one in the reveal bundle)",
+    undefined,
+    types.string,
+    true
+  )
+  .setAction(reveal);
+
+export {};
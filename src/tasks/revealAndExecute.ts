@@ -0,0 +1,168 @@
+import "hardhat-deploy";
+import "@nomiclabs/hardhat-ethers";
+import { BigNumber } from "ethers";
+import { task, types } from "hardhat/config";
+import { HardhatRuntimeEnvironment } from "hardhat/types";
+
+import {
+  batchProposal,
+  getExecutionBlocker,
+  getSecretTransactionHash,
+  getTransactionHash,
+  loadProposal,
+  loadRevealBundle,
+  MetaTransaction,
+  QueueEntry,
+  SecretDelayClient,
+} from "../sdk";
+
+interface RevealAndExecuteTaskArgs {
+  modifier?: string;
+  bundle?: string;
+  proposal?: string;
+  multisend?: string;
+}
+
+interface Reveal {
+  tx: MetaTransaction;
+  // Known for reveal bundles, looked up from the queue for proposal files.
+  nonce?: number;
+  salt?: BigNumber;
+}
+
+const loadReveals = async (
+  taskArgs: RevealAndExecuteTaskArgs,
+  hardhatRuntime: HardhatRuntimeEnvironment
+): Promise<{ modifier: string; reveals: Reveal[] }> => {
+  if (!taskArgs.bundle === !taskArgs.proposal) {
+    throw new Error("Pass either a reveal bundle or a proposal file");
+  }
+  if (taskArgs.bundle) {
+    const bundle = loadRevealBundle(taskArgs.bundle);
+    const chainId = Number(await hardhatRuntime.getChainId());
+    if (bundle.chainId !== chainId) {
+      throw new Error(
+        `Reveal bundle was created on chain ${bundle.chainId}, but connected to chain ${chainId}`
+      );
+    }
+    return {
+      modifier: taskArgs.modifier || bundle.modifier,
+      reveals: bundle.proposal.txs.map((tx, index) => ({
+        tx,
+        ...bundle.entries[index],
+      })),
+    };
+  }
+  if (!taskArgs.modifier) {
+    throw new Error("A modifier address is required with a proposal file");
+  }
+  const proposal = loadProposal(taskArgs.proposal as string);
+  const { txs } = taskArgs.multisend
+    ? batchProposal(proposal, taskArgs.multisend)
+    : proposal;
+  return {
+    modifier: taskArgs.modifier,
+    reveals: txs.map((tx) => ({ tx })),
+  };
+};
+
+const describeMismatch = (reveal: Reveal, head: QueueEntry) => {
+  if (reveal.nonce !== undefined && reveal.nonce > head.nonce) {
+    return `it is queued at nonce ${reveal.nonce}, but the head of the queue is ${head.nonce}; the transactions before it have to be executed, vetoed or skipped first`;
+  }
+  if (reveal.nonce !== undefined && reveal.nonce < head.nonce) {
+    return `it was queued at nonce ${reveal.nonce}, which has already been executed, vetoed or skipped`;
+  }
+  const hint =
+    reveal.salt === undefined
+      ? ", if it was enqueued with a private salt pass its reveal bundle instead"
+      : "";
+  return `it does not match the transaction at the head of the queue (nonce ${head.nonce}, hash ${head.txHash})${hint}`;
+};
+
+const revealAndExecute = async (
+  taskArgs: RevealAndExecuteTaskArgs,
+  hardhatRuntime: HardhatRuntimeEnvironment
+) => {
+  const [caller] = await hardhatRuntime.ethers.getSigners();
+  console.log("Using the account:", caller.address);
+  const { modifier, reveals } = await loadReveals(taskArgs, hardhatRuntime);
+  const client = new SecretDelayClient(
+    await hardhatRuntime.ethers.getContractAt("SecretDelay", modifier, caller)
+  );
+
+  const domain = await client.getHashDomain();
+  const revealRequired: boolean = await client.contract.revealRequired();
+  for (let index = 0; index < reveals.length; index++) {
+    const reveal = reveals[index];
+    const head = await client.getHead();
+    // The next block is at least one second after the latest one.
+    const { timestamp } = await hardhatRuntime.ethers.provider.getBlock(
+      "latest"
+    );
+    const blocker = getExecutionBlocker(head, timestamp + 1);
+    if (!head || blocker) {
+      throw new Error(`Can not execute txs[${index}]: ${blocker}`);
+    }
+
+    const salt = reveal.salt ?? (await client.getSecretSalt(head.nonce));
+    if (getTransactionHash(reveal.tx, domain) === head.txHash) {
+      const { nonce, transactionHash } = await client.executeNext(reveal.tx);
+      console.log(`Executed public transaction ${nonce} in`, transactionHash);
+    } else if (
+      salt !== undefined &&
+      getSecretTransactionHash(reveal.tx, salt, domain) === head.txHash
+    ) {
+      if (revealRequired && !head.revealed) {
+        throw new Error(
+          `Can not execute txs[${index}]: transaction ${head.nonce} has to be revealed with the reveal task first, so that it can be reviewed during its cooldown`
+        );
+      }
+      const { nonce, transactionHash } = await client.executeNextSecret(
+        reveal.tx,
+        salt
+      );
+      console.log(`Executed secret transaction ${nonce} in`, transactionHash);
+    } else {
+      throw new Error(
+        `Can not execute txs[${index}]: ${describeMismatch(reveal, head)}`
+      );
+    }
+  }
+};
+
+task(
+  "revealAndExecute",
+  "Executes the transactions of a reveal bundle or proposal file from the head of the queue"
+)
+  .addParam(
+    "modifier",
+    "Address of the modifier (defaults to the one in the reveal bundle)",
+    undefined,
+    types.string,
+    true
+  )
+  .addParam(
+    "bundle",
+    "Path of the reveal bundle",
+    undefined,
+    types.string,
+    true
+  )
+  .addParam(
+    "proposal",
+    "Path of the proposal file",
+    undefined,
+    types.string,
+    true
+  )
+  .addParam(
+    "multisend",
+    "Address of the MultiSend contract the proposal file was batched with",
+    undefined,
+    types.string,
+    true
+  )
+  .setAction(revealAndExecute);
+
+export {};
@@ -1,7 +1,7 @@
 import "hardhat-deploy";
 import "@nomiclabs/hardhat-ethers";
+import { CONTRACT_ADDRESSES } from "@gnosis.pm/zodiac";
 import { task, types } from "hardhat/config";
-import { deployAndSetUpModule } from "@gnosis.pm/zodiac";
 import { HardhatRuntimeEnvironment } from "hardhat/types";
 
 interface DelayTaskArgs {
@@ -10,39 +10,92 @@ interface DelayTaskArgs {
   target: string;
   cooldown: number;
   expiration: number;
+  minCooldown: number;
   proxied: boolean;
+  mastercopy?: string;
+  factory?: string;
 }
 
+const getMasterCopyAddress = async (
+  taskArgs: DelayTaskArgs,
+  hardhatRuntime: HardhatRuntimeEnvironment
+) => {
+  if (taskArgs.mastercopy) return taskArgs.mastercopy;
+  const deployment = await hardhatRuntime.deployments.getOrNull("SecretDelay");
+  if (!deployment) {
+    throw new Error(
+      "No SecretDelay master copy found in the deployments, deploy one with `yarn deploy <network>` or pass --mastercopy"
+    );
+  }
+  return deployment.address;
+};
+
+const getFactoryAddress = async (
+  taskArgs: DelayTaskArgs,
+  hardhatRuntime: HardhatRuntimeEnvironment
+) => {
+  const chainId = await hardhatRuntime.getChainId();
+  const factory =
+    taskArgs.factory || CONTRACT_ADDRESSES[Number(chainId)]?.factory;
+  if (
+    !factory ||
+    (await hardhatRuntime.ethers.provider.getCode(factory)) === "0x"
+  ) {
+    throw new Error(
+      `No ModuleProxyFactory found on chain ${chainId}, pass its address with --factory`
+    );
+  }
+  return factory;
+};
+
 const deployDelayModifier = async (
   taskArgs: DelayTaskArgs,
   hardhatRuntime: HardhatRuntimeEnvironment
 ) => {
   const [caller] = await hardhatRuntime.ethers.getSigners();
   console.log("Using the account:", caller.address);
-  const Modifier = await hardhatRuntime.ethers.getContractFactory("Delay");
+  const Modifier = await hardhatRuntime.ethers.getContractFactory(
+    "SecretDelay"
+  );
 
   if (taskArgs.proxied) {
-    const chainId = await hardhatRuntime.getChainId();
-    const { transaction } = deployAndSetUpModule(
-      "delay",
-      {
-        values: [
-          taskArgs.owner,
-          taskArgs.avatar,
-          taskArgs.target,
-          taskArgs.cooldown,
-          taskArgs.expiration,
-        ],
-        types: ["address", "address", "address", "uint256", "uint256"],
-      },
-      hardhatRuntime.ethers.provider,
-      Number(chainId),
-      Date.now().toString()
+    const masterCopy = Modifier.attach(
+      await getMasterCopyAddress(taskArgs, hardhatRuntime)
     );
-    const deploymentTransaction = await caller.sendTransaction(transaction);
-    const receipt = await deploymentTransaction.wait();
-    console.log("Modifier contract deployed to", receipt.logs[1].address);
-    return;
+    const factory = await hardhatRuntime.ethers.getContractAt(
+      "ModuleProxyFactory",
+      await getFactoryAddress(taskArgs, hardhatRuntime),
+      caller
+    );
+    const initParams = hardhatRuntime.ethers.utils.defaultAbiCoder.encode(
+      ["address", "address", "address", "uint256", "uint256", "uint256"],
+      [
+        taskArgs.owner,
+        taskArgs.avatar,
+        taskArgs.target,
+        taskArgs.cooldown,
+        taskArgs.expiration,
+        taskArgs.minCooldown,
+      ]
+    );
+    const receipt = await factory
+      .deployModule(
+        masterCopy.address,
+        masterCopy.interface.encodeFunctionData("setUp", [initParams]),
+        Date.now().toString()
+      )
+      .then((tx: any) => tx.wait());
+    const creation = receipt.events?.find(
+      ({ event }: { event?: string }) => event === "ModuleProxyCreation"
+    );
+    if (!creation) {
+      throw new Error(
+        `${factory.address} did not emit ModuleProxyCreation in ${receipt.transactionHash}, is it a ModuleProxyFactory?`
+      );
+    }
+    const [proxy] = creation.args;
+    console.log("Modifier contract deployed to", proxy);
+    return proxy;
   }
 
   const modifier = await Modifier.deploy(
@@ -50,13 +103,15 @@ const deployDelayModifier = async (
     taskArgs.avatar,
     taskArgs.target,
     taskArgs.cooldown,
-    taskArgs.expiration
+    taskArgs.expiration,
+    taskArgs.minCooldown
   );
 
   console.log("Modifier deployed to:", modifier.address);
+  return modifier.address;
 };
 
-task("setup", "Deploys a Delay modifier")
+task("setup", "Deploys a SecretDelay modifier")
   .addParam("owner", "Address of the owner", undefined, types.string)
   .addParam(
     "avatar",
@@ -79,6 +134,13 @@ task("setup", "Deploys a Delay modifier")
     types.int,
     true
   )
+  .addParam(
+    "minCooldown",
+    "Lowest cooldown in seconds that can ever be set, 0 for no floor",
+    0,
+    types.int,
+    true
+  )
   .addParam(
     "proxied",
     "Deploys contract through factory",
@@ -86,6 +148,20 @@ task("setup", "Deploys a Delay modifier")
     types.boolean,
     true
   )
+  .addParam(
+    "mastercopy",
+    "Address of the SecretDelay master copy used with proxied (defaults to the hardhat-deploy deployment)",
+    undefined,
+    types.string,
+    true
+  )
+  .addParam(
+    "factory",
+    "Address of the ModuleProxyFactory used with proxied (defaults to the Zodiac factory)",
+    undefined,
+    types.string,
+    true
+  )
   .setAction(deployDelayModifier);
 
 task("verifyEtherscan", "Verifies the contract on etherscan")
@@ -111,6 +187,13 @@ task("verifyEtherscan", "Verifies the contract on etherscan")
     types.int,
     true
   )
+  .addParam(
+    "minCooldown",
+    "Lowest cooldown in seconds that can ever be set, 0 for no floor",
+    0,
+    types.int,
+    true
+  )
   .setAction(async (taskArgs, hardhatRuntime) => {
     await hardhatRuntime.run("verify", {
       address: taskArgs.modifier,
@@ -120,6 +203,7 @@ task("verifyEtherscan", "Verifies the contract on etherscan")
         taskArgs.target,
         `${taskArgs.cooldown}`,
         `${taskArgs.expiration}`,
+        `${taskArgs.minCooldown}`,
       ],
     });
   });
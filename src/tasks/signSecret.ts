@@ -0,0 +1,107 @@
+import "hardhat-deploy";
+import "@nomiclabs/hardhat-ethers";
+import { task, types } from "hardhat/config";
+import { HardhatRuntimeEnvironment } from "hardhat/types";
+
+import {
+  batchProposal,
+  loadProposal,
+  SecretDelayClient,
+  writeRelayRequest,
+  writeRevealBundle,
+} from "../sdk";
+
+interface SignSecretTaskArgs {
+  modifier: string;
+  proposal: string;
+  uri: string;
+  ttl: number;
+  request?: string;
+  bundle?: string;
+  multisend?: string;
+}
+
+const signSecretProposal = async (
+  taskArgs: SignSecretTaskArgs,
+  hardhatRuntime: HardhatRuntimeEnvironment
+) => {
+  const [caller] = await hardhatRuntime.ethers.getSigners();
+  console.log("Using the account:", caller.address);
+  const proposal = taskArgs.multisend
+    ? batchProposal(loadProposal(taskArgs.proposal), taskArgs.multisend)
+    : loadProposal(taskArgs.proposal);
+  const client = new SecretDelayClient(
+    await hardhatRuntime.ethers.getContractAt("SecretDelay", taskArgs.modifier)
+  );
+  if (!(await client.contract.signers(caller.address))) {
+    throw new Error(
+      `${caller.address} is not an allowed signer of ${client.address}`
+    );
+  }
+
+  const { timestamp } = await hardhatRuntime.ethers.provider.getBlock("latest");
+  const { request, bundle } = await client.signSecretProposal(
+    // The signers of hardhat-ethers can not sign typed data, the underlying JSON-RPC signer can.
+    hardhatRuntime.ethers.provider.getSigner(caller.address),
+    proposal,
+    taskArgs.uri,
+    timestamp + taskArgs.ttl
+  );
+  const requestPath =
+    taskArgs.request || taskArgs.proposal.replace(/(\.json)?$/, ".relay.json");
+  const bundlePath =
+    taskArgs.bundle || taskArgs.proposal.replace(/(\.json)?$/, ".reveal.json");
+  writeRelayRequest(requestPath, request);
+  writeRevealBundle(bundlePath, bundle);
+  console.log("Relay request written to:", requestPath);
+  console.log(
+    "Reveal bundle written to:",
+    bundlePath,
+    "(keep it private, it holds the salts)"
+  );
+  return { request, bundle };
+};
+
+task(
+  "signSecret",
+  "Signs the transactions of a proposal file so that any account can relay them to a SecretDelay modifier"
+)
+  .addParam("modifier", "Address of the modifier", undefined, types.string)
+  .addParam("proposal", "Path of the proposal file", undefined, types.string)
+  .addParam(
+    "uri",
+    "URI under which the proposal can be found",
+    undefined,
+    types.string
+  )
+  .addParam(
+    "ttl",
+    "Seconds from now until which the signatures can be relayed",
+    86400,
+    types.int,
+    true
+  )
+  .addParam(
+    "request",
+    "Path of the relay request to write (defaults to <proposal>.relay.json)",
+    undefined,
+    types.string,
+    true
+  )
+  .addParam(
+    "bundle",
+    "Path of the reveal bundle to write (defaults to <proposal>.reveal.json)",
+    undefined,
+    types.string,
+    true
+  )
+  .addParam(
+    "multisend",
+    "Address of a MultiSend contract, signs all transactions as one batch that is executed atomically in one queue slot",
+    undefined,
+    types.string,
+    true
+  )
+  .setAction(signSecretProposal);
+
+export {};
@@ -0,0 +1,67 @@
+import "hardhat-deploy";
+import "@nomiclabs/hardhat-ethers";
+import { task, types } from "hardhat/config";
+import { HardhatRuntimeEnvironment } from "hardhat/types";
+
+import { SecretDelayClient } from "../sdk";
+
+interface VetoTaskArgs {
+  modifier: string;
+  nonce?: number;
+}
+
+const veto = async (
+  taskArgs: VetoTaskArgs,
+  hardhatRuntime: HardhatRuntimeEnvironment
+) => {
+  const [caller] = await hardhatRuntime.ethers.getSigners();
+  console.log("Using the account:", caller.address);
+  const contract = await hardhatRuntime.ethers.getContractAt(
+    "SecretDelay",
+    taskArgs.modifier,
+    caller
+  );
+  const client = new SecretDelayClient(contract);
+  if (
+    (await contract.owner()) !== caller.address &&
+    !(await contract.guardians(caller.address))
+  ) {
+    throw new Error(
+      `${caller.address} is neither the owner nor a guardian of ${contract.address}`
+    );
+  }
+
+  const txNonce = (await contract.txNonce()).toNumber();
+  const queuePointer = (await contract.queuePointer()).toNumber();
+  const last = taskArgs.nonce ?? txNonce;
+  if (last < txNonce) {
+    throw new Error(
+      `Transaction ${last} has already been executed, vetoed or skipped`
+    );
+  }
+  if (last >= queuePointer) {
+    throw new Error(`Transaction ${last} is not in the queue`);
+  }
+  const vetoed = await client.veto(last + 1);
+  console.log(
+    `Vetoed ${vetoed.count} transaction(s) from ${vetoed.startingNonce} in`,
+    vetoed.transactionHash
+  );
+  return vetoed;
+};
+
+task(
+  "veto",
+  "Vetoes the transactions at the head of the queue of a SecretDelay modifier, as its owner or one of its guardians"
+)
+  .addParam("modifier", "Address of the modifier", undefined, types.string)
+  .addParam(
+    "nonce",
+    "Nonce of the last transaction to veto, all transactions before it are vetoed as well (defaults to the head of the queue)",
+    undefined,
+    types.int,
+    true
+  )
+  .setAction(veto);
+
+export {};
@@ -0,0 +1,93 @@
+import "hardhat-deploy";
+import "@nomiclabs/hardhat-ethers";
+import { task, types } from "hardhat/config";
+import { HardhatRuntimeEnvironment } from "hardhat/types";
+
+import {
+  AlertSink,
+  fileSink,
+  SecretDelayWatcher,
+  stdoutSink,
+  webhookSink,
+} from "../sdk";
+
+interface WatchTaskArgs {
+  modifier: string;
+  state?: string;
+  fromBlock?: number;
+  interval: number;
+  webhook?: string;
+  file?: string;
+  quiet: boolean;
+}
+
+const watch = async (
+  taskArgs: WatchTaskArgs,
+  hardhatRuntime: HardhatRuntimeEnvironment
+) => {
+  const sinks: AlertSink[] = [];
+  if (!taskArgs.quiet) sinks.push(stdoutSink());
+  if (taskArgs.webhook) sinks.push(webhookSink(taskArgs.webhook));
+  if (taskArgs.file) sinks.push(fileSink(taskArgs.file));
+  if (sinks.length === 0) {
+    throw new Error("No alert sinks, pass --webhook or --file with --quiet");
+  }
+
+  const watcher = new SecretDelayWatcher(
+    await hardhatRuntime.ethers.getContractAt("SecretDelay", taskArgs.modifier),
+    {
+      sinks,
+      statePath: taskArgs.state,
+      // Without a state file only entries enqueued from now on are alerted.
+      startBlock:
+        taskArgs.fromBlock ??
+        (await hardhatRuntime.ethers.provider.getBlock("latest")).number + 1,
+      pollInterval: taskArgs.interval * 1000,
+    }
+  );
+  console.log(
+    `Watching ${taskArgs.modifier} from block ${watcher.indexer.lastBlock + 1}`
+  );
+  process.once("SIGINT", () => watcher.stop());
+  process.once("SIGTERM", () => watcher.stop());
+  await watcher.start();
+};
+
+task(
+  "watch",
+  "Alerts on each transaction added to the queue of a SecretDelay modifier"
+)
+  .addParam("modifier", "Address of the modifier", undefined, types.string)
+  .addParam(
+    "state",
+    "JSON file to keep the watcher state in, so it resumes after a restart",
+    undefined,
+    types.string,
+    true
+  )
+  .addParam(
+    "fromBlock",
+    "Block to start from if there is no state yet (defaults to the next block)",
+    undefined,
+    types.int,
+    true
+  )
+  .addParam("interval", "Seconds between two polls", 15, types.int, true)
+  .addParam(
+    "webhook",
+    "URL each alert is posted to as JSON",
+    undefined,
+    types.string,
+    true
+  )
+  .addParam(
+    "file",
+    "File each alert is appended to as a line of JSON",
+    undefined,
+    types.string,
+    true
+  )
+  .addFlag("quiet", "Do not print alerts to stdout")
+  .setAction(watch);
+
+export {};
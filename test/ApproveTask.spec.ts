@@ -0,0 +1,141 @@
+import fs from "fs";
+import os from "os";
+import path from "path";
+
+import { expect } from "chai";
+import hre, { ethers } from "hardhat";
+import "@nomiclabs/hardhat-ethers";
+
+import {
+  encodeMultiSendTransaction,
+  getSecretTransactionHash,
+  Operation,
+  writeRevealBundle,
+} from "../src/sdk";
+
+import { setupModifier } from "./utils";
+
+const FirstAddress = "0x0000000000000000000000000000000000000001";
+
+describe("approve task", async () => {
+  const cooldown = 100;
+  const testUri = "ipfsHash";
+  const transfer = {
+    to: FirstAddress,
+    value: 42,
+    data: "0x",
+    operation: Operation.Call,
+  };
+
+  const setupQueue = async () => {
+    const { modifier } = await setupModifier({ cooldown });
+    await modifier.execTransactionFromModule(
+      transfer.to,
+      transfer.value,
+      transfer.data,
+      transfer.operation
+    );
+    await modifier.enqueueSecretTx(
+      getSecretTransactionHash(transfer, 1),
+      testUri
+    );
+    return { modifier };
+  };
+
+  const writeBundle = (modifier: string, salt: number) => {
+    const dir = fs.mkdtempSync(path.join(os.tmpdir(), "approve-"));
+    const file = path.join(dir, "proposal.reveal.json");
+    writeRevealBundle(file, {
+      modifier,
+      chainId: 31337,
+      uri: testUri,
+      domainSeparated: false,
+      proposal: { id: "proposal", txs: [transfer] },
+      entries: [
+        {
+          nonce: 1,
+          txHash: getSecretTransactionHash(transfer, salt),
+          salt: ethers.BigNumber.from(salt),
+        },
+      ],
+    });
+    return file;
+  };
+
+  it("approves the hash of the transaction at the head of the queue", async () => {
+    const { modifier } = await setupQueue();
+
+    const approved = await hre.run("approve", {
+      modifier: modifier.address,
+      yes: true,
+    });
+
+    expect(approved.startingNonce).to.equal(0);
+    expect(approved.count).to.equal(1);
+    expect(await modifier.approvedHash(0)).to.equal(await modifier.txHash(0));
+    expect(await modifier.approved()).to.equal(0);
+  });
+
+  it("refuses to approve a secret transaction it can not show", async () => {
+    const { modifier } = await setupQueue();
+
+    const error = await hre
+      .run("approve", {
+        modifier: modifier.address,
+        count: 2,
+        yes: true,
+      })
+      .catch((e: Error) => e);
+
+    expect(error.message).to.equal(
+      "Transaction 1 is secret and not in the reveal bundles, pass its reveal bundle with --bundles to review it"
+    );
+    expect(await modifier.approvedHash(0)).to.equal(ethers.constants.HashZero);
+  });
+
+  it("approves secret transactions from their reveal bundles", async () => {
+    const { modifier } = await setupQueue();
+
+    const approved = await hre.run("approve", {
+      modifier: modifier.address,
+      nonce: 1,
+      bundles: writeBundle(modifier.address, 1),
+      yes: true,
+    });
+
+    expect(approved.count).to.equal(1);
+    expect(await modifier.approvedHash(1)).to.equal(await modifier.txHash(1));
+  });
+
+  it("shows the transactions of multiSend batches", async () => {
+    const { modifier } = await setupQueue();
+    const batch = encodeMultiSendTransaction(
+      [transfer, transfer],
+      FirstAddress
+    );
+    await modifier.execTransactionFromModule(
+      batch.to,
+      batch.value,
+      batch.data,
+      batch.operation
+    );
+    const log = console.log;
+    const lines: string[] = [];
+    console.log = (...args: unknown[]) => lines.push(args.join(" "));
+
+    try {
+      await hre.run("approve", {
+        modifier: modifier.address,
+        nonce: 2,
+        yes: true,
+      });
+    } finally {
+      console.log = log;
+    }
+
+    const shown = lines.join("\n");
+    expect(shown).to.contain("operation: DelegateCall");
+    expect(shown).to.contain("multiSend of 2 transaction(s):");
+    expect(shown).to.contain(`      to: ${FirstAddress}\n      value: 42`);
+  });
+});
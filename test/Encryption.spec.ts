@@ -0,0 +1,242 @@
+import fs from "fs";
+import os from "os";
+import path from "path";
+
+import { expect } from "chai";
+import { BigNumber } from "ethers";
+import hre, { ethers } from "hardhat";
+import "@nomiclabs/hardhat-ethers";
+
+import {
+  decryptRevealBundle,
+  encryptRevealBundle,
+  generateGuardianKey,
+  loadRevealBundle,
+  getSecretTransactionHash,
+  parseProposal,
+  RevealBundle,
+  writeEncryptedRevealBundle,
+} from "../src/sdk";
+
+import { setupModifier } from "./utils";
+
+const FirstAddress = "0x0000000000000000000000000000000000000001";
+
+describe("Encrypted reveal bundles", async () => {
+  const cooldown = 100;
+  const testUri = "ipfsHash";
+  const proposal = {
+    id: "proposal",
+    txs: [
+      { to: FirstAddress, value: "42", data: "0x", operation: 0 },
+      { to: FirstAddress, value: "43", data: "0x", operation: 0 },
+    ],
+  };
+
+  const tempDir = () => fs.mkdtempSync(path.join(os.tmpdir(), "secret-delay-"));
+
+  const bundle: RevealBundle = {
+    modifier: FirstAddress,
+    chainId: 31337,
+    uri: testUri,
+    domainSeparated: false,
+    proposal: parseProposal(proposal),
+    entries: proposal.txs.map((tx, index) => ({
+      nonce: index,
+      txHash: getSecretTransactionHash(tx, BigNumber.from(index)),
+      salt: BigNumber.from(index),
+    })),
+  };
+
+  describe("encryptRevealBundle()", async () => {
+    it("can be decrypted by each guardian", async () => {
+      const guardians = [generateGuardianKey(), generateGuardianKey()];
+
+      const encrypted = encryptRevealBundle(
+        bundle,
+        guardians.map(({ publicKey }) => publicKey)
+      );
+
+      for (const { privateKey } of guardians) {
+        expect(decryptRevealBundle(encrypted, privateKey)).to.deep.equal(
+          bundle
+        );
+      }
+    });
+
+    it("can not be decrypted with other keys", async () => {
+      const guardian = generateGuardianKey();
+      const encrypted = encryptRevealBundle(bundle, [guardian.publicKey]);
+      const other = generateGuardianKey();
+
+      expect(() => decryptRevealBundle(encrypted, other.privateKey)).to.throw(
+        `Reveal bundle is not encrypted to ${other.publicKey}`
+      );
+    });
+
+    it("detects tampering", async () => {
+      const guardian = generateGuardianKey();
+      const encrypted = encryptRevealBundle(bundle, [guardian.publicKey]);
+      const flipped = (parseInt(encrypted.ciphertext.slice(-2), 16) ^ 1)
+        .toString(16)
+        .padStart(2, "0");
+
+      expect(() =>
+        decryptRevealBundle(
+          {
+            ...encrypted,
+            ciphertext: encrypted.ciphertext.slice(0, -2) + flipped,
+          },
+          guardian.privateKey
+        )
+      ).to.throw("Could not decrypt the reveal bundle");
+      expect(() =>
+        decryptRevealBundle(
+          { ...encrypted, modifier: ethers.constants.AddressZero },
+          guardian.privateKey
+        )
+      ).to.throw("but holds a bundle for");
+    });
+  });
+
+  describe("tasks", async () => {
+    const enqueueForGuardian = async (modifierAddress: string) => {
+      const dir = tempDir();
+      const file = path.join(dir, "proposal.json");
+      fs.writeFileSync(file, JSON.stringify(proposal));
+      await hre.run("guardianKey", { out: path.join(dir, "guardian") });
+      await hre.run("enqueueSecret", {
+        modifier: modifierAddress,
+        proposal: file,
+        uri: testUri,
+        privateSalt: true,
+        guardians: path.join(dir, "guardian.pub"),
+      });
+      return dir;
+    };
+
+    it("guardianKey does not overwrite existing keys", async () => {
+      const out = path.join(tempDir(), "guardian");
+      await hre.run("guardianKey", { out });
+
+      const error = await hre
+        .run("guardianKey", { out })
+        .catch((e: Error) => e);
+
+      expect(error.message).to.equal(`${out}.key already exists`);
+    });
+
+    it("decryptProposal reads a bundle written by enqueueSecret and checks it against the queue", async () => {
+      const { modifier } = await setupModifier({ cooldown });
+      const dir = await enqueueForGuardian(modifier.address);
+
+      const decrypted = await hre.run("decryptProposal", {
+        file: path.join(dir, "proposal.encrypted.json"),
+        key: path.join(dir, "guardian.key"),
+        bundle: path.join(dir, "decrypted.json"),
+      });
+
+      expect(decrypted).to.deep.equal(
+        loadRevealBundle(path.join(dir, "proposal.reveal.json"))
+      );
+      expect(loadRevealBundle(path.join(dir, "decrypted.json"))).to.deep.equal(
+        decrypted
+      );
+    });
+
+    it("decryptProposal throws if the bundle does not match the queue", async () => {
+      const { modifier } = await setupModifier({ cooldown });
+      const dir = await enqueueForGuardian(modifier.address);
+      const decrypted = loadRevealBundle(
+        path.join(dir, "proposal.reveal.json")
+      );
+      const swapped = path.join(dir, "swapped.encrypted.json");
+      writeEncryptedRevealBundle(
+        swapped,
+        encryptRevealBundle(
+          {
+            ...decrypted,
+            entries: decrypted.entries.map((entry, index) => ({
+              ...entry,
+              nonce: 1 - index,
+            })),
+          },
+          [fs.readFileSync(path.join(dir, "guardian.pub"), "utf8").trim()]
+        )
+      );
+
+      const error = await hre
+        .run("decryptProposal", {
+          file: swapped,
+          key: path.join(dir, "guardian.key"),
+        })
+        .catch((e: Error) => e);
+      const offline = await hre.run("decryptProposal", {
+        file: swapped,
+        key: path.join(dir, "guardian.key"),
+        offline: true,
+      });
+
+      expect(error.message).to.equal(
+        `txs[0] hashes to ${decrypted.entries[0].txHash}, but transaction 1 of the queue has hash ${decrypted.entries[1].txHash}`
+      );
+      expect(offline.entries[0].nonce).to.equal(1);
+    });
+
+    it("decryptProposal finds the queue nonces of a bundle without them", async () => {
+      const { modifier } = await setupModifier({ cooldown });
+      const dir = await enqueueForGuardian(modifier.address);
+      const decrypted = loadRevealBundle(
+        path.join(dir, "proposal.reveal.json")
+      );
+      const guardian = fs
+        .readFileSync(path.join(dir, "guardian.pub"), "utf8")
+        .trim();
+      // Rehashes the transactions with `salt` if it is given.
+      const withoutNonces = (salt?: BigNumber) => {
+        const file = path.join(tempDir(), "proposal.encrypted.json");
+        writeEncryptedRevealBundle(
+          file,
+          encryptRevealBundle(
+            {
+              ...decrypted,
+              entries: decrypted.entries.map((entry, index) =>
+                salt
+                  ? {
+                      txHash: getSecretTransactionHash(
+                        proposal.txs[index],
+                        salt
+                      ),
+                      salt,
+                    }
+                  : { txHash: entry.txHash, salt: entry.salt }
+              ),
+            },
+            [guardian]
+          )
+        );
+        return file;
+      };
+      const key = path.join(dir, "guardian.key");
+
+      const checked = await hre.run("decryptProposal", {
+        file: withoutNonces(),
+        key,
+      });
+      const error = await hre
+        .run("decryptProposal", {
+          file: withoutNonces(BigNumber.from(42)),
+          key,
+        })
+        .catch((e: Error) => e);
+
+      expect(checked.entries).to.have.length(2);
+      expect(error.message).to.equal(
+        `txs[0] hashes to ${getSecretTransactionHash(
+          proposal.txs[0],
+          BigNumber.from(42)
+        )}, which was not enqueued in ${modifier.address}`
+      );
+    });
+  });
+});
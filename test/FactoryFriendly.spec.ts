@@ -10,7 +10,14 @@ const saltNonce = "0xfa";
 describe("Module works with factory", () => {
   const cooldown = 100;
   const expiration = 180;
-  const paramsTypes = ["address", "address", "address", "uint256", "uint256"];
+  const paramsTypes = [
+    "address",
+    "address",
+    "address",
+    "uint256",
+    "uint256",
+    "uint256",
+  ];
 
   const baseSetup = deployments.createFixture(async () => {
     await deployments.fixture();
@@ -23,6 +30,7 @@ describe("Module works with factory", () => {
       FirstAddress,
       FirstAddress,
       0,
+      0,
       0
     );
 
@@ -37,6 +45,7 @@ describe("Module works with factory", () => {
       AddressOne,
       100,
       180,
+      0,
     ]);
 
     await expect(masterCopy.setUp(encodedParams)).to.be.revertedWith(
@@ -53,6 +62,7 @@ describe("Module works with factory", () => {
       target.address,
       100,
       180,
+      0,
     ];
     const encodedParams = [new AbiCoder().encode(paramsTypes, paramsValues)];
     const initParams = masterCopy.interface.encodeFunctionData(
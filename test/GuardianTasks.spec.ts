@@ -0,0 +1,114 @@
+import { expect } from "chai";
+import hre, { ethers } from "hardhat";
+import "@nomiclabs/hardhat-ethers";
+
+import { setupModifier } from "./utils";
+
+const FirstAddress = "0x0000000000000000000000000000000000000001";
+
+describe("Guardian tasks", async () => {
+  // The tasks run with the first account, which is not the owner of the modifier.
+  const setupGuardian = async () => {
+    const [user] = await ethers.getSigners();
+    const { owner, modifier } = await setupModifier({ ownerIndex: 1 });
+    for (let i = 0; i < 3; i++) {
+      await modifier
+        .connect(owner)
+        .execTransactionFromModule(FirstAddress, 0, "0x", 0);
+    }
+    return { user, owner, modifier };
+  };
+
+  describe("veto", async () => {
+    it("throws if the caller is neither the owner nor a guardian", async () => {
+      const { user, modifier } = await setupGuardian();
+
+      const error = await hre
+        .run("veto", { modifier: modifier.address })
+        .catch((e: Error) => e);
+
+      expect(error.message).to.equal(
+        `${user.address} is neither the owner nor a guardian of ${modifier.address}`
+      );
+    });
+
+    it("vetoes the head of the queue as a guardian", async () => {
+      const { user, owner, modifier } = await setupGuardian();
+      await modifier.connect(owner).addGuardian(user.address);
+
+      const vetoed = await hre.run("veto", { modifier: modifier.address });
+
+      expect(vetoed.startingNonce).to.equal(0);
+      expect(vetoed.count).to.equal(1);
+      expect(await modifier.txNonce()).to.equal(1);
+    });
+
+    it("vetoes all transactions up to a nonce", async () => {
+      const { user, owner, modifier } = await setupGuardian();
+      await modifier.connect(owner).addGuardian(user.address);
+
+      const vetoed = await hre.run("veto", {
+        modifier: modifier.address,
+        nonce: 1,
+      });
+
+      expect(vetoed.count).to.equal(2);
+      expect(await modifier.txNonce()).to.equal(2);
+      const error = await hre
+        .run("veto", { modifier: modifier.address, nonce: 3 })
+        .catch((e: Error) => e);
+      expect(error.message).to.equal("Transaction 3 is not in the queue");
+    });
+  });
+
+  describe("guardians", async () => {
+    it("lists the current guardians", async () => {
+      const { user, owner, modifier } = await setupGuardian();
+      await modifier.connect(owner).addGuardian(user.address);
+      await modifier.connect(owner).addGuardian(FirstAddress);
+      await modifier.connect(owner).removeGuardian(user.address);
+
+      const guardians = await hre.run("guardians", {
+        modifier: modifier.address,
+      });
+
+      expect(guardians).to.deep.equal([FirstAddress]);
+    });
+
+    it("returns the call for the owner if the caller is not the owner", async () => {
+      const { modifier } = await setupGuardian();
+
+      const tx = await hre.run("guardians", {
+        modifier: modifier.address,
+        add: FirstAddress,
+      });
+
+      expect(tx).to.deep.equal({
+        to: modifier.address,
+        data: modifier.interface.encodeFunctionData("addGuardian", [
+          FirstAddress,
+        ]),
+      });
+      expect(await modifier.guardians(FirstAddress)).to.equal(false);
+    });
+
+    it("adds and removes guardians as the owner", async () => {
+      const { user, owner, modifier } = await setupGuardian();
+      await modifier.connect(owner).transferOwnership(user.address);
+
+      const added = await hre.run("guardians", {
+        modifier: modifier.address,
+        add: owner.address,
+      });
+      expect(added.added).to.equal(true);
+      expect(await modifier.guardians(owner.address)).to.equal(true);
+
+      const removed = await hre.run("guardians", {
+        modifier: modifier.address,
+        remove: owner.address,
+      });
+      expect(removed.added).to.equal(false);
+      expect(await modifier.guardians(owner.address)).to.equal(false);
+    });
+  });
+});
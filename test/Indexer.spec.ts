@@ -0,0 +1,239 @@
+import fs from "fs";
+import os from "os";
+import path from "path";
+
+import { expect } from "chai";
+import hre, { ethers, waffle } from "hardhat";
+import "@nomiclabs/hardhat-ethers";
+
+import { Operation, SecretDelayClient, SecretDelayIndexer } from "../src/sdk";
+
+import { increaseBlockTime, setupModifier } from "./utils";
+
+const FirstAddress = "0x0000000000000000000000000000000000000001";
+
+describe("SecretDelayIndexer", async () => {
+  const cooldown = 100;
+  const expiration = 180;
+  const testUri = "ipfsHash";
+  const [user1] = waffle.provider.getWallets();
+
+  const setupIndexer = async () => {
+    const { modifier, startBlock } = await setupModifier({
+      cooldown,
+      expiration,
+    });
+    const contract = await ethers.getContractAt(
+      "SecretDelay",
+      modifier.address,
+      user1
+    );
+    const client = new SecretDelayClient(contract);
+    return { modifier, client, contract, startBlock };
+  };
+
+  const transfer = {
+    to: FirstAddress,
+    value: 42,
+    data: "0x",
+    operation: Operation.Call,
+  };
+
+  const statePath = () =>
+    path.join(fs.mkdtempSync(path.join(os.tmpdir(), "indexer-")), "state.json");
+
+  it("indexes public and secret entries", async () => {
+    const { client, contract, startBlock } = await setupIndexer();
+    const publicTx = await client.enqueue(transfer);
+    const secretTx = await client.enqueueSecret(transfer, testUri);
+
+    const indexer = new SecretDelayIndexer(contract, { startBlock });
+    await indexer.sync();
+
+    expect(indexer.getTransaction(0)).to.deep.include({
+      nonce: 0,
+      txHash: publicTx.txHash,
+      type: "public",
+      status: "pending",
+      tx: { to: FirstAddress, value: "42", data: "0x", operation: 0 },
+    });
+    expect(indexer.getTransaction(1)).to.deep.include({
+      nonce: 1,
+      txHash: secretTx.txHash,
+      type: "secret",
+      status: "pending",
+      salt: "0",
+      uriHash: ethers.utils.id(testUri),
+    });
+    expect(indexer.getTransaction(1)?.enqueuedAt.transactionHash).to.equal(
+      secretTx.transactionHash
+    );
+    expect(indexer.getTransaction(2)).to.be.undefined;
+  });
+
+  it("tracks executed, vetoed, approved and skipped entries", async () => {
+    const { client, contract, startBlock } = await setupIndexer();
+    for (let i = 0; i < 4; i++) {
+      await client.enqueue(transfer);
+    }
+    const vetoed = await client.veto(1);
+    const approved = await client.approveNext(1);
+    const executed = await client.executeNext(transfer);
+    await increaseBlockTime(hre, cooldown + expiration + 1);
+    const skipped = await client.skipExpired();
+
+    const indexer = new SecretDelayIndexer(contract, { startBlock });
+    await indexer.sync();
+
+    expect(indexer.getTransaction(0)?.status).to.equal("vetoed");
+    expect(indexer.getTransaction(0)?.vetoedIn).to.equal(
+      vetoed.transactionHash
+    );
+    expect(indexer.getTransaction(1)).to.deep.include({
+      status: "executed",
+      approvedIn: approved.transactionHash,
+      executedIn: executed.transactionHash,
+    });
+    expect(
+      indexer.getTransactions({ status: "skipped" }).map((tx) => tx.nonce)
+    ).to.deep.equal([2, 3]);
+    expect(indexer.getTransaction(3)?.skippedIn).to.equal(
+      skipped.transactionHash
+    );
+    expect((await indexer.sync()).txNonce).to.equal(4);
+  });
+
+  it("keeps entries whose execution failed in a batch pending", async () => {
+    const { client, contract, startBlock } = await setupIndexer();
+    const tooMuch = { ...transfer, value: 1001 };
+    await client.enqueue(tooMuch);
+    await increaseBlockTime(hre, cooldown);
+    await client.executeBatch([{ tx: tooMuch }], true);
+
+    const indexer = new SecretDelayIndexer(contract, { startBlock });
+    const state = await indexer.sync();
+
+    expect(indexer.getTransaction(0)?.status).to.equal("pending");
+    expect(state.txNonce).to.equal(0);
+  });
+
+  it("tracks cancelled entries and steps over them", async () => {
+    const { client, contract, startBlock } = await setupIndexer();
+    for (let i = 0; i < 3; i++) {
+      await client.enqueue(transfer);
+    }
+    const cancelled = await client.cancel(1);
+    await client.approveNext(1);
+    await client.executeNext(transfer);
+
+    const indexer = new SecretDelayIndexer(contract, { startBlock });
+    const state = await indexer.sync();
+
+    expect(indexer.getTransaction(1)).to.deep.include({
+      status: "cancelled",
+      cancelledIn: cancelled.transactionHash,
+    });
+    expect(indexer.getTransaction(0)?.status).to.equal("executed");
+    expect(state.txNonce).to.equal(2);
+  });
+
+  it("filters transactions by status, type and nonce range", async () => {
+    const { client, contract, startBlock } = await setupIndexer();
+    await client.enqueue(transfer);
+    await client.enqueueSecret(transfer, testUri);
+    await client.enqueueSecret(transfer, testUri);
+    await client.enqueue(transfer);
+    await client.veto(1);
+
+    const indexer = new SecretDelayIndexer(contract, { startBlock });
+    await indexer.sync();
+
+    const nonces = (query: Parameters<typeof indexer.getTransactions>[0]) =>
+      indexer.getTransactions(query).map((tx) => tx.nonce);
+    expect(nonces({ status: "pending" })).to.deep.equal([1, 2, 3]);
+    expect(nonces({ type: "secret" })).to.deep.equal([1, 2]);
+    expect(nonces({ status: "pending", type: "public" })).to.deep.equal([3]);
+    expect(nonces({ fromNonce: 1, toNonce: 3 })).to.deep.equal([1, 2]);
+  });
+
+  it("resumes from the state file", async () => {
+    const { client, contract, startBlock } = await setupIndexer();
+    const file = statePath();
+    await client.enqueue(transfer);
+    const first = new SecretDelayIndexer(contract, {
+      statePath: file,
+      startBlock,
+    });
+    await first.sync();
+    const synced = first.lastBlock;
+    await client.enqueue(transfer);
+    await client.veto(2);
+
+    const resumed = new SecretDelayIndexer(contract, { statePath: file });
+    expect(resumed.lastBlock).to.equal(synced);
+    await resumed.sync();
+
+    expect(resumed.lastBlock).to.equal(
+      (await ethers.provider.getBlock("latest")).number
+    );
+    expect(
+      resumed.getTransactions({ status: "vetoed" }).map((tx) => tx.nonce)
+    ).to.deep.equal([0, 1]);
+    expect(JSON.parse(fs.readFileSync(file, "utf8")).lastBlock).to.equal(
+      resumed.lastBlock
+    );
+  });
+
+  it("syncs in ranges of blockRange blocks", async () => {
+    const { client, contract, startBlock } = await setupIndexer();
+    for (let i = 0; i < 3; i++) {
+      await client.enqueue(transfer);
+    }
+
+    const indexer = new SecretDelayIndexer(contract, {
+      startBlock,
+      blockRange: 1,
+    });
+    await indexer.sync();
+
+    expect(indexer.getTransactions()).to.have.length(3);
+  });
+
+  it("records the signer of relayed entries", async () => {
+    const { modifier, client, contract, startBlock } = await setupIndexer();
+    const [, signer] = waffle.provider.getWallets();
+    await modifier.setSigner(signer.address, true);
+    const { timestamp } = await ethers.provider.getBlock("latest");
+    const { request } = await client.signSecretProposal(
+      signer,
+      { id: "proposal", txs: [transfer] },
+      testUri,
+      timestamp + 1000
+    );
+    const [{ message, signature }] = request.entries;
+    await client.relay(signer.address, message, signature);
+
+    const indexer = new SecretDelayIndexer(contract, { startBlock });
+    await indexer.sync();
+
+    expect(indexer.getTransaction(0)).to.deep.include({
+      type: "secret",
+      txHash: message.txHash,
+      signer: signer.address,
+    });
+  });
+
+  it("throws if the state file belongs to another modifier", async () => {
+    const { contract, startBlock } = await setupIndexer();
+    const file = statePath();
+    await new SecretDelayIndexer(contract, {
+      statePath: file,
+      startBlock,
+    }).sync();
+    const other = contract.attach(FirstAddress);
+
+    expect(() => new SecretDelayIndexer(other, { statePath: file })).to.throw(
+      `${file} indexes ${contract.address}, not ${FirstAddress}`
+    );
+  });
+});
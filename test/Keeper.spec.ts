@@ -0,0 +1,237 @@
+import fs from "fs";
+import os from "os";
+import path from "path";
+
+import { expect } from "chai";
+import hre, { ethers, waffle } from "hardhat";
+import "@nomiclabs/hardhat-ethers";
+
+import {
+  KeeperReport,
+  Operation,
+  SecretDelayClient,
+  SecretDelayKeeper,
+  writeRevealBundle,
+} from "../src/sdk";
+
+import { increaseBlockTime, setupModifier } from "./utils";
+
+const FirstAddress = "0x0000000000000000000000000000000000000001";
+
+describe("SecretDelayKeeper", async () => {
+  const cooldown = 100;
+  const expiration = 180;
+  const testUri = "ipfsHash";
+  const [user1] = waffle.provider.getWallets();
+
+  const setupKeeper = async () => {
+    const { modifier, startBlock } = await setupModifier({
+      cooldown,
+      expiration,
+    });
+    const contract = await ethers.getContractAt(
+      "SecretDelay",
+      modifier.address,
+      user1
+    );
+    const client = new SecretDelayClient(contract);
+    return { modifier, client, contract, startBlock };
+  };
+
+  const transfer = {
+    to: FirstAddress,
+    value: 42,
+    data: "0x",
+    operation: Operation.Call,
+  };
+
+  const mine = async (seconds: number) => {
+    await increaseBlockTime(hre, seconds);
+    await hre.network.provider.send("evm_mine");
+  };
+
+  const nonces = (report: KeeperReport) => ({
+    executed: report.executed.map(({ nonce }) => nonce),
+    revealed: report.revealed.map(({ nonce }) => nonce),
+    skipped: report.skipped.map(({ startingNonce, count }) => [
+      startingNonce,
+      count,
+    ]),
+  });
+
+  // Enqueues `transfer` as a secret transaction and writes its reveal bundle into a new directory.
+  const enqueueWithBundle = async (client: SecretDelayClient) => {
+    const proposal = { id: "proposal", txs: [transfer] };
+    const [{ queuePointer, txHash, salt }] = await client.enqueueSecretProposal(
+      proposal,
+      testUri
+    );
+    const dir = fs.mkdtempSync(path.join(os.tmpdir(), "keeper-"));
+    writeRevealBundle(path.join(dir, "proposal.reveal.json"), {
+      modifier: client.address,
+      chainId: (await ethers.provider.getNetwork()).chainId,
+      uri: testUri,
+      domainSeparated: false,
+      proposal,
+      entries: [{ nonce: queuePointer, txHash, salt }],
+    });
+    return dir;
+  };
+
+  it("executes a public transaction once its cooldown has passed", async () => {
+    const { client, contract, startBlock } = await setupKeeper();
+    const keeper = new SecretDelayKeeper(contract, { startBlock });
+    await client.enqueue(transfer);
+
+    const waiting = await keeper.poll();
+    await mine(cooldown);
+    const report = await keeper.poll();
+
+    expect(waiting.executed).to.deep.equal([]);
+    expect(waiting.blocker).to.contain("Transaction 0 is still in cooldown");
+    expect(nonces(report).executed).to.deep.equal([0]);
+    expect(report.blocker).to.equal(undefined);
+    expect(await ethers.provider.getBalance(FirstAddress)).to.equal(42);
+  });
+
+  it("executes approved transactions during their cooldown", async () => {
+    const { client, contract, startBlock } = await setupKeeper();
+    const keeper = new SecretDelayKeeper(contract, { startBlock });
+    await client.enqueue(transfer);
+    await client.enqueue(transfer);
+    await client.approveNext(1);
+
+    const report = await keeper.poll();
+
+    expect(nonces(report).executed).to.deep.equal([0]);
+    expect(report.blocker).to.contain("Transaction 1 is still in cooldown");
+  });
+
+  it("executes secret transactions from the reveal bundles", async () => {
+    const { client, contract, startBlock } = await setupKeeper();
+    const bundleDir = await enqueueWithBundle(client);
+    await mine(cooldown);
+
+    const withoutBundles = await new SecretDelayKeeper(contract, {
+      startBlock,
+    }).poll();
+    const report = await new SecretDelayKeeper(contract, {
+      startBlock,
+      bundleDir,
+    }).poll();
+
+    expect(withoutBundles.blocker).to.equal(
+      "Transaction 0 is secret and not in the reveal bundles"
+    );
+    expect(nonces(report)).to.deep.equal({
+      executed: [0],
+      revealed: [],
+      skipped: [],
+    });
+  });
+
+  it("reveals secret transactions during their cooldown if the modifier requires it", async () => {
+    const { modifier, client, contract, startBlock } = await setupKeeper();
+    await modifier.setRevealRequired(true);
+    const bundleDir = await enqueueWithBundle(client);
+    const keeper = new SecretDelayKeeper(contract, { startBlock, bundleDir });
+
+    const revealing = await keeper.poll();
+    await mine(cooldown);
+    const report = await keeper.poll();
+
+    expect(nonces(revealing)).to.deep.equal({
+      executed: [],
+      revealed: [0],
+      skipped: [],
+    });
+    expect(revealing.blocker).to.contain("Transaction 0 is still in cooldown");
+    expect(nonces(report)).to.deep.equal({
+      executed: [0],
+      revealed: [],
+      skipped: [],
+    });
+  });
+
+  it("waits for the cooldown after a late reveal", async () => {
+    const { modifier, client, contract, startBlock } = await setupKeeper();
+    await modifier.setRevealRequired(true);
+    const bundleDir = await enqueueWithBundle(client);
+    await mine(cooldown);
+
+    const report = await new SecretDelayKeeper(contract, {
+      startBlock,
+      bundleDir,
+    }).poll();
+
+    expect(nonces(report)).to.deep.equal({
+      executed: [],
+      revealed: [0],
+      skipped: [],
+    });
+    expect(report.blocker).to.contain("Transaction 0 is still in cooldown");
+    expect(await modifier.txNonce()).to.equal(0);
+  });
+
+  it("skips the expired head of the queue", async () => {
+    const { client, contract, startBlock } = await setupKeeper();
+    const keeper = new SecretDelayKeeper(contract, { startBlock });
+    await client.enqueue(transfer);
+    await mine(cooldown + expiration);
+    await client.enqueue(transfer);
+
+    const report = await keeper.poll();
+
+    expect(nonces(report).skipped).to.deep.equal([[0, 1]]);
+    expect(report.executed).to.deep.equal([]);
+    expect(report.blocker).to.contain("Transaction 1 is still in cooldown");
+  });
+
+  it("waits while the gas price is above the ceiling", async () => {
+    const { modifier, client, contract, startBlock } = await setupKeeper();
+    await client.enqueue(transfer);
+    await mine(cooldown);
+    const gasPrice = await ethers.provider.getGasPrice();
+
+    const report = await new SecretDelayKeeper(contract, {
+      startBlock,
+      maxGasPrice: gasPrice.sub(1),
+    }).poll();
+
+    expect(report.executed).to.deep.equal([]);
+    expect(report.blocker).to.equal(
+      `Gas price of ${gasPrice} wei is above the ceiling of ${gasPrice.sub(
+        1
+      )} wei`
+    );
+    expect(await modifier.txNonce()).to.equal(0);
+  });
+
+  it("retries failed polls until stopped", async () => {
+    const { modifier, client, contract, startBlock } = await setupKeeper();
+    const errors: Error[] = [];
+    const keeper = new SecretDelayKeeper(contract, {
+      startBlock,
+      pollInterval: 10,
+      onError: (error) => errors.push(error),
+    });
+    await client.enqueue(transfer);
+    await mine(cooldown);
+    const executeNext = keeper.client.executeNext.bind(keeper.client);
+    keeper.client.executeNext = async () => {
+      keeper.client.executeNext = executeNext;
+      throw new Error("connection lost");
+    };
+
+    const stopped = keeper.start();
+    while ((await modifier.txNonce()).eq(0)) {
+      await new Promise((resolve) => setTimeout(resolve, 10));
+    }
+    keeper.stop();
+    await stopped;
+
+    expect(errors.map(({ message }) => message)).to.deep.equal([
+      "connection lost",
+    ]);
+  });
+});
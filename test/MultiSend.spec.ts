@@ -0,0 +1,182 @@
+import fs from "fs";
+import os from "os";
+import path from "path";
+
+import { expect } from "chai";
+import { BigNumber } from "ethers";
+import hre, { ethers } from "hardhat";
+import "@nomiclabs/hardhat-ethers";
+
+import {
+  batchProposal,
+  decodeMultiSend,
+  encodeMultiSendTransaction,
+  loadRevealBundle,
+  parseProposal,
+  SecretDelayClient,
+} from "../src/sdk";
+
+import { increaseBlockTime, setupModifier } from "./utils";
+
+const FirstAddress = "0x0000000000000000000000000000000000000001";
+const SecondAddress = "0x0000000000000000000000000000000000000002";
+
+describe("MultiSend proposals", async () => {
+  const cooldown = 100;
+  const testUri = "ipfsHash";
+  const proposal = parseProposal({
+    id: "proposal",
+    txs: [
+      { to: FirstAddress, value: "42", data: "0x", operation: 0 },
+      { to: SecondAddress, value: "43", data: "0x", operation: 0 },
+    ],
+  });
+
+  const setupMultiSend = async () => {
+    const { avatar, modifier } = await setupModifier({ cooldown });
+    const MultiSend = await hre.ethers.getContractFactory("MultiSend");
+    const multiSend = await MultiSend.deploy();
+    const TestContract = await hre.ethers.getContractFactory("TestContract");
+    const testContract = await TestContract.deploy();
+    return { avatar, modifier, multiSend, testContract };
+  };
+
+  const waitForCooldown = async () => {
+    await increaseBlockTime(hre, cooldown);
+    await hre.network.provider.send("evm_mine");
+  };
+
+  it("decodeMultiSend() returns the batched transactions", async () => {
+    const { data } = encodeMultiSendTransaction(proposal.txs, FirstAddress);
+
+    expect(decodeMultiSend(data)).to.deep.equal(proposal.txs);
+  });
+
+  it("executes all transactions of a batch in one queue slot", async () => {
+    const { modifier, multiSend } = await setupMultiSend();
+    const client = new SecretDelayClient(modifier);
+    const [batch] = batchProposal(proposal, multiSend.address).txs;
+    const { salt } = await client.enqueueSecret(batch, testUri);
+    await waitForCooldown();
+
+    await client.executeNextSecret(batch, salt);
+
+    expect(await modifier.txNonce()).to.equal(1);
+    expect(await ethers.provider.getBalance(FirstAddress)).to.equal(42);
+    expect(await ethers.provider.getBalance(SecondAddress)).to.equal(43);
+  });
+
+  it("reverts all transactions of a batch if one of them fails", async () => {
+    const {
+      avatar,
+      modifier,
+      multiSend,
+      testContract,
+    } = await setupMultiSend();
+    const client = new SecretDelayClient(modifier);
+    // The avatar does not own the test contract, so pushing the button reverts.
+    const batch = encodeMultiSendTransaction(
+      [
+        proposal.txs[0],
+        {
+          to: testContract.address,
+          value: 0,
+          data: testContract.interface.encodeFunctionData("pushButton"),
+          operation: 0,
+        },
+      ],
+      multiSend.address
+    );
+    const { salt } = await client.enqueueSecret(batch, testUri);
+    await waitForCooldown();
+
+    await expect(
+      modifier.executeNextSecretTx(
+        batch.to,
+        batch.value,
+        batch.data,
+        batch.operation,
+        salt
+      )
+    ).to.be.revertedWith("Module transaction failed");
+
+    expect(await modifier.txNonce()).to.equal(0);
+    expect(await ethers.provider.getBalance(avatar.address)).to.equal(1000);
+    expect(await ethers.provider.getBalance(FirstAddress)).to.equal(0);
+  });
+
+  describe("tasks", async () => {
+    const writeProposal = () => {
+      const dir = fs.mkdtempSync(path.join(os.tmpdir(), "secret-delay-"));
+      const file = path.join(dir, "proposal.json");
+      fs.writeFileSync(
+        file,
+        JSON.stringify({
+          id: proposal.id,
+          txs: proposal.txs.map((tx) => ({
+            ...tx,
+            value: BigNumber.from(tx.value).toString(),
+          })),
+        })
+      );
+      return file;
+    };
+
+    it("enqueueSecret commits a batch that revealAndExecute executes", async () => {
+      const { modifier, multiSend } = await setupMultiSend();
+      const file = writeProposal();
+
+      await hre.run("enqueueSecret", {
+        modifier: modifier.address,
+        proposal: file,
+        uri: testUri,
+        multisend: multiSend.address,
+      });
+      const bundle = file.replace(/\.json$/, ".reveal.json");
+      await waitForCooldown();
+      await hre.run("revealAndExecute", { bundle });
+
+      expect(loadRevealBundle(bundle).proposal.txs).to.have.lengthOf(1);
+      expect(await modifier.queuePointer()).to.equal(1);
+      expect(await modifier.txNonce()).to.equal(1);
+      expect(await ethers.provider.getBalance(SecondAddress)).to.equal(43);
+    });
+
+    it("revealAndExecute batches a proposal file", async () => {
+      const { modifier, multiSend } = await setupMultiSend();
+      const file = writeProposal();
+      await hre.run("enqueueSecret", {
+        modifier: modifier.address,
+        proposal: file,
+        uri: testUri,
+        multisend: multiSend.address,
+      });
+      await waitForCooldown();
+
+      await hre.run("revealAndExecute", {
+        modifier: modifier.address,
+        proposal: file,
+        multisend: multiSend.address,
+      });
+
+      expect(await modifier.txNonce()).to.equal(1);
+    });
+
+    it("enqueueSecret throws if there is no contract at the MultiSend address", async () => {
+      const { modifier } = await setupMultiSend();
+
+      const error = await hre
+        .run("enqueueSecret", {
+          modifier: modifier.address,
+          proposal: writeProposal(),
+          uri: testUri,
+          multisend: FirstAddress,
+        })
+        .catch((e: Error) => e);
+
+      expect(error.message).to.equal(
+        `There is no MultiSend contract at ${FirstAddress}`
+      );
+    });
+  });
+});
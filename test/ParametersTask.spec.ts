@@ -0,0 +1,113 @@
+import { expect } from "chai";
+import hre, { ethers } from "hardhat";
+import "@nomiclabs/hardhat-ethers";
+
+import { Parameter } from "../src/sdk";
+
+import { increaseBlockTime, setupModifier } from "./utils";
+
+describe("parameters task", async () => {
+  const cooldown = 100;
+  const expiration = 180;
+  const minCooldown = 60;
+
+  // The task runs with the first account, which is not the owner of the modifier.
+  const setupParameters = async () => {
+    const [user] = await ethers.getSigners();
+    const { owner, modifier } = await setupModifier({
+      cooldown,
+      expiration,
+      minCooldown,
+      ownerIndex: 1,
+      module: false,
+    });
+    return { user, owner, modifier };
+  };
+
+  it("lists the current values and the pending changes", async () => {
+    const { owner, modifier } = await setupParameters();
+    await modifier.connect(owner).setTxExpiration(0);
+
+    const state = await hre.run("parameters", { modifier: modifier.address });
+
+    expect(state).to.deep.include({
+      txCooldown: cooldown,
+      txExpiration: expiration,
+      minCooldown,
+    });
+    expect(
+      state.pending.map(({ parameter, value }: any) => [parameter, value])
+    ).to.deep.equal([[Parameter.TxExpiration, 0]]);
+  });
+
+  it("returns the calls for the owner if the caller is not the owner", async () => {
+    const { modifier } = await setupParameters();
+
+    const txs = await hre.run("parameters", {
+      modifier: modifier.address,
+      cooldown: 200,
+      expiration: 400,
+    });
+
+    expect(txs).to.deep.equal([
+      {
+        to: modifier.address,
+        data: modifier.interface.encodeFunctionData("setTxCooldown", [200]),
+      },
+      {
+        to: modifier.address,
+        data: modifier.interface.encodeFunctionData("setTxExpiration", [400]),
+      },
+    ]);
+  });
+
+  it("schedules and finalizes changes as the owner", async () => {
+    const { user, owner, modifier } = await setupParameters();
+    await modifier.connect(owner).transferOwnership(user.address);
+
+    await hre.run("parameters", { modifier: modifier.address, cooldown: 200 });
+    const early = await hre
+      .run("parameters", { modifier: modifier.address, finalize: true })
+      .catch((e: Error) => e);
+    await increaseBlockTime(hre, cooldown);
+    await hre.network.provider.send("evm_mine");
+    const [finalized] = await hre.run("parameters", {
+      modifier: modifier.address,
+      finalize: true,
+    });
+
+    expect(early.message).to.equal(
+      `No parameter change of ${modifier.address} is due`
+    );
+    expect(finalized.value).to.equal(200);
+    expect(await modifier.txCooldown()).to.equal(200);
+  });
+
+  it("cancels a change as a guardian", async () => {
+    const { user, owner, modifier } = await setupParameters();
+    await modifier.connect(owner).setTxCooldown(minCooldown);
+    await modifier.connect(owner).addGuardian(user.address);
+
+    const [cancelled] = await hre.run("parameters", {
+      modifier: modifier.address,
+      cancel: "cooldown",
+    });
+
+    expect(cancelled).to.deep.include({ value: minCooldown, applied: false });
+    expect((await modifier.pendingChanges(Parameter.TxCooldown)).eta).to.equal(
+      0
+    );
+  });
+
+  it("throws on an unknown parameter", async () => {
+    const { modifier } = await setupParameters();
+
+    const error = await hre
+      .run("parameters", { modifier: modifier.address, cancel: "salt" })
+      .catch((e: Error) => e);
+
+    expect(error.message).to.equal(
+      "Unknown parameter salt, use cooldown or expiration"
+    );
+  });
+});
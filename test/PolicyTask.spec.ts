@@ -0,0 +1,118 @@
+import { expect } from "chai";
+import hre, { ethers } from "hardhat";
+import "@nomiclabs/hardhat-ethers";
+
+import { increaseBlockTime, setupModifier } from "./utils";
+
+const FirstAddress = "0x0000000000000000000000000000000000000001";
+
+describe("policy task", async () => {
+  // The task runs with the first account, which is not the owner of the modifier.
+  const setupPolicy = async () => {
+    const [user] = await ethers.getSigners();
+    const { owner, modifier } = await setupModifier({
+      expiration: 180,
+      ownerIndex: 1,
+      module: false,
+    });
+    return { user, owner, modifier };
+  };
+
+  it("lists the policies", async () => {
+    const { owner, modifier } = await setupPolicy();
+    await modifier.connect(owner).setTargetPolicy(FirstAddress, 200, 0);
+    await modifier.connect(owner).setSecretPolicy(300, 240);
+
+    const rules = await hre.run("policy", { modifier: modifier.address });
+
+    expect(rules).to.deep.equal([
+      { scope: "target", key: FirstAddress, cooldown: 200, expiration: 0 },
+      { scope: "secret", key: undefined, cooldown: 300, expiration: 240 },
+    ]);
+  });
+
+  it("returns the call for the owner if the caller is not the owner", async () => {
+    const { modifier } = await setupPolicy();
+
+    const tx = await hre.run("policy", {
+      modifier: modifier.address,
+      selector: "upgradeTo(address)",
+      cooldown: 200,
+    });
+
+    expect(tx).to.deep.equal({
+      to: modifier.address,
+      data: modifier.interface.encodeFunctionData("setSelectorPolicy", [
+        "0x3659cfe6",
+        200,
+        0,
+      ]),
+    });
+  });
+
+  it("sets and removes policies as the owner", async () => {
+    const { user, owner, modifier } = await setupPolicy();
+    await modifier.connect(owner).transferOwnership(user.address);
+    const removal = {
+      modifier: modifier.address,
+      selector: "0x3659cfe6",
+      remove: true,
+    };
+
+    await hre.run("policy", {
+      modifier: modifier.address,
+      selector: "0x3659cfe6",
+      cooldown: 200,
+      expiration: 240,
+    });
+    const policy = await modifier.selectorPolicies("0x3659cfe6");
+    // Lowers the cooldown back to 100 seconds, so it is only applied once that cooldown has passed.
+    const scheduled = await hre.run("policy", removal);
+    await increaseBlockTime(hre, 100);
+    const removed = await hre.run("policy", removal);
+
+    expect(policy.cooldown).to.equal(200);
+    expect(policy.expiration).to.equal(240);
+    expect(scheduled.scheduled.changeHash).to.equal(
+      ethers.utils.keccak256(
+        modifier.interface.encodeFunctionData("removeSelectorPolicy", [
+          "0x3659cfe6",
+        ])
+      )
+    );
+    expect(removed.scheduled).to.equal(undefined);
+    expect((await modifier.selectorPolicies("0x3659cfe6")).enabled).to.equal(
+      false
+    );
+  });
+
+  it("cancels a scheduled change", async () => {
+    const { user, owner, modifier } = await setupPolicy();
+    await modifier.connect(owner).setSecretPolicy(200, 0);
+    await modifier.connect(owner).removeSecretPolicy();
+    const changeHash = ethers.utils.keccak256(
+      modifier.interface.encodeFunctionData("removeSecretPolicy")
+    );
+    await modifier.connect(owner).addGuardian(user.address);
+
+    const cancelled = await hre.run("policy", {
+      modifier: modifier.address,
+      cancel: changeHash,
+    });
+
+    expect(cancelled.changeHash).to.equal(changeHash);
+    expect(await modifier.pendingPolicyChanges(changeHash)).to.equal(0);
+  });
+
+  it("throws if no cooldown is given", async () => {
+    const { modifier } = await setupPolicy();
+
+    const error = await hre
+      .run("policy", { modifier: modifier.address, secret: true })
+      .catch((e: Error) => e);
+
+    expect(error.message).to.equal(
+      "Pass the --cooldown of the policy, or --remove"
+    );
+  });
+});
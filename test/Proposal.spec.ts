@@ -0,0 +1,102 @@
+import { expect } from "chai";
+import { BigNumber } from "ethers";
+
+import { loadProposal, parseProposal, validateProposal } from "../src/sdk";
+
+const validTx = {
+  to: "0x05c85Ab5B09Eb8A55020d72daf6091E04e264af9",
+  value: "42",
+  data: "0x",
+  operation: 0,
+};
+
+describe("Proposal", async () => {
+  describe("loadProposal()", async () => {
+    it("loads the sample proposal", async () => {
+      const proposal = loadProposal("sample_proposal.json");
+
+      expect(proposal.id).to.equal(
+        "QmbSBUenuoRYYoMQ4NxmkVz3nBwfMwo3pdrBzZXR123toh"
+      );
+      expect(proposal.txs).to.have.length(1);
+      expect(proposal.txs[0].value).to.equal(42);
+    });
+
+    it("throws if the file can not be read", async () => {
+      expect(() => loadProposal("missing_proposal.json")).to.throw(
+        "Could not read proposal missing_proposal.json"
+      );
+    });
+  });
+
+  describe("parseProposal()", async () => {
+    it("accepts hex values", async () => {
+      const proposal = parseProposal({
+        id: "proposal",
+        txs: [{ ...validTx, value: "0x2a" }],
+      });
+
+      expect(proposal.txs[0].value).to.equal(BigNumber.from(42));
+    });
+
+    it("checksums addresses", async () => {
+      const proposal = parseProposal({
+        id: "proposal",
+        txs: [{ ...validTx, to: validTx.to.toLowerCase() }],
+      });
+
+      expect(proposal.txs[0].to).to.equal(validTx.to);
+    });
+
+    it("throws with every invalid field", async () => {
+      expect(() =>
+        parseProposal({
+          id: "proposal",
+          txs: [
+            validTx,
+            { to: "0x1234", value: 42, data: "0x1", operation: 2 },
+          ],
+        })
+      ).to.throw(
+        [
+          "Invalid proposal:",
+          '  txs[1].to: must be an address, got "0x1234"',
+          "  txs[1].value: must be a decimal or 0x-prefixed hex string, got 42",
+          '  txs[1].data: must be a 0x-prefixed hex string of whole bytes, got "0x1"',
+          "  txs[1].operation: must be 0 (call) or 1 (delegate call), got 2",
+        ].join("\n")
+      );
+    });
+  });
+
+  describe("validateProposal()", async () => {
+    it("returns no errors for a valid proposal", async () => {
+      expect(validateProposal({ id: "proposal", txs: [validTx] })).to.be.empty;
+    });
+
+    it("requires an id and transactions", async () => {
+      expect(validateProposal({ txs: [] })).to.deep.equal([
+        "id: must be a non-empty string, got undefined",
+        "txs: must be a non-empty array",
+      ]);
+    });
+
+    it("rejects addresses with an invalid checksum", async () => {
+      expect(
+        validateProposal({
+          id: "proposal",
+          txs: [{ ...validTx, to: validTx.to.replace("c", "C") }],
+        })
+      ).to.have.length(1);
+    });
+
+    it("rejects values that do not fit into uint256", async () => {
+      expect(
+        validateProposal({
+          id: "proposal",
+          txs: [{ ...validTx, value: "0x1" + "0".repeat(64) }],
+        })
+      ).to.deep.equal(["txs[0].value: does not fit into uint256"]);
+    });
+  });
+});
@@ -0,0 +1,117 @@
+import { expect } from "chai";
+import hre from "hardhat";
+import "@nomiclabs/hardhat-ethers";
+
+import { getSecretTransactionHash, Operation } from "../src/sdk";
+
+import { setupModifier } from "./utils";
+
+const FirstAddress = "0x0000000000000000000000000000000000000001";
+
+describe("queue task", async () => {
+  const cooldown = 100;
+  const expiration = 180;
+  const testUri = "ipfsHash";
+  const transfer = {
+    to: FirstAddress,
+    value: 42,
+    data: "0x",
+    operation: Operation.Call,
+  };
+
+  const setupQueue = async () => {
+    const { modifier } = await setupModifier({ cooldown, expiration });
+    // vetoed below
+    await modifier.execTransactionFromModule(FirstAddress, 0, "0x", 0);
+    await modifier.execTransactionFromModule(FirstAddress, 42, "0x", 0);
+    await modifier.enqueueSecretTx(
+      getSecretTransactionHash(transfer, 0),
+      testUri
+    );
+    await modifier.vetoTransactionsTill(1);
+    await modifier.approveNext(1);
+    return { modifier };
+  };
+
+  it("lists the entries from txNonce to queuePointer", async () => {
+    const { modifier } = await setupQueue();
+
+    const state = await hre.run("queue", {
+      modifier: modifier.address,
+      format: "json",
+    });
+
+    expect(state.txNonce).to.equal(1);
+    expect(state.queuePointer).to.equal(3);
+    expect(state.approved).to.equal(1);
+    expect(state.entries.map(({ nonce }: any) => nonce)).to.deep.equal([1, 2]);
+  });
+
+  it("shows public entries with their transaction", async () => {
+    const { modifier } = await setupQueue();
+
+    const {
+      entries: [entry],
+    } = await hre.run("queue", { modifier: modifier.address, format: "json" });
+
+    const createdAt = (await modifier.txCreatedAt(1)).toNumber();
+    expect(entry).to.deep.include({
+      type: "public",
+      txHash: await modifier.txHash(1),
+      createdAt,
+      cooldownEndsAt: createdAt + cooldown,
+      expiresAt: createdAt + cooldown + expiration,
+      approved: true,
+      to: FirstAddress,
+      value: "42",
+      data: "0x",
+      operation: 0,
+    });
+  });
+
+  it("shows secret entries with their salt and uri", async () => {
+    const { modifier } = await setupQueue();
+
+    const {
+      entries: [, entry],
+    } = await hre.run("queue", { modifier: modifier.address, format: "json" });
+
+    expect(entry).to.deep.include({
+      type: "secret",
+      txHash: getSecretTransactionHash(transfer, 0),
+      approved: false,
+      salt: "0",
+      uri: testUri,
+    });
+  });
+
+  it("shows cancelled entries", async () => {
+    const { modifier } = await setupQueue();
+    await modifier.cancelTransaction(2);
+
+    const {
+      entries: [first, second],
+    } = await hre.run("queue", { modifier: modifier.address, format: "json" });
+
+    expect(first.cancelled).to.equal(false);
+    expect(second.cancelled).to.equal(true);
+  });
+
+  it("prints a table", async () => {
+    const { modifier } = await setupQueue();
+
+    const state = await hre.run("queue", { modifier: modifier.address });
+
+    expect(state.entries).to.have.length(2);
+  });
+
+  it("throws on an unknown format", async () => {
+    const { modifier } = await setupQueue();
+
+    const error = await hre
+      .run("queue", { modifier: modifier.address, format: "xml" })
+      .catch((e: Error) => e);
+
+    expect(error.message).to.equal("Unknown format xml, use table or json");
+  });
+});
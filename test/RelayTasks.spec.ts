@@ -0,0 +1,152 @@
+import fs from "fs";
+import os from "os";
+import path from "path";
+
+import { expect } from "chai";
+import hre, { ethers } from "hardhat";
+import "@nomiclabs/hardhat-ethers";
+
+import { loadRelayRequest, loadRevealBundle } from "../src/sdk";
+
+import { increaseBlockTime, setupModifier } from "./utils";
+
+const FirstAddress = "0x0000000000000000000000000000000000000001";
+
+describe("Relay tasks", async () => {
+  const cooldown = 100;
+  const testUri = "ipfsHash";
+  const proposal = {
+    id: "proposal",
+    txs: [
+      { to: FirstAddress, value: "42", data: "0x", operation: 0 },
+      { to: FirstAddress, value: "42", data: "0x", operation: 0 },
+    ],
+  };
+
+  const writeProposal = () => {
+    const dir = fs.mkdtempSync(path.join(os.tmpdir(), "secret-delay-"));
+    const file = path.join(dir, "proposal.json");
+    fs.writeFileSync(file, JSON.stringify(proposal));
+    return file;
+  };
+
+  describe("signSecret", async () => {
+    it("throws if the caller is not an allowed signer", async () => {
+      const { modifier } = await setupModifier({ cooldown, module: false });
+
+      const error = await hre
+        .run("signSecret", {
+          modifier: modifier.address,
+          proposal: writeProposal(),
+          uri: testUri,
+        })
+        .catch((e: Error) => e);
+
+      expect(error.message).to.contain("is not an allowed signer");
+    });
+
+    it("writes a relay request without the salts", async () => {
+      const { modifier } = await setupModifier({ cooldown, module: false });
+      const [user] = await ethers.getSigners();
+      await modifier.setSigner(user.address, true);
+      const file = writeProposal();
+
+      await hre.run("signSecret", {
+        modifier: modifier.address,
+        proposal: file,
+        uri: testUri,
+      });
+
+      const request = loadRelayRequest(file.replace(/\.json$/, ".relay.json"));
+      const bundle = loadRevealBundle(file.replace(/\.json$/, ".reveal.json"));
+      expect(request.signer).to.equal(user.address);
+      expect(
+        request.entries.map(({ message }) => message.nonce)
+      ).to.deep.equal([0, 1]);
+      expect(
+        request.entries.map(({ message }) => message.txHash)
+      ).to.deep.equal(bundle.entries.map(({ txHash }) => txHash));
+      // Both transactions are the same, only their private salts tell them apart.
+      expect(bundle.entries[0].txHash).to.not.equal(bundle.entries[1].txHash);
+      expect(JSON.stringify(request)).to.not.contain(
+        bundle.entries[0].salt.toHexString().slice(2)
+      );
+    });
+  });
+
+  describe("relay", async () => {
+    it("enqueues the signed transactions without an enabled module", async () => {
+      const { modifier } = await setupModifier({ cooldown, module: false });
+      const [user] = await ethers.getSigners();
+      await modifier.setSigner(user.address, true);
+      const file = writeProposal();
+      await hre.run("signSecret", {
+        modifier: modifier.address,
+        proposal: file,
+        uri: testUri,
+      });
+      const requestPath = file.replace(/\.json$/, ".relay.json");
+      const request = loadRelayRequest(requestPath);
+
+      const relayed = await hre.run("relay", { request: requestPath });
+
+      expect(relayed).to.have.length(2);
+      expect(await modifier.isModuleEnabled(user.address)).to.equal(false);
+      expect(await modifier.txHash(1)).to.equal(
+        request.entries[1].message.txHash
+      );
+      await increaseBlockTime(hre, cooldown);
+      await hre.network.provider.send("evm_mine");
+      await hre.run("revealAndExecute", {
+        bundle: file.replace(/\.json$/, ".reveal.json"),
+      });
+      expect(await ethers.provider.getBalance(FirstAddress)).to.equal(84);
+    });
+
+    it("throws if the request was relayed before", async () => {
+      const { modifier } = await setupModifier({ cooldown, module: false });
+      const [user] = await ethers.getSigners();
+      await modifier.setSigner(user.address, true);
+      const file = writeProposal();
+      await hre.run("signSecret", {
+        modifier: modifier.address,
+        proposal: file,
+        uri: testUri,
+      });
+      const requestPath = file.replace(/\.json$/, ".relay.json");
+      await hre.run("relay", { request: requestPath });
+
+      const error = await hre
+        .run("relay", { request: requestPath })
+        .catch((e: Error) => e);
+
+      expect(error.message).to.contain("Invalid signature");
+    });
+
+    it("rejects a request with a changed message", async () => {
+      const { modifier } = await setupModifier({ cooldown, module: false });
+      const [user] = await ethers.getSigners();
+      await modifier.setSigner(user.address, true);
+      const file = writeProposal();
+      await hre.run("signSecret", {
+        modifier: modifier.address,
+        proposal: file,
+        uri: testUri,
+      });
+      const requestPath = file.replace(/\.json$/, ".relay.json");
+      const request = JSON.parse(fs.readFileSync(requestPath, "utf8"));
+      request.entries[1].message.uri = "otherUri";
+      fs.writeFileSync(requestPath, JSON.stringify(request));
+
+      const error = await hre
+        .run("relay", { request: requestPath })
+        .catch((e: Error) => e);
+
+      expect(error.message).to.match(
+        new RegExp(
+          `entries\\[1\\] was signed by 0x[0-9a-fA-F]{40}, not by ${user.address}$`
+        )
+      );
+    });
+  });
+});
@@ -4,6 +4,10 @@ import { Contract, PopulatedTransaction, Transaction } from "ethers";
 import "@nomiclabs/hardhat-ethers";
 import { SignerWithAddress } from "@nomiclabs/hardhat-ethers/dist/src/signer-with-address";
 
+import { Parameter, signEnqueueSecret } from "../src/sdk";
+
+import { logGas } from "./utils";
+
 const setupTestContract = async (address: string) => {
   const TestContract = await ethers.getContractFactory("TestContract");
   const testContract = await TestContract.deploy();
@@ -35,7 +39,8 @@ describe("SecretDelay", async () => {
       base.avatar.address,
       base.avatar.address,
       0,
-      "0x1337"
+      "0x1337",
+      0
     );
     return { ...base, Modifier, modifier };
   });
@@ -46,27 +51,34 @@ describe("SecretDelay", async () => {
     it("throws if not enough time between txCooldown and txExpiration", async () => {
       const Module = await hre.ethers.getContractFactory("SecretDelay");
       await expect(
-        Module.deploy(ZeroAddress, FirstAddress, FirstAddress, 1, 59)
+        Module.deploy(ZeroAddress, FirstAddress, FirstAddress, 1, 59, 0)
       ).to.be.revertedWith("Expiratition must be 0 or at least 60 seconds");
     });
 
     it("throws if avatar is zero address", async () => {
       const Module = await hre.ethers.getContractFactory("SecretDelay");
       await expect(
-        Module.deploy(ZeroAddress, ZeroAddress, FirstAddress, 1, 0)
+        Module.deploy(ZeroAddress, ZeroAddress, FirstAddress, 1, 0, 0)
       ).to.be.revertedWith("Avatar can not be zero address");
     });
 
     it("throws if target is zero address", async () => {
       const Module = await hre.ethers.getContractFactory("SecretDelay");
       await expect(
-        Module.deploy(ZeroAddress, FirstAddress, ZeroAddress, 1, 0)
+        Module.deploy(ZeroAddress, FirstAddress, ZeroAddress, 1, 0, 0)
       ).to.be.revertedWith("Target can not be zero address");
     });
 
+    it("throws if cooldown is below the minimum cooldown", async () => {
+      const Module = await hre.ethers.getContractFactory("SecretDelay");
+      await expect(
+        Module.deploy(ZeroAddress, FirstAddress, FirstAddress, 59, 0, 60)
+      ).to.be.revertedWith("Cooldown can not be below the minimum cooldown");
+    });
+
     it("txExpiration can be 0", async () => {
       const Module = await hre.ethers.getContractFactory("SecretDelay");
-      await Module.deploy(user1.address, user1.address, user1.address, 1, 0);
+      await Module.deploy(user1.address, user1.address, user1.address, 1, 0, 0);
     });
 
     it("should emit event because of successful set up", async () => {
@@ -76,6 +88,7 @@ describe("SecretDelay", async () => {
         user1.address,
         user1.address,
         1,
+        0,
         0
       );
       await module.deployed();
@@ -271,505 +284,1964 @@ describe("SecretDelay", async () => {
     });
   });
 
-  describe("setTxCooldown()", async () => {
+  describe("enqueueSecretTxBatch()", async () => {
+    let avatar: Contract, modifier: Contract;
+    const hashes = [1, 2, 3, 4, 5].map((i) =>
+      ethers.utils.hexZeroPad(ethers.utils.hexlify(i), 32)
+    );
+    const uris = hashes.map((_, i) => `ipfsHash${i}`);
+
+    beforeEach("setup contracts", async () => {
+      ({ avatar, modifier } = await setupTestWithTestAvatar());
+    });
+
+    const enableModule = async () => {
+      const tx = await modifier.populateTransaction.enableModule(user1.address);
+      await avatar.exec(modifier.address, 0, tx.data);
+    };
+
+    it("throws if not authorized", async () => {
+      await expect(
+        modifier.enqueueSecretTxBatch(hashes, uris)
+      ).to.be.revertedWith("Module not authorized");
+    });
+
+    it("throws if the batch is empty", async () => {
+      await enableModule();
+
+      await expect(modifier.enqueueSecretTxBatch([], [])).to.be.revertedWith(
+        "Batch must not be empty"
+      );
+    });
+
+    it("throws if there is not one uri per hash", async () => {
+      await enableModule();
+
+      await expect(
+        modifier.enqueueSecretTxBatch(hashes, uris.slice(1))
+      ).to.be.revertedWith("Batch must have one uri per hash");
+    });
+
+    it("adds the hashes to consecutive slots with consecutive salts", async () => {
+      await enableModule();
+      await modifier.enqueueSecretTx(hashes[0], uris[0]);
+
+      const tx = await modifier.enqueueSecretTxBatch(hashes, uris);
+
+      const block = await ethers.provider.getBlock("latest");
+      for (let i = 0; i < hashes.length; i++) {
+        await expect(tx)
+          .to.emit(modifier, "SecretTransactionAdded")
+          .withArgs(i + 1, hashes[i], uris[i], i + 1);
+        expect(await modifier.getTxHash(i + 1)).to.equal(hashes[i]);
+        expect(await modifier.getTxCreatedAt(i + 1)).to.equal(block.timestamp);
+      }
+      expect(await modifier.queuePointer()).to.equal(hashes.length + 1);
+      expect(await modifier.salt()).to.equal(hashes.length + 1);
+    });
+
+    it("uses less gas than one enqueueSecretTx per hash", async () => {
+      await enableModule();
+      // Warm up the queue, so both variants write to storage slots in the same state.
+      await modifier.enqueueSecretTx(hashes[0], uris[0]);
+      let separateGas = ethers.BigNumber.from(0);
+      for (let i = 0; i < hashes.length; i++) {
+        const tx = await logGas(
+          `enqueueSecretTx ${i + 1} of ${hashes.length}`,
+          modifier.enqueueSecretTx(hashes[i], uris[i])
+        );
+        separateGas = separateGas.add((await tx.wait()).gasUsed);
+      }
+
+      const batch = await logGas(
+        `enqueueSecretTxBatch of ${hashes.length}`,
+        modifier.enqueueSecretTxBatch(hashes, uris)
+      );
+
+      expect((await batch.wait()).gasUsed.lt(separateGas)).to.equal(true);
+    });
+  });
+
+  describe("setSigner()", async () => {
     it("throws if not authorized", async () => {
       const { modifier } = await setupTestWithTestAvatar();
-      await expect(modifier.setTxCooldown(42)).to.be.revertedWith(
+      await expect(modifier.setSigner(user1.address, true)).to.be.revertedWith(
         "Ownable: caller is not the owner"
       );
     });
 
-    it("sets cooldown", async () => {
+    it("allows and disallows a signer", async () => {
       const { avatar, modifier } = await setupTestWithTestAvatar();
-      const tx = await modifier.populateTransaction.setTxCooldown(43);
-      let cooldown = await modifier.txCooldown();
+      const allow = await modifier.populateTransaction.setSigner(
+        user2.address,
+        true
+      );
+      await expect(avatar.exec(modifier.address, 0, allow.data))
+        .to.emit(modifier, "SignerSet")
+        .withArgs(user2.address, true);
+      expect(await modifier.signers(user2.address)).to.equal(true);
 
-      await expect(cooldown._hex).to.be.equals("0x00");
-      await avatar.exec(modifier.address, 0, tx.data);
-      cooldown = await modifier.txCooldown();
-      await expect(cooldown._hex).to.be.equals("0x2b");
+      const disallow = await modifier.populateTransaction.setSigner(
+        user2.address,
+        false
+      );
+      await avatar.exec(modifier.address, 0, disallow.data);
+      expect(await modifier.signers(user2.address)).to.equal(false);
     });
   });
 
-  describe("setTxExpiration()", async () => {
+  describe("addGuardian()", async () => {
     it("throws if not authorized", async () => {
       const { modifier } = await setupTestWithTestAvatar();
-      await expect(modifier.setTxExpiration(42)).to.be.revertedWith(
+      await expect(modifier.addGuardian(user1.address)).to.be.revertedWith(
         "Ownable: caller is not the owner"
       );
     });
 
-    it("thows if expiration is less than 60 seconds.", async () => {
+    it("throws if guardian is zero address", async () => {
       const { avatar, modifier } = await setupTestWithTestAvatar();
-      const tx = await modifier.populateTransaction.setTxExpiration(59);
-
+      const add = await modifier.populateTransaction.addGuardian(ZeroAddress);
       await expect(
-        avatar.exec(modifier.address, 0, tx.data)
-      ).to.be.revertedWith("Expiratition must be 0 or at least 60 seconds");
+        avatar.exec(modifier.address, 0, add.data)
+      ).to.be.revertedWith("Guardian can not be zero address");
     });
 
-    it("sets expiration", async () => {
+    it("adds a guardian", async () => {
       const { avatar, modifier } = await setupTestWithTestAvatar();
-      const tx = await modifier.populateTransaction.setTxExpiration("0x031337");
-      let expiration = await modifier.txExpiration();
+      const add = await modifier.populateTransaction.addGuardian(user2.address);
+      await expect(avatar.exec(modifier.address, 0, add.data))
+        .to.emit(modifier, "GuardianAdded")
+        .withArgs(user2.address);
+      expect(await modifier.guardians(user2.address)).to.equal(true);
 
-      await expect(expiration._hex).to.be.equals("0x1337");
-      await avatar.exec(modifier.address, 0, tx.data);
-      expiration = await modifier.txExpiration();
-      await expect(expiration._hex).to.be.equals("0x031337");
+      await expect(
+        avatar.exec(modifier.address, 0, add.data)
+      ).to.be.revertedWith("Guardian already added");
     });
   });
 
-  describe("vetoTransactionsTill()", async () => {
+  describe("removeGuardian()", async () => {
     it("throws if not authorized", async () => {
       const { modifier } = await setupTestWithTestAvatar();
-      await expect(modifier.vetoTransactionsTill(42)).to.be.revertedWith(
+      await expect(modifier.removeGuardian(user1.address)).to.be.revertedWith(
         "Ownable: caller is not the owner"
       );
     });
 
-    it("reverts when trying to veto zero transcations", async () => {
+    it("throws if the address is not a guardian", async () => {
       const { avatar, modifier } = await setupTestWithTestAvatar();
-      const tx2 = await modifier.populateTransaction.vetoTransactionsTill(0);
-
+      const remove = await modifier.populateTransaction.removeGuardian(
+        user2.address
+      );
       await expect(
-        avatar.exec(modifier.address, 0, tx2.data)
-      ).to.be.revertedWith("New nonce must be higher than current txNonce");
+        avatar.exec(modifier.address, 0, remove.data)
+      ).to.be.revertedWith("Guardian not added");
     });
 
-    it("thows if nonce is more than queuePointer + 1.", async () => {
-      // queue index starts from 0
-      const transactionsInQueue = 3;
-      const newTxNonce = transactionsInQueue + 1;
+    it("removes a guardian, who can not veto anymore", async () => {
       const { avatar, modifier } = await setupTestWithTestAvatar();
-      const tx = await modifier.populateTransaction.enableModule(user1.address);
-
-      // add a user as a module to simulate transactions coming from BAC
-      await avatar.exec(modifier.address, 0, tx.data);
-
-      // enqueues two proposal
-      for (let i = 0; i < transactionsInQueue; i++) {
-        await modifier.execTransactionFromModule(user1.address, 0, "0x", 0);
-      }
-
-      // generate transaction data to veto transactions more than transactions in queue
-      // queue index starts from 0
-      const tx2 = await modifier.populateTransaction.vetoTransactionsTill(
-        newTxNonce
+      await avatar.exec(
+        modifier.address,
+        0,
+        (await modifier.populateTransaction.enableModule(user1.address)).data
+      );
+      await avatar.exec(
+        modifier.address,
+        0,
+        (await modifier.populateTransaction.addGuardian(user2.address)).data
+      );
+      await modifier.execTransactionFromModule(user1.address, 0, "0x", 0);
+      const remove = await modifier.populateTransaction.removeGuardian(
+        user2.address
       );
 
+      await expect(avatar.exec(modifier.address, 0, remove.data))
+        .to.emit(modifier, "GuardianRemoved")
+        .withArgs(user2.address);
+      expect(await modifier.guardians(user2.address)).to.equal(false);
       await expect(
-        avatar.exec(modifier.address, 0, tx2.data)
-      ).to.be.revertedWith("Cannot be higher than queuePointer");
+        modifier.connect(user2).vetoTransactionsTill(1)
+      ).to.be.revertedWith("Caller is not the owner or a guardian");
     });
+  });
 
-    it("Vetos transaction", async () => {
-      const transactionsInQueue = 3;
-      const newTxNonce = transactionsInQueue;
-      const { avatar, modifier } = await setupTestWithTestAvatar();
-      const tx = await modifier.populateTransaction.enableModule(user1.address);
-      let txNonce = await modifier.txNonce();
-
-      expect(txNonce._hex).to.be.equals("0x00");
+  describe("enqueueSecretTxWithSignature()", async () => {
+    let avatar: Contract, modifier: Contract, deadline: number;
+    const testUri = "ipfsHash";
+    const hashedTx = ethers.utils.id("transaction");
 
+    beforeEach("setup contracts", async () => {
+      ({ avatar, modifier } = await setupTestWithTestAvatar());
+      const tx = await modifier.populateTransaction.setSigner(
+        user2.address,
+        true
+      );
       await avatar.exec(modifier.address, 0, tx.data);
+      deadline = (await ethers.provider.getBlock("latest")).timestamp + 1000;
+    });
 
-      for (let i = 0; i < transactionsInQueue; i++) {
-        await modifier.execTransactionFromModule(user1.address, 0, "0x", 0);
-      }
+    const sign = async (signer = user2, nonce = 0, txHash = hashedTx) =>
+      signEnqueueSecret(
+        signer,
+        {
+          chainId: (await ethers.provider.getNetwork()).chainId,
+          verifyingContract: modifier.address,
+        },
+        { txHash, uri: testUri, nonce, deadline }
+      );
 
-      const tx2 = await modifier.populateTransaction.vetoTransactionsTill(
-        newTxNonce
+    it("enqueues the hash on behalf of the signer", async () => {
+      const signature = await sign();
+
+      await expect(
+        modifier
+          .connect(user1)
+          .enqueueSecretTxWithSignature(
+            user2.address,
+            hashedTx,
+            testUri,
+            deadline,
+            signature
+          )
+      )
+        .to.emit(modifier, "SecretTransactionRelayed")
+        .withArgs(0, user2.address, 0);
+      expect(await modifier.txHash(0)).to.equal(hashedTx);
+      expect(await modifier.queuePointer()).to.equal(1);
+      expect(await modifier.signerNonce(user2.address)).to.equal(1);
+    });
+
+    it("throws if the signature is replayed", async () => {
+      const signature = await sign();
+      await modifier.enqueueSecretTxWithSignature(
+        user2.address,
+        hashedTx,
+        testUri,
+        deadline,
+        signature
       );
 
-      await expect(avatar.exec(modifier.address, 0, tx2.data))
-        .to.emit(modifier, "TransactionsVetoed")
-        .withArgs(txNonce, newTxNonce);
-      txNonce = await modifier.txNonce();
-      expect(txNonce).to.be.equals(transactionsInQueue);
+      await expect(
+        modifier.enqueueSecretTxWithSignature(
+          user2.address,
+          hashedTx,
+          testUri,
+          deadline,
+          signature
+        )
+      ).to.be.revertedWith("Invalid signature");
     });
-    context("with two enqueued txs", () => {
-      let testContract: Contract, modifier: Contract, avatar: Contract;
 
-      beforeEach("enqueue and approve two transactions", async () => {
-        ({ avatar, modifier } = await setupTestWithTestAvatar());
-        testContract = await setupTestContract(avatar.address);
+    it("throws if the deadline has passed", async () => {
+      const signature = await sign();
+      await hre.network.provider.send("evm_setNextBlockTimestamp", [
+        deadline + 1,
+      ]);
 
-        let tx = await modifier.populateTransaction.setTxCooldown(42);
-        await avatar.exec(modifier.address, 0, tx.data);
+      await expect(
+        modifier.enqueueSecretTxWithSignature(
+          user2.address,
+          hashedTx,
+          testUri,
+          deadline,
+          signature
+        )
+      ).to.be.revertedWith("Signature expired");
+    });
 
-        tx = await modifier.populateTransaction.enableModule(user1.address);
-        await avatar.exec(modifier.address, 0, tx.data);
+    it("throws if the signer is not allowed", async () => {
+      const signature = await sign(user1);
 
-        await avatar.setModule(modifier.address);
+      await expect(
+        modifier.enqueueSecretTxWithSignature(
+          user1.address,
+          hashedTx,
+          testUri,
+          deadline,
+          signature
+        )
+      ).to.be.revertedWith("Signer not allowed");
+    });
 
-        const tx2 = await testContract.populateTransaction.pushButton();
-        await modifier.execTransactionFromModule(
-          testContract.address,
-          0,
-          tx2.data,
-          0
-        );
-        await modifier.execTransactionFromModule(
-          testContract.address,
-          0,
-          tx2.data,
-          0
-        );
-      });
+    it("throws if the message was not signed by the signer", async () => {
+      const signature = await sign(user1);
 
-      context("with no approved tx", () => {
-        it("sets txNonce", async () => {
-          const tx = await modifier.populateTransaction.vetoTransactionsTill(1);
-          await avatar.exec(modifier.address, 0, tx.data);
+      await expect(
+        modifier.enqueueSecretTxWithSignature(
+          user2.address,
+          hashedTx,
+          testUri,
+          deadline,
+          signature
+        )
+      ).to.be.revertedWith("Invalid signature");
+    });
 
-          expect(await modifier.txNonce()).to.equal(1);
-        });
-      });
+    it("throws if the signed message was changed", async () => {
+      const signature = await sign();
 
-      context("with two approved tx", () => {
-        it("decrements number of approved transactions", async () => {
-        await modifier.execTransactionFromModule(user1.address, 0, "0x", 0);
-          let tx3 = await modifier.populateTransaction.vetoTransactionsTillAndApprove(
-            0,
-            2
-          );
-          await avatar.exec(modifier.address, 0, tx3.data);
+      await expect(
+        modifier.enqueueSecretTxWithSignature(
+          user2.address,
+          ethers.utils.id("other transaction"),
+          testUri,
+          deadline,
+          signature
+        )
+      ).to.be.revertedWith("Invalid signature");
+    });
+  });
 
-          const tx = await modifier.populateTransaction.vetoTransactionsTill(1);
-          await avatar.exec(modifier.address, 0, tx.data);
+  describe("setTxCooldown()", async () => {
+    it("throws if not authorized", async () => {
+      const { modifier } = await setupTestWithTestAvatar();
+      await expect(modifier.setTxCooldown(42)).to.be.revertedWith(
+        "Ownable: caller is not the owner"
+      );
+    });
 
-          expect(await modifier.approved()).to.equal(1);
-        });
-      });
+    it("throws if below the minimum cooldown", async () => {
+      const { avatar, Modifier } = await setupTestWithTestAvatar();
+      const modifier = await Modifier.deploy(
+        avatar.address,
+        avatar.address,
+        avatar.address,
+        10,
+        0,
+        10
+      );
+      const tx = await modifier.populateTransaction.setTxCooldown(9);
 
-      context("with two approved tx and jump to end of queue", () => {
-        it("sets number of approved to zero", async () => {
-          await modifier.execTransactionFromModule(user1.address, 0, "0x", 0);
-          let tx3 = await modifier.populateTransaction.vetoTransactionsTillAndApprove(
-            0,
-            1
-          );
-          await avatar.exec(modifier.address, 0, tx3.data);
+      await expect(
+        avatar.exec(modifier.address, 0, tx.data)
+      ).to.be.revertedWith("Cooldown can not be below the minimum cooldown");
+    });
 
-          const tx = await modifier.populateTransaction.vetoTransactionsTill(2);
-          await avatar.exec(modifier.address, 0, tx.data);
+    it("schedules the cooldown", async () => {
+      const { avatar, modifier } = await setupTestWithTestAvatar();
+      const tx = await modifier.populateTransaction.setTxCooldown(43);
 
-          expect(await modifier.approved()).to.equal(0);
-        });
-      });
+      await expect(avatar.exec(modifier.address, 0, tx.data)).to.emit(
+        modifier,
+        "ParameterChangeScheduled"
+      );
+      const { timestamp } = await ethers.provider.getBlock("latest");
+      const pending = await modifier.pendingChanges(Parameter.TxCooldown);
+      expect(pending.value).to.equal(43);
+      expect(pending.eta).to.equal(timestamp);
+      expect(await modifier.txCooldown()).to.equal(0);
+
+      await expect(modifier.finalizeParameterChange(Parameter.TxCooldown))
+        .to.emit(modifier, "ParameterChanged")
+        .withArgs(Parameter.TxCooldown, 43);
+      expect(await modifier.txCooldown()).to.equal(43);
     });
   });
 
-  describe("execTransactionFromModule()", async () => {
+  describe("setTxExpiration()", async () => {
     it("throws if not authorized", async () => {
       const { modifier } = await setupTestWithTestAvatar();
-      await expect(
-        modifier.execTransactionFromModule(user1.address, 0, "0x", 0)
-      ).to.be.revertedWith("Module not authorized");
+      await expect(modifier.setTxExpiration(42)).to.be.revertedWith(
+        "Ownable: caller is not the owner"
+      );
     });
 
-    it("increments queuePointer", async () => {
+    it("thows if expiration is less than 60 seconds.", async () => {
       const { avatar, modifier } = await setupTestWithTestAvatar();
-      const tx = await modifier.populateTransaction.enableModule(user1.address);
-      await avatar.exec(modifier.address, 0, tx.data);
-      let queuePointer = await modifier.queuePointer();
+      const tx = await modifier.populateTransaction.setTxExpiration(59);
 
-      await expect(queuePointer._hex).to.be.equals("0x00");
-      await modifier.execTransactionFromModule(user1.address, 0, "0x", 0);
-      queuePointer = await modifier.queuePointer();
-      await expect(queuePointer._hex).to.be.equals("0x01");
+      await expect(
+        avatar.exec(modifier.address, 0, tx.data)
+      ).to.be.revertedWith("Expiratition must be 0 or at least 60 seconds");
     });
 
-    it("sets txHash", async () => {
+    it("schedules the expiration", async () => {
       const { avatar, modifier } = await setupTestWithTestAvatar();
-      const tx = await modifier.populateTransaction.enableModule(user1.address);
+      const tx = await modifier.populateTransaction.setTxExpiration("0x031337");
+
       await avatar.exec(modifier.address, 0, tx.data);
+      expect(await modifier.txExpiration()).to.equal(0x1337);
+      await modifier.finalizeParameterChange(Parameter.TxExpiration);
+      expect(await modifier.txExpiration()).to.equal(0x031337);
+    });
+  });
 
-      let txHash = await modifier.getTransactionHash(user1.address, 0, "0x", 0);
+  describe("finalizeParameterChange()", async () => {
+    let avatar: Contract, modifier: Contract;
 
-      await expect(await modifier.getTxHash(0)).to.be.equals(ZeroState);
-      await modifier.execTransactionFromModule(user1.address, 0, "0x", 0);
-      await expect(await modifier.getTxHash(0)).to.be.equals(txHash);
+    const execAsOwner = async (tx: Promise<PopulatedTransaction>) =>
+      avatar.exec(modifier.address, 0, (await tx).data);
+
+    beforeEach("set a cooldown of 100 seconds", async () => {
+      ({ avatar, modifier } = await setupTestWithTestAvatar());
+      await execAsOwner(modifier.populateTransaction.setTxCooldown(100));
+      await modifier.finalizeParameterChange(Parameter.TxCooldown);
     });
 
-    it("sets txCreatedAt", async () => {
-      const { avatar, modifier } = await setupTestWithTestAvatar();
-      const tx = await modifier.populateTransaction.enableModule(user1.address);
-      let expectedTimestamp = await modifier.getTxCreatedAt(0);
+    it("throws if no change is pending", async () => {
+      await expect(
+        modifier.finalizeParameterChange(Parameter.TxCooldown)
+      ).to.be.revertedWith("No change pending");
+    });
+
+    it("throws until the cooldown at the time of scheduling has passed", async () => {
+      await execAsOwner(modifier.populateTransaction.setTxCooldown(0));
+      const { timestamp } = await ethers.provider.getBlock("latest");
+      expect(
+        (await modifier.pendingChanges(Parameter.TxCooldown)).eta
+      ).to.equal(timestamp + 100);
+
+      await expect(
+        modifier.finalizeParameterChange(Parameter.TxCooldown)
+      ).to.be.revertedWith("Change is still in cooldown");
+      await hre.network.provider.send("evm_increaseTime", [100]);
+      await modifier.finalizeParameterChange(Parameter.TxCooldown);
+      expect(await modifier.txCooldown()).to.equal(0);
+    });
+
+    it("applies the latest scheduled value", async () => {
+      await execAsOwner(modifier.populateTransaction.setTxExpiration(120));
+      await execAsOwner(modifier.populateTransaction.setTxExpiration(240));
+      await hre.network.provider.send("evm_increaseTime", [100]);
+
+      await modifier.finalizeParameterChange(Parameter.TxExpiration);
+
+      expect(await modifier.txExpiration()).to.equal(240);
+      expect(
+        (await modifier.pendingChanges(Parameter.TxExpiration)).eta
+      ).to.equal(0);
+    });
+
+    it("does not change the delay of queued transactions", async () => {
+      await execAsOwner(
+        modifier.populateTransaction.enableModule(user1.address)
+      );
+      await avatar.setModule(modifier.address);
+      await modifier.execTransactionFromModule(user2.address, 0, "0x", 0);
+      await execAsOwner(modifier.populateTransaction.setTxCooldown(0));
+      await execAsOwner(modifier.populateTransaction.setTxExpiration(60));
+      await hre.network.provider.send("evm_increaseTime", [100]);
+      await modifier.finalizeParameterChange(Parameter.TxCooldown);
+      await modifier.finalizeParameterChange(Parameter.TxExpiration);
+      await modifier.execTransactionFromModule(user2.address, 0, "0x", 0);
+
+      const queued = await modifier.getTxDelay(0);
+      expect(queued.cooldown).to.equal(100);
+      expect(queued.expiration).to.equal(0x1337);
+      const next = await modifier.getTxDelay(1);
+      expect(next.cooldown).to.equal(0);
+      expect(next.expiration).to.equal(60);
+      // Expired by now with an expiration of 60 seconds.
+      await hre.network.provider.send("evm_increaseTime", [200]);
+      await modifier.executeNextTx(user2.address, 0, "0x", 0);
+      expect(await modifier.txNonce()).to.equal(1);
+    });
+  });
+
+  describe("cancelParameterChange()", async () => {
+    let avatar: Contract, modifier: Contract;
+
+    const execAsOwner = async (tx: Promise<PopulatedTransaction>) =>
+      avatar.exec(modifier.address, 0, (await tx).data);
+
+    beforeEach("schedule a cooldown", async () => {
+      ({ avatar, modifier } = await setupTestWithTestAvatar());
+      await execAsOwner(modifier.populateTransaction.setTxCooldown(42));
+    });
+
+    it("throws if the caller is neither the owner nor a guardian", async () => {
+      await expect(
+        modifier.cancelParameterChange(Parameter.TxCooldown)
+      ).to.be.revertedWith("Caller is not the owner or a guardian");
+    });
+
+    it("throws if no change is pending", async () => {
+      await expect(
+        execAsOwner(
+          modifier.populateTransaction.cancelParameterChange(
+            Parameter.TxExpiration
+          )
+        )
+      ).to.be.revertedWith("No change pending");
+    });
+
+    it("drops the pending change", async () => {
+      await expect(
+        execAsOwner(
+          modifier.populateTransaction.cancelParameterChange(
+            Parameter.TxCooldown
+          )
+        )
+      )
+        .to.emit(modifier, "ParameterChangeCancelled")
+        .withArgs(Parameter.TxCooldown, 42);
+
+      await expect(
+        modifier.finalizeParameterChange(Parameter.TxCooldown)
+      ).to.be.revertedWith("No change pending");
+      expect(await modifier.txCooldown()).to.equal(0);
+    });
+
+    it("can be called by a guardian", async () => {
+      await execAsOwner(
+        modifier.populateTransaction.addGuardian(user1.address)
+      );
+
+      await modifier.cancelParameterChange(Parameter.TxCooldown);
+
+      expect(
+        (await modifier.pendingChanges(Parameter.TxCooldown)).eta
+      ).to.equal(0);
+    });
+  });
+
+  describe("policies", async () => {
+    let avatar: Contract, modifier: Contract;
+    const selector = "0x12345678";
+    const call = selector + "00".repeat(32);
+
+    const execAsOwner = async (tx: Promise<PopulatedTransaction>) =>
+      avatar.exec(modifier.address, 0, (await tx).data);
+
+    const mine = async (seconds: number) => {
+      await hre.network.provider.send("evm_increaseTime", [seconds]);
+      await hre.network.provider.send("evm_mine");
+    };
+
+    beforeEach("enable a module", async () => {
+      ({ avatar, modifier } = await setupTestWithTestAvatar());
+      await execAsOwner(
+        modifier.populateTransaction.enableModule(user1.address)
+      );
+      await avatar.setModule(modifier.address);
+    });
+
+    it("throws if not authorized", async () => {
+      await expect(
+        modifier.setTargetPolicy(user2.address, 100, 0)
+      ).to.be.revertedWith("Ownable: caller is not the owner");
+      await expect(
+        modifier.setSelectorPolicy(selector, 100, 0)
+      ).to.be.revertedWith("Ownable: caller is not the owner");
+      await expect(modifier.setSecretPolicy(100, 0)).to.be.revertedWith(
+        "Ownable: caller is not the owner"
+      );
+    });
+
+    it("throws on an invalid cooldown or expiration", async () => {
+      const { Modifier } = await setupTestWithTestAvatar();
+      const floored = await Modifier.deploy(
+        avatar.address,
+        avatar.address,
+        avatar.address,
+        10,
+        0,
+        10
+      );
+
+      const tx = await floored.populateTransaction.setTargetPolicy(
+        FirstAddress,
+        9,
+        0
+      );
+
+      await expect(avatar.exec(floored.address, 0, tx.data)).to.be.revertedWith(
+        "Cooldown can not be below the minimum cooldown"
+      );
+      await expect(
+        execAsOwner(modifier.populateTransaction.setSecretPolicy(100, 59))
+      ).to.be.revertedWith("Expiratition must be 0 or at least 60 seconds");
+    });
+
+    it("throws when removing a policy that is not set", async () => {
+      await expect(
+        execAsOwner(
+          modifier.populateTransaction.removeTargetPolicy(user2.address)
+        )
+      ).to.be.revertedWith("Policy not set");
+      await expect(
+        execAsOwner(modifier.populateTransaction.removeSecretPolicy())
+      ).to.be.revertedWith("Policy not set");
+    });
+
+    it("records the target policy of a transaction when it is enqueued", async () => {
+      await expect(
+        execAsOwner(
+          modifier.populateTransaction.setTargetPolicy(user2.address, 100, 0)
+        )
+      )
+        .to.emit(modifier, "TargetPolicySet")
+        .withArgs(user2.address, 100, 0);
+      await modifier.execTransactionFromModule(user1.address, 0, "0x", 0);
+      await modifier.execTransactionFromModule(user2.address, 0, "0x", 0);
+      await modifier.execTransactionFromModule(user1.address, 0, "0x", 0);
+
+      const delay = await modifier.getTxDelay(1);
+      expect(delay.cooldown).to.equal(100);
+      expect(delay.expiration).to.equal(0);
+      expect((await modifier.txPolicy(0)).enabled).to.equal(false);
+
+      await modifier.executeNextTx(user1.address, 0, "0x", 0);
+      await expect(
+        modifier.executeNextTx(user2.address, 0, "0x", 0)
+      ).to.be.revertedWith("Transaction is still in cooldown");
+      await mine(100);
+      await modifier.executeNextTx(user2.address, 0, "0x", 0);
+      await modifier.executeNextTx(user1.address, 0, "0x", 0);
+    });
+
+    it("applies selector policies on any target", async () => {
+      await execAsOwner(
+        modifier.populateTransaction.setSelectorPolicy(selector, 100, 0)
+      );
+      await modifier.execTransactionFromModule(user1.address, 0, call, 0);
+
+      await expect(
+        modifier.executeNextTx(user1.address, 0, call, 0)
+      ).to.be.revertedWith("Transaction is still in cooldown");
+      await mine(100);
+      await modifier.executeNextTx(user1.address, 0, call, 0);
+    });
+
+    it("uses the longer cooldown if a target and a selector policy apply", async () => {
+      await execAsOwner(
+        modifier.populateTransaction.setTargetPolicy(user1.address, 200, 0)
+      );
+      await execAsOwner(
+        modifier.populateTransaction.setSelectorPolicy(selector, 100, 0)
+      );
+      await modifier.execTransactionFromModule(user1.address, 0, call, 0);
+      await modifier.execTransactionFromModule(user2.address, 0, call, 0);
+
+      expect((await modifier.getTxDelay(0)).cooldown).to.equal(200);
+      expect((await modifier.getTxDelay(1)).cooldown).to.equal(100);
+      const policy = await modifier.getPolicy(user1.address, "0x");
+      expect(policy.cooldown).to.equal(200);
+    });
+
+    it("keeps the recorded policy when the rules change", async () => {
+      await execAsOwner(
+        modifier.populateTransaction.setTargetPolicy(user1.address, 100, 0)
+      );
+      await modifier.execTransactionFromModule(user1.address, 0, "0x", 0);
+      await execAsOwner(
+        modifier.populateTransaction.setTargetPolicy(user1.address, 300, 0)
+      );
+      await modifier.execTransactionFromModule(user1.address, 0, "0x", 0);
+
+      expect((await modifier.getTxDelay(0)).cooldown).to.equal(100);
+      expect((await modifier.getTxDelay(1)).cooldown).to.equal(300);
+    });
+
+    it("schedules changes that lower a cooldown or expiration", async () => {
+      await execAsOwner(modifier.populateTransaction.setTxCooldown(100));
+      await modifier.finalizeParameterChange(Parameter.TxCooldown);
+      await execAsOwner(
+        modifier.populateTransaction.setTargetPolicy(user1.address, 200, 0)
+      );
+      const removal = await modifier.populateTransaction.removeTargetPolicy(
+        user1.address
+      );
+      const changeHash = ethers.utils.keccak256(removal.data as string);
+
+      await expect(avatar.exec(modifier.address, 0, removal.data)).to.emit(
+        modifier,
+        "PolicyChangeScheduled"
+      );
+      const { timestamp } = await ethers.provider.getBlock("latest");
+      expect(await modifier.pendingPolicyChanges(changeHash)).to.equal(
+        timestamp + 100
+      );
+      expect((await modifier.targetPolicies(user1.address)).enabled).to.equal(
+        true
+      );
+      await expect(
+        avatar.exec(modifier.address, 0, removal.data)
+      ).to.be.revertedWith("Change is still in cooldown");
+
+      await mine(100);
+      await expect(avatar.exec(modifier.address, 0, removal.data))
+        .to.emit(modifier, "TargetPolicyRemoved")
+        .withArgs(user1.address);
+      expect(await modifier.pendingPolicyChanges(changeHash)).to.equal(0);
+      await expect(
+        execAsOwner(
+          modifier.populateTransaction.setSelectorPolicy(selector, 100, 60)
+        )
+      ).to.emit(modifier, "PolicyChangeScheduled");
+    });
+
+    it("applies changes that raise a cooldown or expiration immediately", async () => {
+      await execAsOwner(modifier.populateTransaction.setTxCooldown(100));
+      await modifier.finalizeParameterChange(Parameter.TxCooldown);
+      await execAsOwner(
+        modifier.populateTransaction.setTargetPolicy(user1.address, 200, 0x1337)
+      );
+
+      await expect(
+        execAsOwner(
+          modifier.populateTransaction.setTargetPolicy(user1.address, 300, 0)
+        )
+      )
+        .to.emit(modifier, "TargetPolicySet")
+        .withArgs(user1.address, 300, 0);
+    });
+
+    it("lets a guardian cancel a scheduled change", async () => {
+      await execAsOwner(modifier.populateTransaction.setSecretPolicy(200, 0));
+      const removal = await modifier.populateTransaction.removeSecretPolicy();
+      const changeHash = ethers.utils.keccak256(removal.data as string);
+      await avatar.exec(modifier.address, 0, removal.data);
+      await execAsOwner(
+        modifier.populateTransaction.addGuardian(user2.address)
+      );
+
+      await expect(modifier.cancelPolicyChange(changeHash)).to.be.revertedWith(
+        "Caller is not the owner or a guardian"
+      );
+      await expect(modifier.connect(user2).cancelPolicyChange(changeHash))
+        .to.emit(modifier, "PolicyChangeCancelled")
+        .withArgs(changeHash);
+      await expect(
+        modifier.connect(user2).cancelPolicyChange(changeHash)
+      ).to.be.revertedWith("No change pending");
+      expect(await modifier.pendingPolicyChanges(changeHash)).to.equal(0);
+    });
+
+    it("applies the secret policy to secret transactions", async () => {
+      await execAsOwner(
+        modifier.populateTransaction.setTargetPolicy(user1.address, 0, 0)
+      );
+      // Lowers the expiration, so the second call applies it.
+      await execAsOwner(modifier.populateTransaction.setSecretPolicy(100, 60));
+      await execAsOwner(modifier.populateTransaction.setSecretPolicy(100, 60));
+      const hashedTx = await modifier.getSecretTransactionHash(
+        user1.address,
+        0,
+        "0x",
+        0,
+        0
+      );
+      await modifier.enqueueSecretTx(hashedTx, "ipfsHash");
+
+      await expect(
+        modifier.executeNextSecretTx(user1.address, 0, "0x", 0, 0)
+      ).to.be.revertedWith("Transaction is still in cooldown");
+      await mine(161);
+      await expect(
+        modifier.executeNextSecretTx(user1.address, 0, "0x", 0, 0)
+      ).to.be.revertedWith("Transaction expired");
+      await expect(modifier.skipExpired())
+        .to.emit(modifier, "TransactionsSkipped")
+        .withArgs(0, 1);
+    });
+
+    it("gives secret transactions the strictest policy if the secret policy is unset", async () => {
+      await execAsOwner(
+        modifier.populateTransaction.setTargetPolicy(user2.address, 100, 0)
+      );
+      await execAsOwner(
+        modifier.populateTransaction.setSelectorPolicy(selector, 50, 0)
+      );
+      const hashedTx = await modifier.getSecretTransactionHash(
+        user2.address,
+        0,
+        "0x",
+        0,
+        0
+      );
+      await modifier.enqueueSecretTx(hashedTx, "ipfsHash");
+
+      expect((await modifier.strictestPolicy()).cooldown).to.equal(100);
+      expect((await modifier.getTxDelay(0)).cooldown).to.equal(100);
+      await expect(
+        modifier.executeNextSecretTx(user2.address, 0, "0x", 0, 0)
+      ).to.be.revertedWith("Transaction is still in cooldown");
+      await mine(100);
+      await modifier.executeNextSecretTx(user2.address, 0, "0x", 0, 0);
+    });
+
+    it("gives delegate calls at least the strictest policy", async () => {
+      await execAsOwner(
+        modifier.populateTransaction.setTargetPolicy(user2.address, 100, 0)
+      );
+      await execAsOwner(
+        modifier.populateTransaction.removeTargetPolicy(user2.address)
+      );
+      await modifier.execTransactionFromModule(user1.address, 0, "0x", 1);
+      await modifier.execTransactionFromModule(user1.address, 0, "0x", 0);
+
+      expect((await modifier.getTxDelay(0)).cooldown).to.equal(100);
+      expect((await modifier.getTxDelay(1)).cooldown).to.equal(0);
+    });
+  });
+
+  describe("setDomainSeparated()", async () => {
+    it("throws if not authorized", async () => {
+      const { modifier } = await setupTestWithTestAvatar();
+      await expect(modifier.setDomainSeparated(true)).to.be.revertedWith(
+        "Ownable: caller is not the owner"
+      );
+    });
+
+    it("throws if the queue is not empty", async () => {
+      const { avatar, modifier } = await setupTestWithTestAvatar();
+      await avatar.exec(
+        modifier.address,
+        0,
+        (await modifier.populateTransaction.enableModule(user1.address)).data
+      );
+      await modifier.execTransactionFromModule(user1.address, 0, "0x", 0);
+      const tx = await modifier.populateTransaction.setDomainSeparated(true);
+
+      await expect(
+        avatar.exec(modifier.address, 0, tx.data)
+      ).to.be.revertedWith("Queue must be empty to change the hash format");
+    });
+
+    it("binds transaction hashes to the chain and modifier", async () => {
+      const { avatar, modifier, Modifier } = await setupTestWithTestAvatar();
+      const other = await Modifier.deploy(
+        avatar.address,
+        avatar.address,
+        avatar.address,
+        0,
+        "0x1337",
+        0
+      );
+      const legacyHash = await modifier.getTransactionHash(
+        user1.address,
+        0,
+        "0x",
+        0
+      );
+      for (const instance of [modifier, other]) {
+        const tx = await instance.populateTransaction.setDomainSeparated(true);
+        await avatar.exec(instance.address, 0, tx.data);
+      }
+
+      const hash = await modifier.getTransactionHash(user1.address, 0, "0x", 0);
+
+      expect(await modifier.domainSeparated()).to.equal(true);
+      expect(hash).to.not.equal(legacyHash);
+      expect(hash).to.not.equal(
+        await other.getTransactionHash(user1.address, 0, "0x", 0)
+      );
+      expect(await modifier.domainSeparator()).to.equal(
+        ethers.utils._TypedDataEncoder.hashDomain({
+          chainId: (await ethers.provider.getNetwork()).chainId,
+          verifyingContract: modifier.address,
+        })
+      );
+    });
+
+    it("only executes secret transactions committed with the domain separated hash", async () => {
+      const { avatar, modifier } = await setupTestWithTestAvatar();
+      for (const tx of [
+        await modifier.populateTransaction.enableModule(user1.address),
+        await modifier.populateTransaction.setDomainSeparated(true),
+      ]) {
+        await avatar.exec(modifier.address, 0, tx.data);
+      }
+      await avatar.setModule(modifier.address);
+      const legacyHash = ethers.utils.solidityKeccak256(
+        ["address", "uint256", "bytes", "uint8", "uint256"],
+        [user1.address, 0, "0x", 0, 0]
+      );
+      await modifier.enqueueSecretTx(legacyHash, "ipfsHash");
+      await modifier.enqueueSecretTx(
+        await modifier.getSecretTransactionHash(user1.address, 0, "0x", 0, 1),
+        "ipfsHash"
+      );
+
+      await expect(
+        modifier.executeNextSecretTx(user1.address, 0, "0x", 0, 0)
+      ).to.be.revertedWith("Transaction hashes do not match");
+      await avatar.exec(
+        modifier.address,
+        0,
+        (await modifier.populateTransaction.vetoTransactionsTill(1)).data
+      );
+      await expect(
+        modifier.executeNextSecretTx(user1.address, 0, "0x", 0, 1)
+      )
+        .to.emit(modifier, "TransactionExecuted")
+        .withArgs(1, await modifier.txHash(1), true);
+    });
+  });
+
+  describe("vetoTransactionsTill()", async () => {
+    it("throws if not authorized", async () => {
+      const { modifier } = await setupTestWithTestAvatar();
+      await expect(modifier.vetoTransactionsTill(42)).to.be.revertedWith(
+        "Caller is not the owner or a guardian"
+      );
+    });
+
+    it("can be called by a guardian", async () => {
+      const { avatar, modifier } = await setupTestWithTestAvatar();
+      await avatar.exec(
+        modifier.address,
+        0,
+        (await modifier.populateTransaction.enableModule(user1.address)).data
+      );
+      await avatar.exec(
+        modifier.address,
+        0,
+        (await modifier.populateTransaction.addGuardian(user2.address)).data
+      );
+      await modifier.execTransactionFromModule(user1.address, 0, "0x", 0);
+
+      await expect(modifier.connect(user2).vetoTransactionsTill(1))
+        .to.emit(modifier, "TransactionsVetoed")
+        .withArgs(0, 1);
+      expect(await modifier.txNonce()).to.equal(1);
+    });
+
+    it("guardians can not approve transactions or change parameters", async () => {
+      const { avatar, modifier } = await setupTestWithTestAvatar();
+      await avatar.exec(
+        modifier.address,
+        0,
+        (await modifier.populateTransaction.enableModule(user1.address)).data
+      );
+      await avatar.exec(
+        modifier.address,
+        0,
+        (await modifier.populateTransaction.addGuardian(user2.address)).data
+      );
+      await modifier.execTransactionFromModule(user1.address, 0, "0x", 0);
+      const guardian = modifier.connect(user2);
+
+      await expect(guardian.approveNext(1)).to.be.revertedWith(
+        "Ownable: caller is not the owner"
+      );
+      await expect(
+        guardian.vetoTransactionsTillAndApprove(0, 1)
+      ).to.be.revertedWith("Ownable: caller is not the owner");
+      await expect(guardian.setTxCooldown(0)).to.be.revertedWith(
+        "Ownable: caller is not the owner"
+      );
+      await expect(guardian.setTxExpiration(0)).to.be.revertedWith(
+        "Ownable: caller is not the owner"
+      );
+      await expect(guardian.addGuardian(user1.address)).to.be.revertedWith(
+        "Ownable: caller is not the owner"
+      );
+      await expect(guardian.removeGuardian(user2.address)).to.be.revertedWith(
+        "Ownable: caller is not the owner"
+      );
+    });
+
+    it("reverts when trying to veto zero transcations", async () => {
+      const { avatar, modifier } = await setupTestWithTestAvatar();
+      const tx2 = await modifier.populateTransaction.vetoTransactionsTill(0);
+
+      await expect(
+        avatar.exec(modifier.address, 0, tx2.data)
+      ).to.be.revertedWith("New nonce must be higher than current txNonce");
+    });
+
+    it("thows if nonce is more than queuePointer + 1.", async () => {
+      // queue index starts from 0
+      const transactionsInQueue = 3;
+      const newTxNonce = transactionsInQueue + 1;
+      const { avatar, modifier } = await setupTestWithTestAvatar();
+      const tx = await modifier.populateTransaction.enableModule(user1.address);
+
+      // add a user as a module to simulate transactions coming from BAC
+      await avatar.exec(modifier.address, 0, tx.data);
+
+      // enqueues two proposal
+      for (let i = 0; i < transactionsInQueue; i++) {
+        await modifier.execTransactionFromModule(user1.address, 0, "0x", 0);
+      }
+
+      // generate transaction data to veto transactions more than transactions in queue
+      // queue index starts from 0
+      const tx2 = await modifier.populateTransaction.vetoTransactionsTill(
+        newTxNonce
+      );
+
+      await expect(
+        avatar.exec(modifier.address, 0, tx2.data)
+      ).to.be.revertedWith("Cannot be higher than queuePointer");
+    });
+
+    it("Vetos transaction", async () => {
+      const transactionsInQueue = 3;
+      const newTxNonce = transactionsInQueue;
+      const { avatar, modifier } = await setupTestWithTestAvatar();
+      const tx = await modifier.populateTransaction.enableModule(user1.address);
+      let txNonce = await modifier.txNonce();
+
+      expect(txNonce._hex).to.be.equals("0x00");
+
+      await avatar.exec(modifier.address, 0, tx.data);
+
+      for (let i = 0; i < transactionsInQueue; i++) {
+        await modifier.execTransactionFromModule(user1.address, 0, "0x", 0);
+      }
+
+      const tx2 = await modifier.populateTransaction.vetoTransactionsTill(
+        newTxNonce
+      );
+
+      await expect(avatar.exec(modifier.address, 0, tx2.data))
+        .to.emit(modifier, "TransactionsVetoed")
+        .withArgs(txNonce, newTxNonce);
+      txNonce = await modifier.txNonce();
+      expect(txNonce).to.be.equals(transactionsInQueue);
+    });
+    context("with two enqueued txs", () => {
+      let testContract: Contract, modifier: Contract, avatar: Contract;
+
+      beforeEach("enqueue and approve two transactions", async () => {
+        ({ avatar, modifier } = await setupTestWithTestAvatar());
+        testContract = await setupTestContract(avatar.address);
+
+        let tx = await modifier.populateTransaction.setTxCooldown(42);
+        await avatar.exec(modifier.address, 0, tx.data);
+        await modifier.finalizeParameterChange(Parameter.TxCooldown);
+
+        tx = await modifier.populateTransaction.enableModule(user1.address);
+        await avatar.exec(modifier.address, 0, tx.data);
+
+        await avatar.setModule(modifier.address);
+
+        const tx2 = await testContract.populateTransaction.pushButton();
+        await modifier.execTransactionFromModule(
+          testContract.address,
+          0,
+          tx2.data,
+          0
+        );
+        await modifier.execTransactionFromModule(
+          testContract.address,
+          0,
+          tx2.data,
+          0
+        );
+      });
+
+      context("with no approved tx", () => {
+        it("sets txNonce", async () => {
+          const tx = await modifier.populateTransaction.vetoTransactionsTill(1);
+          await avatar.exec(modifier.address, 0, tx.data);
+
+          expect(await modifier.txNonce()).to.equal(1);
+        });
+      });
+
+      context("with two approved tx", () => {
+        it("decrements number of approved transactions", async () => {
+        await modifier.execTransactionFromModule(user1.address, 0, "0x", 0);
+          let tx3 = await modifier.populateTransaction.vetoTransactionsTillAndApprove(
+            0,
+            2
+          );
+          await avatar.exec(modifier.address, 0, tx3.data);
+
+          const tx = await modifier.populateTransaction.vetoTransactionsTill(1);
+          await avatar.exec(modifier.address, 0, tx.data);
+
+          expect(await modifier.approved()).to.equal(1);
+        });
+      });
+
+      context("with two approved tx and jump to end of queue", () => {
+        it("sets number of approved to zero", async () => {
+          await modifier.execTransactionFromModule(user1.address, 0, "0x", 0);
+          let tx3 = await modifier.populateTransaction.vetoTransactionsTillAndApprove(
+            0,
+            1
+          );
+          await avatar.exec(modifier.address, 0, tx3.data);
+
+          const tx = await modifier.populateTransaction.vetoTransactionsTill(2);
+          await avatar.exec(modifier.address, 0, tx.data);
+
+          expect(await modifier.approved()).to.equal(0);
+        });
+      });
+    });
+  });
+
+  describe("execTransactionFromModule()", async () => {
+    it("throws if not authorized", async () => {
+      const { modifier } = await setupTestWithTestAvatar();
+      await expect(
+        modifier.execTransactionFromModule(user1.address, 0, "0x", 0)
+      ).to.be.revertedWith("Module not authorized");
+    });
+
+    it("increments queuePointer", async () => {
+      const { avatar, modifier } = await setupTestWithTestAvatar();
+      const tx = await modifier.populateTransaction.enableModule(user1.address);
+      await avatar.exec(modifier.address, 0, tx.data);
+      let queuePointer = await modifier.queuePointer();
+
+      await expect(queuePointer._hex).to.be.equals("0x00");
+      await modifier.execTransactionFromModule(user1.address, 0, "0x", 0);
+      queuePointer = await modifier.queuePointer();
+      await expect(queuePointer._hex).to.be.equals("0x01");
+    });
+
+    it("sets txHash", async () => {
+      const { avatar, modifier } = await setupTestWithTestAvatar();
+      const tx = await modifier.populateTransaction.enableModule(user1.address);
+      await avatar.exec(modifier.address, 0, tx.data);
+
+      let txHash = await modifier.getTransactionHash(user1.address, 0, "0x", 0);
+
+      await expect(await modifier.getTxHash(0)).to.be.equals(ZeroState);
+      await modifier.execTransactionFromModule(user1.address, 0, "0x", 0);
+      await expect(await modifier.getTxHash(0)).to.be.equals(txHash);
+    });
+
+    it("sets txCreatedAt", async () => {
+      const { avatar, modifier } = await setupTestWithTestAvatar();
+      const tx = await modifier.populateTransaction.enableModule(user1.address);
+      let expectedTimestamp = await modifier.getTxCreatedAt(0);
+      await avatar.exec(modifier.address, 0, tx.data);
+
+      await expect(expectedTimestamp._hex).to.be.equals("0x00");
+      let receipt = await modifier.execTransactionFromModule(
+        user1.address,
+        0,
+        "0x",
+        0
+      );
+      let blockNumber = receipt.blockNumber;
+
+      let block = await hre.network.provider.send("eth_getBlockByNumber", [
+        "latest",
+        false,
+      ]);
+
+      expectedTimestamp = await modifier.getTxCreatedAt(0);
+      await expect(block.timestamp).to.be.equals(expectedTimestamp._hex);
+    });
+
+    it("emits transaction details", async () => {
+      const { avatar, modifier } = await setupTestWithTestAvatar();
+      const tx = await modifier.populateTransaction.enableModule(user1.address);
+      await avatar.exec(modifier.address, 0, tx.data);
+      const expectedQueuePointer = await modifier.queuePointer;
+
+      await expect(
+        modifier.execTransactionFromModule(user1.address, 42, "0x", 0)
+      )
+        .to.emit(modifier, "TransactionAdded")
+        .withArgs(
+          expectedQueuePointer,
+          await modifier.getTransactionHash(user1.address, 42, "0x", 0),
+          user1.address,
+          42,
+          "0x",
+          0
+        );
+    });
+  });
+
+  describe("executeNextTx()", async () => {
+    it("throws if there is nothing in queue", async () => {
+      const { avatar, modifier } = await setupTestWithTestAvatar();
+      const tx = await modifier.populateTransaction.enableModule(user1.address);
+      await avatar.exec(modifier.address, 0, tx.data);
+
+      await expect(
+        modifier.executeNextTx(user1.address, 42, "0x", 0)
+      ).to.be.revertedWith("Transaction queue is empty");
+    });
+
+    it("throws if cooldown has not passed", async () => {
+      const { avatar, modifier } = await setupTestWithTestAvatar();
+      let tx = await modifier.populateTransaction.setTxCooldown(42);
+      await avatar.exec(modifier.address, 0, tx.data);
+      await modifier.finalizeParameterChange(Parameter.TxCooldown);
+
+      tx = await modifier.populateTransaction.enableModule(user1.address);
+      await avatar.exec(modifier.address, 0, tx.data);
+
+      await modifier.execTransactionFromModule(user1.address, 42, "0x", 0);
+      await expect(
+        modifier.executeNextTx(user1.address, 42, "0x", 0)
+      ).to.be.revertedWith("Transaction is still in cooldown");
+    });
+
+    context("when transaction is approved", () => {
+      let testContract: Contract, modifier: Contract, avatar: Contract;
+      let pushButtonTx: PopulatedTransaction;
+
+      beforeEach("enqueue two tx", async () => {
+        ({ avatar, modifier } = await setupTestWithTestAvatar());
+        testContract = await setupTestContract(avatar.address);
+
+        let tx = await modifier.populateTransaction.setTxCooldown(42);
+        await avatar.exec(modifier.address, 0, tx.data);
+        await modifier.finalizeParameterChange(Parameter.TxCooldown);
+
+        tx = await modifier.populateTransaction.enableModule(user1.address);
+        await avatar.exec(modifier.address, 0, tx.data);
+
+        await avatar.setModule(modifier.address);
+
+        pushButtonTx = await testContract.populateTransaction.pushButton();
+        await modifier.execTransactionFromModule(
+          testContract.address,
+          0,
+          pushButtonTx.data,
+          0
+        );
+        await modifier.execTransactionFromModule(
+          testContract.address,
+          0,
+          pushButtonTx.data,
+          0
+        );
+
+        let tx3 = await modifier.populateTransaction.approveNext(1);
+        await avatar.exec(modifier.address, 0, tx3.data);
+      });
+
+      it("executes", async () => {
+        await expect(
+          modifier.executeNextTx(testContract.address, 0, pushButtonTx.data, 0)
+        ).to.emit(testContract, "ButtonPushed");
+      });
+
+      it("decrements approved transactions", async () => {
+        await modifier.executeNextTx(
+          testContract.address,
+          0,
+          pushButtonTx.data,
+          0
+        );
+
+        expect(await modifier.approved()).to.equal(0);
+      });
+    });
+
+    it("executes during cooldown if transaction had been approved", async () => {
+      const { avatar, modifier } = await setupTestWithTestAvatar();
+
+      const TestContract = await ethers.getContractFactory("TestContract");
+      const testContract = await TestContract.deploy();
+      await testContract.transferOwnership(avatar.address);
+
+      let tx = await modifier.populateTransaction.setTxCooldown(42);
+      await avatar.exec(modifier.address, 0, tx.data);
+      await modifier.finalizeParameterChange(Parameter.TxCooldown);
+
+      tx = await modifier.populateTransaction.enableModule(user1.address);
+      await avatar.exec(modifier.address, 0, tx.data);
+
+      const tx2 = await testContract.populateTransaction.pushButton();
+      await modifier.execTransactionFromModule(
+        testContract.address,
+        0,
+        tx2.data,
+        0
+      );
+      await expect(
+        modifier.executeNextTx(user1.address, 42, "0x", 0)
+      ).to.be.revertedWith("Transaction is still in cooldown");
+
+      let tx3 = await modifier.populateTransaction.approveNext(1);
+      await avatar.exec(modifier.address, 0, tx3.data);
+
+      await avatar.setModule(modifier.address);
+
+      await expect(
+        modifier.executeNextTx(testContract.address, 0, tx2.data, 0)
+      ).to.emit(testContract, "ButtonPushed");
+    });
+
+    it("throws if transaction has expired", async () => {
+      const { avatar, modifier } = await setupTestWithTestAvatar();
+      const tx = await modifier.populateTransaction.enableModule(user1.address);
+      await avatar.exec(modifier.address, 0, tx.data);
+
+      await avatar.setModule(modifier.address);
+      await modifier.execTransactionFromModule(user1.address, 0, "0x", 0);
+      let expiry = await modifier.txCreatedAt(0);
+      await hre.network.provider.send("evm_setNextBlockTimestamp", [
+        4242424242,
+      ]);
+      await expect(
+        modifier.executeNextTx(user1.address, 0, "0x", 0)
+      ).to.be.revertedWith("Transaction expired");
+    });
+
+    it("throws if transaction hashes do not match", async () => {
+      const { avatar, modifier } = await setupTestWithTestAvatar();
+      const tx = await modifier.populateTransaction.enableModule(user1.address);
+      await avatar.exec(modifier.address, 0, tx.data);
+
+      await avatar.setModule(modifier.address);
+      await modifier.execTransactionFromModule(user1.address, 0, "0x", 0);
+      let block = await hre.network.provider.send("eth_getBlockByNumber", [
+        "latest",
+        false,
+      ]);
+      let timestamp = parseInt(block.timestamp) + 100;
+      await hre.network.provider.send("evm_setNextBlockTimestamp", [timestamp]);
+      await expect(
+        modifier.executeNextTx(user1.address, 1, "0x", 0)
+      ).to.be.revertedWith("Transaction hashes do not match");
+    });
+
+    it("throws if transaction module transaction throws", async () => {
+      const { avatar, modifier } = await setupTestWithTestAvatar();
+      const tx = await modifier.populateTransaction.enableModule(user1.address);
+      await avatar.exec(modifier.address, 0, tx.data);
+
+      await avatar.setModule(modifier.address);
+      await modifier.execTransactionFromModule(user1.address, 1, "0x", 0);
+      let block = await hre.network.provider.send("eth_getBlockByNumber", [
+        "latest",
+        false,
+      ]);
+      let timestamp = parseInt(block.timestamp) + 100;
+      await hre.network.provider.send("evm_setNextBlockTimestamp", [timestamp]);
+      await expect(
+        modifier.executeNextTx(user1.address, 1, "0x", 0)
+      ).to.be.revertedWith("Module transaction failed");
+    });
+
+    it("executes transaction", async () => {
+      const { avatar, modifier } = await setupTestWithTestAvatar();
+      const tx = await modifier.populateTransaction.enableModule(user1.address);
+      await avatar.exec(modifier.address, 0, tx.data);
+
+      await avatar.setModule(modifier.address);
+      await modifier.execTransactionFromModule(user1.address, 0, "0x", 0);
+      let block = await hre.network.provider.send("eth_getBlockByNumber", [
+        "latest",
+        false,
+      ]);
+      let timestamp = parseInt(block.timestamp) + 100;
+      await hre.network.provider.send("evm_setNextBlockTimestamp", [timestamp]);
+      await expect(modifier.executeNextTx(user1.address, 0, "0x", 0));
+    });
+
+    it("emits TransactionExecuted", async () => {
+      const { avatar, modifier } = await setupTestWithTestAvatar();
+      const tx = await modifier.populateTransaction.enableModule(user1.address);
       await avatar.exec(modifier.address, 0, tx.data);
 
-      await expect(expectedTimestamp._hex).to.be.equals("0x00");
-      let receipt = await modifier.execTransactionFromModule(
-        user1.address,
+      await avatar.setModule(modifier.address);
+      await modifier.execTransactionFromModule(user1.address, 0, "0x", 0);
+      await modifier.execTransactionFromModule(user1.address, 0, "0x", 0);
+      await modifier.executeNextTx(user1.address, 0, "0x", 0);
+
+      await expect(modifier.executeNextTx(user1.address, 0, "0x", 0))
+        .to.emit(modifier, "TransactionExecuted")
+        .withArgs(
+          1,
+          await modifier.getTransactionHash(user1.address, 0, "0x", 0),
+          true
+        );
+    });
+  });
+
+  describe("executeNextSecretTx()", () => {
+    let avatar: Contract, modifier: Contract, salt: number;
+
+    const ethAmount = 420;
+    const testUri = "ipfsHash";
+
+    beforeEach("setup contracts", async () => {
+      ({ avatar, modifier } = await setupTestWithTestAvatar());
+      salt = await modifier.salt();
+      await avatar.setModule(modifier.address);
+      await avatar.exec(
+        modifier.address,
         0,
-        "0x",
-        0
+        (await modifier.populateTransaction.enableModule(user1.address)).data
       );
-      let blockNumber = receipt.blockNumber;
+      await user1.sendTransaction({ to: avatar.address, value: ethAmount });
+    });
 
-      let block = await hre.network.provider.send("eth_getBlockByNumber", [
-        "latest",
-        false,
-      ]);
+    beforeEach("enqueue secret tx", async () => {
+      const hashedTx = ethers.utils.solidityKeccak256(
+        ["address", "uint256", "bytes", "uint8", "uint256"],
+        [FirstAddress, ethAmount, "0x", 0, salt]
+      );
+      await modifier.enqueueSecretTx(hashedTx, testUri);
+    });
 
-      expectedTimestamp = await modifier.getTxCreatedAt(0);
-      await expect(block.timestamp).to.be.equals(expectedTimestamp._hex);
+    it("reverts if hashes don't match: 'Transaction hashes do not match'", async () => {
+      const wrongSalt = 69;
+
+      await expect(
+        modifier.executeNextSecretTx(
+          FirstAddress,
+          ethAmount,
+          "0x",
+          0,
+          wrongSalt
+        )
+      ).to.be.revertedWith("Transaction hashes do not match");
     });
 
-    it("emits transaction details", async () => {
-      const { avatar, modifier } = await setupTestWithTestAvatar();
-      const tx = await modifier.populateTransaction.enableModule(user1.address);
-      await avatar.exec(modifier.address, 0, tx.data);
-      const expectedQueuePointer = await modifier.queuePointer;
+    it("executes the transaction", async () => {
+      const { provider } = ethers;
+      await modifier.executeNextSecretTx(
+        FirstAddress,
+        ethAmount,
+        "0x",
+        0,
+        salt
+      );
+      const balance = await provider.getBalance(FirstAddress);
+
+      expect(balance).to.equal(ethAmount);
+    });
 
+    it("emits TransactionExecuted", async () => {
       await expect(
-        modifier.execTransactionFromModule(user1.address, 42, "0x", 0)
+        modifier.executeNextSecretTx(FirstAddress, ethAmount, "0x", 0, salt)
       )
-        .to.emit(modifier, "TransactionAdded")
-        .withArgs(
-          expectedQueuePointer,
-          await modifier.getTransactionHash(user1.address, 42, "0x", 0),
-          user1.address,
-          42,
-          "0x",
-          0
-        );
+        .to.emit(modifier, "TransactionExecuted")
+        .withArgs(0, await modifier.txHash(0), true);
     });
   });
 
-  describe("executeNextTx()", async () => {
-    it("throws if there is nothing in queue", async () => {
-      const { avatar, modifier } = await setupTestWithTestAvatar();
-      const tx = await modifier.populateTransaction.enableModule(user1.address);
-      await avatar.exec(modifier.address, 0, tx.data);
+  describe("executeNextTxBatch()", () => {
+    let avatar: Contract, modifier: Contract, testContract: Contract;
+    let pushButton: string;
+
+    // Enough for the first transfers, the avatar can not pay a transfer of `tooMuch`.
+    const ethAmount = 420;
+    const tooMuch = 10000;
+
+    const preimage = (
+      to: string,
+      value: number,
+      data: string,
+      salt?: number
+    ) => ({
+      to,
+      value,
+      data,
+      operation: 0,
+      secret: salt !== undefined,
+      salt: salt ?? 0,
+    });
+
+    beforeEach("setup contracts", async () => {
+      ({ avatar, modifier } = await setupTestWithTestAvatar());
+      testContract = await setupTestContract(avatar.address);
+      pushButton = (await testContract.populateTransaction.pushButton())
+        .data as string;
+      await avatar.setModule(modifier.address);
+      await avatar.exec(
+        modifier.address,
+        0,
+        (await modifier.populateTransaction.enableModule(user1.address)).data
+      );
+      await user1.sendTransaction({ to: avatar.address, value: ethAmount });
+    });
+
+    const enqueueSecret = async (to: string, value: number, data: string) => {
+      const salt = (await modifier.salt()).toNumber();
+      await modifier.enqueueSecretTx(
+        await modifier.getSecretTransactionHash(to, value, data, 0, salt),
+        "ipfsHash"
+      );
+      return preimage(to, value, data, salt);
+    };
+
+    const enqueue = async (to: string, value: number, data: string) => {
+      await modifier.execTransactionFromModule(to, value, data, 0);
+      return preimage(to, value, data);
+    };
+
+    it("throws if the batch is empty", async () => {
+      await expect(modifier.executeNextTxBatch([], true)).to.be.revertedWith(
+        "Batch must not be empty"
+      );
+    });
+
+    it("executes public and secret transactions in queue order", async () => {
+      const batch = [
+        await enqueue(testContract.address, 0, pushButton),
+        await enqueueSecret(FirstAddress, ethAmount, "0x"),
+        await enqueue(testContract.address, 0, pushButton),
+      ];
+
+      const execution = modifier.executeNextTxBatch(batch, false);
+      await expect(execution)
+        .to.emit(modifier, "TransactionExecuted")
+        .withArgs(1, await modifier.txHash(1), true);
+      await expect(execution).to.emit(testContract, "ButtonPushed");
+      expect(await modifier.txNonce()).to.equal(3);
+      expect(await ethers.provider.getBalance(FirstAddress)).to.equal(
+        ethAmount
+      );
+    });
+
+    it("throws for a transaction that is not next in the queue", async () => {
+      const first = await enqueue(testContract.address, 0, pushButton);
+      const second = await enqueueSecret(FirstAddress, ethAmount, "0x");
 
       await expect(
-        modifier.executeNextTx(user1.address, 42, "0x", 0)
+        modifier.executeNextTxBatch([second, first], false)
+      ).to.be.revertedWith("Transaction hashes do not match");
+      await expect(
+        modifier.executeNextTxBatch([first, second, first], false)
       ).to.be.revertedWith("Transaction queue is empty");
     });
 
-    it("throws if cooldown has not passed", async () => {
-      const { avatar, modifier } = await setupTestWithTestAvatar();
-      let tx = await modifier.populateTransaction.setTxCooldown(42);
-      await avatar.exec(modifier.address, 0, tx.data);
+    it("reverts the whole batch if a transaction fails and stopOnFailure is not set", async () => {
+      const batch = [
+        await enqueue(testContract.address, 0, pushButton),
+        await enqueue(FirstAddress, tooMuch, "0x"),
+      ];
 
-      tx = await modifier.populateTransaction.enableModule(user1.address);
-      await avatar.exec(modifier.address, 0, tx.data);
+      await expect(
+        modifier.executeNextTxBatch(batch, false)
+      ).to.be.revertedWith("Module transaction failed");
+      expect(await modifier.txNonce()).to.equal(0);
+    });
 
-      await modifier.execTransactionFromModule(user1.address, 42, "0x", 0);
+    it("keeps the transactions before a failing one if stopOnFailure is set", async () => {
+      const batch = [
+        await enqueue(testContract.address, 0, pushButton),
+        await enqueue(FirstAddress, tooMuch, "0x"),
+        await enqueue(testContract.address, 0, pushButton),
+      ];
+
+      const execution = modifier.executeNextTxBatch(batch, true);
+      await expect(execution)
+        .to.emit(modifier, "TransactionExecuted")
+        .withArgs(0, await modifier.txHash(0), true);
+      await expect(execution)
+        .to.emit(modifier, "TransactionExecuted")
+        .withArgs(1, await modifier.txHash(1), false);
+      expect(await modifier.txNonce()).to.equal(1);
+      expect(
+        await modifier.callStatic.executeNextTxBatch(batch.slice(1), true)
+      ).to.equal(0);
+    });
+
+    it("stops at a transaction that is still in cooldown if stopOnFailure is set", async () => {
+      await avatar.exec(
+        modifier.address,
+        0,
+        (await modifier.populateTransaction.setTxCooldown(60)).data
+      );
+      await modifier.finalizeParameterChange(Parameter.TxCooldown);
+      const batch = [await enqueue(testContract.address, 0, pushButton)];
+      await hre.network.provider.send("evm_increaseTime", [60]);
+      batch.push(await enqueue(testContract.address, 0, pushButton));
+
+      expect(
+        await modifier.callStatic.executeNextTxBatch(batch, true)
+      ).to.equal(1);
       await expect(
-        modifier.executeNextTx(user1.address, 42, "0x", 0)
+        modifier.executeNextTxBatch(batch, false)
       ).to.be.revertedWith("Transaction is still in cooldown");
+      await modifier.executeNextTxBatch(batch, true);
+      expect(await modifier.txNonce()).to.equal(1);
     });
 
-    context("when transaction is approved", () => {
-      let testContract: Contract, modifier: Contract, avatar: Contract;
-      let pushButtonTx: PopulatedTransaction;
+    it("uses up one approval per executed transaction", async () => {
+      await avatar.exec(
+        modifier.address,
+        0,
+        (await modifier.populateTransaction.setTxCooldown(60)).data
+      );
+      await modifier.finalizeParameterChange(Parameter.TxCooldown);
+      const batch = [
+        await enqueue(testContract.address, 0, pushButton),
+        await enqueue(FirstAddress, tooMuch, "0x"),
+        await enqueue(testContract.address, 0, pushButton),
+      ];
+      await avatar.exec(
+        modifier.address,
+        0,
+        (await modifier.populateTransaction.approveNext(3)).data
+      );
 
-      beforeEach("enqueue two tx", async () => {
-        ({ avatar, modifier } = await setupTestWithTestAvatar());
-        testContract = await setupTestContract(avatar.address);
+      await modifier.executeNextTxBatch(batch, true);
+      expect(await modifier.txNonce()).to.equal(1);
+      // The failed transaction keeps its approval.
+      expect(await modifier.approved()).to.equal(2);
+    });
 
-        let tx = await modifier.populateTransaction.setTxCooldown(42);
-        await avatar.exec(modifier.address, 0, tx.data);
+    it("throws for a secret transaction that has not been revealed if reveals are required", async () => {
+      await avatar.exec(
+        modifier.address,
+        0,
+        (await modifier.populateTransaction.setRevealRequired(true)).data
+      );
+      const batch = [await enqueueSecret(FirstAddress, ethAmount, "0x")];
 
-        tx = await modifier.populateTransaction.enableModule(user1.address);
-        await avatar.exec(modifier.address, 0, tx.data);
+      await expect(
+        modifier.executeNextTxBatch(batch, false)
+      ).to.be.revertedWith("Transaction has to be revealed first");
+      expect(
+        await modifier.callStatic.executeNextTxBatch(batch, true)
+      ).to.equal(0);
+      await modifier.revealSecretTx(
+        0,
+        FirstAddress,
+        ethAmount,
+        "0x",
+        0,
+        batch[0].salt
+      );
+      await modifier.executeNextTxBatch(batch, false);
+      expect(await modifier.txNonce()).to.equal(1);
+    });
+  });
 
-        await avatar.setModule(modifier.address);
+  describe("revealSecretTx()", () => {
+    let avatar: Contract, modifier: Contract, salt: number;
 
-        pushButtonTx = await testContract.populateTransaction.pushButton();
-        await modifier.execTransactionFromModule(
-          testContract.address,
+    const ethAmount = 420;
+    const testUri = "ipfsHash";
+
+    beforeEach("setup contracts", async () => {
+      ({ avatar, modifier } = await setupTestWithTestAvatar());
+      salt = await modifier.salt();
+      await avatar.setModule(modifier.address);
+      await avatar.exec(
+        modifier.address,
+        0,
+        (await modifier.populateTransaction.enableModule(user1.address)).data
+      );
+      await user1.sendTransaction({ to: avatar.address, value: ethAmount });
+      await modifier.enqueueSecretTx(
+        await modifier.getSecretTransactionHash(
+          FirstAddress,
+          ethAmount,
+          "0x",
+          0,
+          salt
+        ),
+        testUri
+      );
+    });
+
+    it("emits the transaction without executing it", async () => {
+      await expect(
+        modifier
+          .connect(user2)
+          .revealSecretTx(0, FirstAddress, ethAmount, "0x", 0, salt)
+      )
+        .to.emit(modifier, "SecretTransactionRevealed")
+        .withArgs(
+          0,
+          await modifier.txHash(0),
+          FirstAddress,
+          ethAmount,
+          "0x",
+          0,
+          salt
+        );
+      expect(await modifier.txRevealed(0)).to.equal(true);
+      expect(await modifier.txNonce()).to.equal(0);
+      expect(await ethers.provider.getBalance(FirstAddress)).to.equal(0);
+    });
+
+    it("throws if hashes don't match", async () => {
+      await expect(
+        modifier.revealSecretTx(0, FirstAddress, ethAmount + 1, "0x", 0, salt)
+      ).to.be.revertedWith("Transaction hashes do not match");
+    });
+
+    it("throws if the transaction has already been revealed", async () => {
+      await modifier.revealSecretTx(0, FirstAddress, ethAmount, "0x", 0, salt);
+
+      await expect(
+        modifier.revealSecretTx(0, FirstAddress, ethAmount, "0x", 0, salt)
+      ).to.be.revertedWith("Transaction has already been revealed");
+    });
+
+    it("throws if the transaction is not in the queue", async () => {
+      await avatar.exec(
+        modifier.address,
+        0,
+        (await modifier.populateTransaction.vetoTransactionsTill(1)).data
+      );
+
+      await expect(
+        modifier.revealSecretTx(0, FirstAddress, ethAmount, "0x", 0, salt)
+      ).to.be.revertedWith("Transaction is not in the queue");
+      await expect(
+        modifier.revealSecretTx(1, FirstAddress, ethAmount, "0x", 0, salt)
+      ).to.be.revertedWith("Transaction is not in the queue");
+    });
+
+    describe("with reveal required", async () => {
+      beforeEach("require reveal", async () => {
+        await avatar.exec(
+          modifier.address,
+          0,
+          (await modifier.populateTransaction.setRevealRequired(true)).data
+        );
+      });
+
+      it("does not execute unrevealed transactions", async () => {
+        await expect(
+          modifier.executeNextSecretTx(FirstAddress, ethAmount, "0x", 0, salt)
+        ).to.be.revertedWith("Transaction has to be revealed first");
+      });
+
+      it("restarts the cooldown at a late reveal", async () => {
+        await avatar.exec(
+          modifier.address,
+          0,
+          (await modifier.populateTransaction.setTxCooldown(100)).data
+        );
+        await modifier.finalizeParameterChange(Parameter.TxCooldown);
+        await avatar.exec(
+          modifier.address,
+          0,
+          (await modifier.populateTransaction.vetoTransactionsTill(1)).data
+        );
+        const lateSalt = await modifier.salt();
+        await modifier.enqueueSecretTx(
+          await modifier.getSecretTransactionHash(
+            FirstAddress,
+            ethAmount,
+            "0x",
+            0,
+            lateSalt
+          ),
+          testUri
+        );
+        await hre.network.provider.send("evm_increaseTime", [100]);
+
+        await modifier.revealSecretTx(
+          1,
+          FirstAddress,
+          ethAmount,
+          "0x",
+          0,
+          lateSalt
+        );
+        await expect(
+          modifier.executeNextSecretTx(
+            FirstAddress,
+            ethAmount,
+            "0x",
+            0,
+            lateSalt
+          )
+        ).to.be.revertedWith("Transaction is still in cooldown");
+
+        await hre.network.provider.send("evm_increaseTime", [100]);
+        await modifier.executeNextSecretTx(
+          FirstAddress,
+          ethAmount,
+          "0x",
+          0,
+          lateSalt
+        );
+        expect(await ethers.provider.getBalance(FirstAddress)).to.equal(
+          ethAmount
+        );
+      });
+
+      it("counts the expiration from the end of the cooldown after a late reveal", async () => {
+        await avatar.exec(
+          modifier.address,
+          0,
+          (await modifier.populateTransaction.setTxExpiration(60)).data
+        );
+        await modifier.finalizeParameterChange(Parameter.TxExpiration);
+        await avatar.exec(
+          modifier.address,
+          0,
+          (await modifier.populateTransaction.setTxCooldown(100)).data
+        );
+        await modifier.finalizeParameterChange(Parameter.TxCooldown);
+        await avatar.exec(
+          modifier.address,
+          0,
+          (await modifier.populateTransaction.vetoTransactionsTill(1)).data
+        );
+        const lateSalt = await modifier.salt();
+        await modifier.enqueueSecretTx(
+          await modifier.getSecretTransactionHash(
+            FirstAddress,
+            ethAmount,
+            "0x",
+            0,
+            lateSalt
+          ),
+          testUri
+        );
+        await hre.network.provider.send("evm_increaseTime", [150]);
+
+        await modifier.revealSecretTx(
+          1,
+          FirstAddress,
+          ethAmount,
+          "0x",
           0,
-          pushButtonTx.data,
-          0
+          lateSalt
         );
-        await modifier.execTransactionFromModule(
-          testContract.address,
+        await hre.network.provider.send("evm_increaseTime", [100]);
+        await modifier.executeNextSecretTx(
+          FirstAddress,
+          ethAmount,
+          "0x",
           0,
-          pushButtonTx.data,
-          0
+          lateSalt
         );
 
-        let tx3 = await modifier.populateTransaction.approveNext(1);
-        await avatar.exec(modifier.address, 0, tx3.data);
-      });
-
-      it("executes", async () => {
-        await expect(
-          modifier.executeNextTx(testContract.address, 0, pushButtonTx.data, 0)
-        ).to.emit(testContract, "ButtonPushed");
-      });
-
-      it("decrements approved transactions", async () => {
-        await modifier.executeNextTx(
-          testContract.address,
-          0,
-          pushButtonTx.data,
-          0
+        expect(await ethers.provider.getBalance(FirstAddress)).to.equal(
+          ethAmount
         );
-
-        expect(await modifier.approved()).to.equal(0);
       });
     });
+  });
 
-    it("executes during cooldown if transaction had been approved", async () => {
-      const { avatar, modifier } = await setupTestWithTestAvatar();
+  describe("setRevealRequired()", async () => {
+    it("throws if not authorized", async () => {
+      const { modifier } = await setupTestWithTestAvatar();
+      await expect(modifier.setRevealRequired(true)).to.be.revertedWith(
+        "Ownable: caller is not the owner"
+      );
+    });
 
-      const TestContract = await ethers.getContractFactory("TestContract");
-      const testContract = await TestContract.deploy();
-      await testContract.transferOwnership(avatar.address);
+    it("sets revealRequired", async () => {
+      const { avatar, modifier } = await setupTestWithTestAvatar();
+      const tx = await modifier.populateTransaction.setRevealRequired(true);
 
-      let tx = await modifier.populateTransaction.setTxCooldown(42);
       await avatar.exec(modifier.address, 0, tx.data);
 
-      tx = await modifier.populateTransaction.enableModule(user1.address);
-      await avatar.exec(modifier.address, 0, tx.data);
+      expect(await modifier.revealRequired()).to.equal(true);
+    });
+  });
 
-      const tx2 = await testContract.populateTransaction.pushButton();
-      await modifier.execTransactionFromModule(
-        testContract.address,
-        0,
-        tx2.data,
-        0
-      );
-      await expect(
-        modifier.executeNextTx(user1.address, 42, "0x", 0)
-      ).to.be.revertedWith("Transaction is still in cooldown");
+  describe("cancelTransaction()", async () => {
+    let avatar: Contract, modifier: Contract;
 
-      let tx3 = await modifier.populateTransaction.approveNext(1);
-      await avatar.exec(modifier.address, 0, tx3.data);
+    const execAsOwner = async (tx: Promise<PopulatedTransaction>) =>
+      avatar.exec(modifier.address, 0, (await tx).data);
 
+    beforeEach("enqueue three tx", async () => {
+      ({ avatar, modifier } = await setupTestWithTestAvatar());
+      await execAsOwner(
+        modifier.populateTransaction.enableModule(user1.address)
+      );
       await avatar.setModule(modifier.address);
-
-      await expect(
-        modifier.executeNextTx(testContract.address, 0, tx2.data, 0)
-      ).to.emit(testContract, "ButtonPushed");
+      await user1.sendTransaction({ to: avatar.address, value: 10 });
+      for (let i = 0; i < 3; i++) {
+        await modifier.execTransactionFromModule(user1.address, i, "0x", 0);
+      }
     });
 
-    it("throws if transaction has expired", async () => {
-      const { avatar, modifier } = await setupTestWithTestAvatar();
-      const tx = await modifier.populateTransaction.enableModule(user1.address);
-      await avatar.exec(modifier.address, 0, tx.data);
+    it("throws if the transaction is not in the queue", async () => {
+      await expect(modifier.cancelTransaction(3)).to.be.revertedWith(
+        "Transaction is not in the queue"
+      );
+      await modifier.executeNextTx(user1.address, 0, "0x", 0);
+      await expect(modifier.cancelTransaction(0)).to.be.revertedWith(
+        "Transaction is not in the queue"
+      );
+    });
 
-      await avatar.setModule(modifier.address);
-      await modifier.execTransactionFromModule(user1.address, 0, "0x", 0);
-      let expiry = await modifier.txCreatedAt(0);
-      await hre.network.provider.send("evm_setNextBlockTimestamp", [
-        4242424242,
-      ]);
+    it("throws if the caller did not enqueue the transaction", async () => {
+      expect(await modifier.txProposer(1)).to.equal(user1.address);
       await expect(
-        modifier.executeNextTx(user1.address, 0, "0x", 0)
-      ).to.be.revertedWith("Transaction expired");
+        modifier.connect(user2).cancelTransaction(1)
+      ).to.be.revertedWith("Caller can not cancel this transaction");
     });
 
-    it("throws if transaction hashes do not match", async () => {
-      const { avatar, modifier } = await setupTestWithTestAvatar();
-      const tx = await modifier.populateTransaction.enableModule(user1.address);
-      await avatar.exec(modifier.address, 0, tx.data);
+    it("can be called by the module that enqueued the transaction", async () => {
+      await expect(modifier.cancelTransaction(1))
+        .to.emit(modifier, "TransactionCancelled")
+        .withArgs(1, await modifier.txHash(1), user1.address);
+      expect(await modifier.txCancelled(1)).to.equal(true);
+      expect(await modifier.txNonce()).to.equal(0);
 
-      await avatar.setModule(modifier.address);
-      await modifier.execTransactionFromModule(user1.address, 0, "0x", 0);
-      let block = await hre.network.provider.send("eth_getBlockByNumber", [
-        "latest",
-        false,
-      ]);
-      let timestamp = parseInt(block.timestamp) + 100;
-      await hre.network.provider.send("evm_setNextBlockTimestamp", [timestamp]);
-      await expect(
-        modifier.executeNextTx(user1.address, 1, "0x", 0)
-      ).to.be.revertedWith("Transaction hashes do not match");
+      await expect(modifier.cancelTransaction(1)).to.be.revertedWith(
+        "Transaction already cancelled"
+      );
     });
 
-    it("throws if transaction module transaction throws", async () => {
-      const { avatar, modifier } = await setupTestWithTestAvatar();
-      const tx = await modifier.populateTransaction.enableModule(user1.address);
-      await avatar.exec(modifier.address, 0, tx.data);
+    it("can be called by the owner and by guardians", async () => {
+      await execAsOwner(modifier.populateTransaction.cancelTransaction(1));
+      await execAsOwner(
+        modifier.populateTransaction.addGuardian(user2.address)
+      );
+      await modifier.connect(user2).cancelTransaction(2);
 
-      await avatar.setModule(modifier.address);
-      await modifier.execTransactionFromModule(user1.address, 1, "0x", 0);
-      let block = await hre.network.provider.send("eth_getBlockByNumber", [
-        "latest",
-        false,
-      ]);
-      let timestamp = parseInt(block.timestamp) + 100;
-      await hre.network.provider.send("evm_setNextBlockTimestamp", [timestamp]);
-      await expect(
-        modifier.executeNextTx(user1.address, 1, "0x", 0)
-      ).to.be.revertedWith("Module transaction failed");
+      expect(await modifier.txCancelled(1)).to.equal(true);
+      expect(await modifier.txCancelled(2)).to.equal(true);
     });
 
-    it("executes transaction", async () => {
-      const { avatar, modifier } = await setupTestWithTestAvatar();
-      const tx = await modifier.populateTransaction.enableModule(user1.address);
-      await avatar.exec(modifier.address, 0, tx.data);
+    it("moves txNonce past a cancelled head of the queue", async () => {
+      await modifier.cancelTransaction(1);
+      await modifier.cancelTransaction(0);
 
-      await avatar.setModule(modifier.address);
-      await modifier.execTransactionFromModule(user1.address, 0, "0x", 0);
-      let block = await hre.network.provider.send("eth_getBlockByNumber", [
-        "latest",
-        false,
-      ]);
-      let timestamp = parseInt(block.timestamp) + 100;
-      await hre.network.provider.send("evm_setNextBlockTimestamp", [timestamp]);
-      await expect(modifier.executeNextTx(user1.address, 0, "0x", 0));
+      expect(await modifier.txNonce()).to.equal(2);
+      await modifier.executeNextTx(user1.address, 2, "0x", 0);
+      expect(await modifier.txNonce()).to.equal(3);
     });
-  });
-
-  describe("executeNextSecretTx()", () => {
-    let avatar: Contract, modifier: Contract, salt: number;
 
-    const ethAmount = 420;
-    const testUri = "ipfsHash";
+    it("is stepped over when the transaction before it is executed", async () => {
+      await modifier.cancelTransaction(1);
 
-    beforeEach("setup contracts", async () => {
-      ({ avatar, modifier } = await setupTestWithTestAvatar());
-      salt = await modifier.salt();
-      await avatar.setModule(modifier.address);
-      await avatar.exec(
-        modifier.address,
-        0,
-        (await modifier.populateTransaction.enableModule(user1.address)).data
-      );
-      await user1.sendTransaction({ to: avatar.address, value: ethAmount });
+      await modifier.executeNextTx(user1.address, 0, "0x", 0);
+      expect(await modifier.txNonce()).to.equal(2);
+      await expect(
+        modifier.executeNextTx(user1.address, 1, "0x", 0)
+      ).to.be.revertedWith("Transaction hashes do not match");
+      await modifier.executeNextTx(user1.address, 2, "0x", 0);
     });
 
-    beforeEach("enqueue secret tx", async () => {
-      const hashedTx = ethers.utils.solidityKeccak256(
-        ["address", "uint256", "bytes", "uint8", "uint256"],
-        [FirstAddress, ethAmount, "0x", 0, salt]
-      );
-      await modifier.enqueueSecretTx(hashedTx, testUri);
+    it("is stepped over by vetoTransactionsTill and skipExpired", async () => {
+      await modifier.cancelTransaction(1);
+      await execAsOwner(modifier.populateTransaction.vetoTransactionsTill(1));
+      expect(await modifier.txNonce()).to.equal(2);
+
+      await modifier.execTransactionFromModule(user1.address, 3, "0x", 0);
+      await modifier.cancelTransaction(3);
+      await hre.network.provider.send("evm_increaseTime", [0x1337 + 1]);
+      await expect(modifier.skipExpired())
+        .to.emit(modifier, "TransactionsSkipped")
+        .withArgs(2, 2);
+      expect(await modifier.txNonce()).to.equal(4);
     });
 
-    it("reverts if hashes don't match: 'Transaction hashes do not match'", async () => {
-      const wrongSalt = 69;
+    it("uses up the approvals of the cancelled transactions it steps over", async () => {
+      await execAsOwner(modifier.populateTransaction.setTxCooldown(100));
+      await modifier.finalizeParameterChange(Parameter.TxCooldown);
+      await modifier.execTransactionFromModule(user1.address, 3, "0x", 0);
+      await execAsOwner(modifier.populateTransaction.vetoTransactionsTill(3));
+      await modifier.execTransactionFromModule(user1.address, 4, "0x", 0);
+      await execAsOwner(modifier.populateTransaction.approveNext(1));
+
+      await modifier.cancelTransaction(3);
 
+      expect(await modifier.txNonce()).to.equal(4);
+      expect(await modifier.approved()).to.equal(0);
       await expect(
-        modifier.executeNextSecretTx(
-          FirstAddress,
-          ethAmount,
-          "0x",
-          0,
-          wrongSalt
-        )
-      ).to.be.revertedWith("Transaction hashes do not match");
+        modifier.executeNextTx(user1.address, 4, "0x", 0)
+      ).to.be.revertedWith("Transaction is still in cooldown");
     });
 
-    it("executes the transaction", async () => {
-      const { provider } = ethers;
-      await modifier.executeNextSecretTx(
-        FirstAddress,
-        ethAmount,
-        "0x",
-        0,
-        salt
-      );
-      const balance = await provider.getBalance(FirstAddress);
+    it("uses up the approvals of the transactions skipExpired steps over", async () => {
+      await modifier.cancelTransaction(1);
+      await hre.network.provider.send("evm_increaseTime", [0x1337 + 1]);
+      await modifier.execTransactionFromModule(user1.address, 3, "0x", 0);
+      await execAsOwner(modifier.populateTransaction.approveNext(4));
 
-      expect(balance).to.equal(ethAmount);
+      await expect(modifier.skipExpired())
+        .to.emit(modifier, "TransactionsSkipped")
+        .withArgs(0, 3);
+
+      expect(await modifier.txNonce()).to.equal(3);
+      expect(await modifier.approved()).to.equal(1);
     });
   });
 
@@ -802,6 +2274,42 @@ describe("SecretDelay", async () => {
       await expect(parseInt(queuePointer._hex)).to.be.equals(5);
       await expect(modifier.executeNextTx(user1.address, 0, "0x", 0));
     });
+
+    it("emits TransactionsSkipped with the skipped range", async () => {
+      const { avatar, modifier } = await setupTestWithTestAvatar();
+      const tx = await modifier.populateTransaction.enableModule(user1.address);
+      await avatar.exec(modifier.address, 0, tx.data);
+
+      await avatar.setModule(modifier.address);
+      for (let i = 0; i < 3; i++) {
+        await modifier.execTransactionFromModule(user1.address, 0, "0x", 0);
+      }
+      let block = await hre.network.provider.send("eth_getBlockByNumber", [
+        "latest",
+        false,
+      ]);
+      let timestamp = parseInt(block.timestamp) + 424242;
+      await hre.network.provider.send("evm_setNextBlockTimestamp", [timestamp]);
+      await modifier.execTransactionFromModule(user1.address, 0, "0x", 0);
+
+      await expect(modifier.skipExpired())
+        .to.emit(modifier, "TransactionsSkipped")
+        .withArgs(0, 3);
+    });
+
+    it("does not emit TransactionsSkipped if nothing expired", async () => {
+      const { avatar, modifier } = await setupTestWithTestAvatar();
+      const tx = await modifier.populateTransaction.enableModule(user1.address);
+      await avatar.exec(modifier.address, 0, tx.data);
+
+      await avatar.setModule(modifier.address);
+      await modifier.execTransactionFromModule(user1.address, 0, "0x", 0);
+
+      await expect(modifier.skipExpired()).to.not.emit(
+        modifier,
+        "TransactionsSkipped"
+      );
+    });
   });
   describe("vetoTransactionsTillAndApprove()", async () => {
     it("throws if not authorized", async () => {
@@ -834,6 +2342,7 @@ describe("SecretDelay", async () => {
 
       let tx = await modifier.populateTransaction.setTxCooldown(42);
       await avatar.exec(modifier.address, 0, tx.data);
+      await modifier.finalizeParameterChange(Parameter.TxCooldown);
 
       tx = await modifier.populateTransaction.enableModule(user1.address);
       await avatar.exec(modifier.address, 0, tx.data);
@@ -876,6 +2385,7 @@ describe("SecretDelay", async () => {
 
         let tx = await modifier.populateTransaction.setTxCooldown(42);
         await avatar.exec(modifier.address, 0, tx.data);
+        await modifier.finalizeParameterChange(Parameter.TxCooldown);
 
         tx = await modifier.populateTransaction.enableModule(user1.address);
         await avatar.exec(modifier.address, 0, tx.data);
@@ -921,6 +2431,7 @@ describe("SecretDelay", async () => {
 
       let tx = await modifier.populateTransaction.setTxCooldown(42);
       await avatar.exec(modifier.address, 0, tx.data);
+      await modifier.finalizeParameterChange(Parameter.TxCooldown);
 
       tx = await modifier.populateTransaction.enableModule(user1.address);
       await avatar.exec(modifier.address, 0, tx.data);
@@ -969,4 +2480,116 @@ describe("SecretDelay", async () => {
       expect(await modifier.approved()).to.equal(2);
     });
   });
+
+  describe("approveHashes()", async () => {
+    let avatar: Contract, modifier: Contract;
+    let hashes: string[];
+
+    const execAsOwner = async (tx: Promise<PopulatedTransaction>) =>
+      avatar.exec(modifier.address, 0, (await tx).data);
+
+    beforeEach("enqueue three tx", async () => {
+      ({ avatar, modifier } = await setupTestWithTestAvatar());
+      await execAsOwner(
+        modifier.populateTransaction.enableModule(user1.address)
+      );
+      await execAsOwner(modifier.populateTransaction.setTxExpiration(60));
+      await modifier.finalizeParameterChange(Parameter.TxExpiration);
+      await execAsOwner(modifier.populateTransaction.setTxCooldown(100));
+      await modifier.finalizeParameterChange(Parameter.TxCooldown);
+      await avatar.setModule(modifier.address);
+      await user1.sendTransaction({ to: avatar.address, value: 10 });
+      for (let i = 0; i < 3; i++) {
+        await modifier.execTransactionFromModule(user1.address, i, "0x", 0);
+      }
+      hashes = await Promise.all([0, 1, 2].map((i) => modifier.txHash(i)));
+    });
+
+    it("throws if not authorized", async () => {
+      await expect(modifier.approveHashes(0, [hashes[0]])).to.be.revertedWith(
+        "Ownable: caller is not the owner"
+      );
+    });
+
+    it("throws if no hash is given", async () => {
+      await expect(
+        execAsOwner(modifier.populateTransaction.approveHashes(0, []))
+      ).to.be.revertedWith("Must approve at least one tx");
+    });
+
+    it("throws for transactions that are not in the queue", async () => {
+      await expect(
+        execAsOwner(modifier.populateTransaction.approveHashes(2, hashes))
+      ).to.be.revertedWith("Cannot approve unknown tx");
+      await execAsOwner(modifier.populateTransaction.vetoTransactionsTill(1));
+      await expect(
+        execAsOwner(modifier.populateTransaction.approveHashes(0, [hashes[0]]))
+      ).to.be.revertedWith("Cannot approve executed tx");
+    });
+
+    it("throws if a hash does not match its nonce", async () => {
+      await expect(
+        execAsOwner(
+          modifier.populateTransaction.approveHashes(0, [hashes[1], hashes[0]])
+        )
+      ).to.be.revertedWith("Transaction hashes do not match");
+    });
+
+    it("allows executing the approved transactions during their cooldown", async () => {
+      await expect(
+        execAsOwner(
+          modifier.populateTransaction.approveHashes(0, hashes.slice(0, 2))
+        )
+      )
+        .to.emit(modifier, "TransactionHashApproved")
+        .withArgs(1, hashes[1]);
+      expect(await modifier.approvedHash(1)).to.equal(hashes[1]);
+      expect(await modifier.approved()).to.equal(0);
+
+      await modifier.executeNextTx(user1.address, 0, "0x", 0);
+      await modifier.executeNextTx(user1.address, 1, "0x", 0);
+      await expect(
+        modifier.executeNextTx(user1.address, 2, "0x", 0)
+      ).to.be.revertedWith("Transaction is still in cooldown");
+    });
+
+    it("stays bound to its transaction when transactions before it are vetoed", async () => {
+      await execAsOwner(
+        modifier.populateTransaction.approveHashes(1, [hashes[1]])
+      );
+      await expect(
+        modifier.executeNextTx(user1.address, 0, "0x", 0)
+      ).to.be.revertedWith("Transaction is still in cooldown");
+
+      await execAsOwner(modifier.populateTransaction.vetoTransactionsTill(1));
+      await modifier.executeNextTx(user1.address, 1, "0x", 0);
+      await expect(
+        modifier.executeNextTx(user1.address, 2, "0x", 0)
+      ).to.be.revertedWith("Transaction is still in cooldown");
+    });
+
+    it("does not move to the next transaction when the approved one is skipped", async () => {
+      await hre.network.provider.send("evm_increaseTime", [200]);
+      await modifier.execTransactionFromModule(user1.address, 3, "0x", 0);
+      await execAsOwner(
+        modifier.populateTransaction.approveHashes(0, [hashes[0]])
+      );
+
+      await modifier.skipExpired();
+      expect(await modifier.txNonce()).to.equal(3);
+      await expect(
+        modifier.executeNextTx(user1.address, 3, "0x", 0)
+      ).to.be.revertedWith("Transaction is still in cooldown");
+    });
+
+    it("keeps approveNext approving by position, with the skipped transactions using up their places", async () => {
+      await hre.network.provider.send("evm_increaseTime", [200]);
+      await modifier.execTransactionFromModule(user1.address, 3, "0x", 0);
+      await execAsOwner(modifier.populateTransaction.approveNext(4));
+
+      await modifier.skipExpired();
+      await modifier.executeNextTx(user1.address, 3, "0x", 0);
+      expect(await modifier.txNonce()).to.equal(4);
+    });
+  });
 });
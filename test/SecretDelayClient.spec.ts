@@ -0,0 +1,430 @@
+import { expect } from "chai";
+import hre, { ethers, waffle } from "hardhat";
+import "@nomiclabs/hardhat-ethers";
+
+import {
+  generatePrivateSalt,
+  getSecretTransactionHash,
+  Operation,
+  Parameter,
+  SecretDelayClient,
+} from "../src/sdk";
+
+import { increaseBlockTime, setupModifier } from "./utils";
+
+const FirstAddress = "0x0000000000000000000000000000000000000001";
+
+describe("SecretDelayClient", async () => {
+  const cooldown = 100;
+  const expiration = 180;
+  const testUri = "ipfsHash";
+  const [user1] = waffle.provider.getWallets();
+
+  const setupClient = async () => {
+    const { avatar, modifier } = await setupModifier({ cooldown, expiration });
+    const client = new SecretDelayClient(
+      await ethers.getContractAt("SecretDelay", modifier.address, user1)
+    );
+    return { avatar, modifier, client };
+  };
+
+  const transfer = {
+    to: FirstAddress,
+    value: 42,
+    data: "0x",
+    operation: Operation.Call,
+  };
+
+  describe("enqueue()", async () => {
+    it("returns the queue pointer and hash of the transaction", async () => {
+      const { modifier, client } = await setupClient();
+
+      const enqueued = await client.enqueue(transfer);
+
+      expect(enqueued.queuePointer).to.equal(0);
+      expect(enqueued.txHash).to.equal(
+        await modifier.getTransactionHash(FirstAddress, 42, "0x", 0)
+      );
+      expect(await modifier.queuePointer()).to.equal(1);
+    });
+  });
+
+  describe("enqueueSecret()", async () => {
+    it("commits the hash of the transaction with the current salt", async () => {
+      const { modifier, client } = await setupClient();
+      await client.enqueueSecret(transfer, testUri);
+
+      const enqueued = await client.enqueueSecret(transfer, testUri);
+
+      expect(enqueued.queuePointer).to.equal(1);
+      expect(enqueued.salt).to.equal(1);
+      expect(enqueued.uri).to.equal(testUri);
+      expect(enqueued.txHash).to.equal(
+        await modifier.getSecretTransactionHash(FirstAddress, 42, "0x", 0, 1)
+      );
+      expect(await modifier.txHash(1)).to.equal(enqueued.txHash);
+    });
+
+    it("can not be linked to the transaction before reveal with a private salt", async () => {
+      const { modifier, client } = await setupClient();
+      // Transfers of up to 100 wei to a known address, with any of the first salts of the counter.
+      const guess = (txHash: string) => {
+        for (let value = 0; value <= 100; value++) {
+          for (let salt = 0; salt < 5; salt++) {
+            const candidate = { ...transfer, value };
+            if (getSecretTransactionHash(candidate, salt) === txHash) {
+              return candidate;
+            }
+          }
+        }
+        return undefined;
+      };
+      const counterSalted = await client.enqueueSecret(transfer, testUri);
+      const privateSalt = generatePrivateSalt();
+
+      const privatelySalted = await client.enqueueSecret(
+        transfer,
+        testUri,
+        privateSalt
+      );
+
+      expect(guess(counterSalted.txHash)).to.deep.equal(transfer);
+      expect(guess(privatelySalted.txHash)).to.be.undefined;
+      expect(privatelySalted.salt).to.equal(privateSalt);
+      expect(await modifier.txHash(1)).to.equal(
+        getSecretTransactionHash(transfer, privateSalt)
+      );
+    });
+  });
+
+  describe("enqueueSecretBatch()", async () => {
+    it("hashes each transaction with the salt it gets in the batch", async () => {
+      const { modifier, client } = await setupClient();
+      await client.enqueueSecret(transfer, testUri);
+      const privateSalt = generatePrivateSalt();
+
+      const enqueued = await client.enqueueSecretBatch([
+        { tx: transfer, uri: testUri },
+        { tx: { ...transfer, value: 43 }, uri: "otherUri", privateSalt },
+        { tx: transfer, uri: testUri },
+      ]);
+
+      expect(enqueued.map(({ queuePointer }) => queuePointer)).to.deep.equal([
+        1,
+        2,
+        3,
+      ]);
+      expect(enqueued[0].salt).to.equal(1);
+      expect(enqueued[1].salt).to.equal(privateSalt);
+      expect(enqueued[2].salt).to.equal(3);
+      expect(enqueued[1].uri).to.equal("otherUri");
+      for (const [index, { txHash, salt }] of enqueued.entries()) {
+        expect(await modifier.getTxHash(index + 1)).to.equal(txHash);
+        expect(txHash).to.equal(
+          getSecretTransactionHash(
+            { ...transfer, value: index === 1 ? 43 : 42 },
+            salt
+          )
+        );
+      }
+    });
+
+    it("recovers the uri of each entry from the batch calldata", async () => {
+      const { client } = await setupClient();
+      await client.enqueueSecret(transfer, testUri);
+      await client.enqueueSecretBatch([
+        { tx: transfer, uri: "firstUri" },
+        { tx: transfer, uri: "secondUri" },
+      ]);
+
+      const details = await client.getEnqueueDetails();
+
+      expect(
+        [0, 1, 2].map((nonce) => {
+          const entry = details.get(nonce);
+          return entry?.type === "secret" ? entry.uri : undefined;
+        })
+      ).to.deep.equal([testUri, "firstUri", "secondUri"]);
+    });
+  });
+
+  describe("executeNext()", async () => {
+    it("executes the public transaction at the head of the queue", async () => {
+      const { client } = await setupClient();
+      await client.enqueue(transfer);
+      await increaseBlockTime(hre, cooldown);
+
+      const executed = await client.executeNext(transfer);
+
+      expect(executed.nonce).to.equal(0);
+      expect(await ethers.provider.getBalance(FirstAddress)).to.equal(42);
+    });
+  });
+
+  describe("executeNextSecret()", async () => {
+    it("executes the secret transaction at the head of the queue", async () => {
+      const { modifier, client } = await setupClient();
+      const { salt } = await client.enqueueSecret(transfer, testUri);
+      await increaseBlockTime(hre, cooldown);
+
+      const executed = await client.executeNextSecret(transfer, salt);
+
+      expect(executed.nonce).to.equal(0);
+      expect(await modifier.txNonce()).to.equal(1);
+    });
+
+    it("throws if the salt does not match", async () => {
+      const { client } = await setupClient();
+      const { salt } = await client.enqueueSecret(transfer, testUri);
+      await increaseBlockTime(hre, cooldown);
+
+      await expect(
+        client.executeNextSecret(transfer, salt.add(1))
+      ).to.be.revertedWith("Transaction hashes do not match");
+    });
+
+    it("executes a transaction committed with a private salt", async () => {
+      const { modifier, client } = await setupClient();
+      const { salt } = await client.enqueueSecret(
+        transfer,
+        testUri,
+        generatePrivateSalt()
+      );
+      await increaseBlockTime(hre, cooldown);
+
+      await expect(client.executeNextSecret(transfer, 0)).to.be.revertedWith(
+        "Transaction hashes do not match"
+      );
+      await client.executeNextSecret(transfer, salt);
+
+      expect(await modifier.txNonce()).to.equal(1);
+    });
+  });
+
+  describe("executeBatch()", async () => {
+    it("executes public and secret transactions in one call", async () => {
+      const { modifier, client } = await setupClient();
+      await client.enqueue(transfer);
+      const { salt } = await client.enqueueSecret(transfer, testUri);
+      await increaseBlockTime(hre, cooldown);
+
+      const executed = await client.executeBatch(
+        [{ tx: transfer }, { tx: transfer, salt }],
+        false
+      );
+
+      expect(executed.map(({ nonce }) => nonce)).to.deep.equal([0, 1]);
+      expect(await modifier.txNonce()).to.equal(2);
+      expect(await ethers.provider.getBalance(FirstAddress)).to.equal(84);
+    });
+
+    it("returns the transactions executed before the batch stopped", async () => {
+      const { modifier, client } = await setupClient();
+      await client.enqueue(transfer);
+      await client.enqueue(transfer);
+      await increaseBlockTime(hre, cooldown);
+
+      const executed = await client.executeBatch(
+        [{ tx: transfer }, { tx: { ...transfer, value: 43 } }],
+        true
+      );
+
+      expect(executed.map(({ nonce }) => nonce)).to.deep.equal([0]);
+      expect(await modifier.txNonce()).to.equal(1);
+    });
+  });
+
+  describe("veto()", async () => {
+    it("returns the vetoed range", async () => {
+      const { client } = await setupClient();
+      for (let i = 0; i < 3; i++) {
+        await client.enqueue(transfer);
+      }
+
+      const vetoed = await client.veto(2);
+
+      expect(vetoed.startingNonce).to.equal(0);
+      expect(vetoed.count).to.equal(2);
+    });
+  });
+
+  describe("approveNext()", async () => {
+    it("returns the approved range", async () => {
+      const { modifier, client } = await setupClient();
+      await client.enqueue(transfer);
+      await client.enqueue(transfer);
+
+      const approved = await client.approveNext(2);
+
+      expect(approved.startingNonce).to.equal(0);
+      expect(approved.count).to.equal(2);
+      expect(await modifier.approved()).to.equal(2);
+    });
+  });
+
+  describe("approveHashes()", async () => {
+    it("returns the approved range and marks the entries as approved", async () => {
+      const { client } = await setupClient();
+      await client.enqueue(transfer);
+      const { txHash } = await client.enqueue(transfer);
+
+      const approved = await client.approveHashes(1, [txHash]);
+
+      expect(approved.startingNonce).to.equal(1);
+      expect(approved.count).to.equal(1);
+      expect(
+        (await client.getQueue()).map(({ approved }) => approved)
+      ).to.deep.equal([false, true]);
+    });
+  });
+
+  describe("cancel()", async () => {
+    it("returns the cancelled entry and flags it in the queue", async () => {
+      const { client } = await setupClient();
+      await client.enqueue(transfer);
+      const { txHash } = await client.enqueue(transfer);
+
+      const cancelled = await client.cancel(1);
+
+      expect(cancelled.nonce).to.equal(1);
+      expect(cancelled.txHash).to.equal(txHash);
+      expect(cancelled.canceller).to.equal(user1.address);
+      expect(
+        (await client.getQueue()).map(({ cancelled }) => cancelled)
+      ).to.deep.equal([false, true]);
+    });
+  });
+
+  describe("setTxCooldown()", async () => {
+    it("schedules the cooldown until it is finalized or cancelled", async () => {
+      const { modifier, client } = await setupClient();
+
+      const scheduled = await client.setTxCooldown(200);
+      await client.setTxExpiration(0);
+
+      const { blockNumber } = await ethers.provider.getTransactionReceipt(
+        scheduled.transactionHash
+      );
+      const { timestamp } = await ethers.provider.getBlock(blockNumber);
+      expect(scheduled.eta).to.equal(timestamp + cooldown);
+      expect(
+        (
+          await client.getPendingParameterChanges()
+        ).map(({ parameter, value }) => [parameter, value])
+      ).to.deep.equal([
+        [Parameter.TxCooldown, 200],
+        [Parameter.TxExpiration, 0],
+      ]);
+
+      await increaseBlockTime(hre, cooldown + 1);
+      const finalized = await client.finalizeParameterChange(
+        Parameter.TxCooldown
+      );
+      const cancelled = await client.cancelParameterChange(
+        Parameter.TxExpiration
+      );
+
+      expect(finalized).to.deep.include({ value: 200, applied: true });
+      expect(cancelled).to.deep.include({ value: 0, applied: false });
+      expect(await modifier.txCooldown()).to.equal(200);
+      expect(await modifier.txExpiration()).to.equal(expiration);
+      expect(await client.getPendingParameterChanges()).to.deep.equal([]);
+    });
+  });
+
+  describe("setPolicy()", async () => {
+    it("sets and lists the policies that are in place", async () => {
+      const { client } = await setupClient();
+      await client.setPolicy({
+        scope: "target",
+        key: FirstAddress,
+        cooldown: 200,
+        expiration: 0,
+      });
+      await client.setPolicy({
+        scope: "target",
+        key: user1.address,
+        cooldown: 300,
+        expiration: 0,
+      });
+      await client.setPolicy({
+        scope: "selector",
+        key: "0x12345678",
+        cooldown: 400,
+        expiration: 600,
+      });
+      await client.setPolicy({ scope: "secret", cooldown: 500, expiration: 0 });
+      const scheduled = await client.removePolicy("target", user1.address);
+      await increaseBlockTime(hre, cooldown);
+      const removed = await client.removePolicy("target", user1.address);
+
+      expect(scheduled.scheduled?.eta).to.be.greaterThan(0);
+      expect(removed.set).to.equal(false);
+      expect(removed.scheduled).to.equal(undefined);
+      expect(await client.getPolicies()).to.deep.equal([
+        { scope: "target", key: FirstAddress, cooldown: 200, expiration: 0 },
+        {
+          scope: "selector",
+          key: "0x12345678",
+          cooldown: 400,
+          expiration: 600,
+        },
+        { scope: "secret", key: undefined, cooldown: 500, expiration: 0 },
+      ]);
+    });
+
+    it("times queue entries by the policy recorded for them", async () => {
+      const { modifier, client } = await setupClient();
+      await client.setPolicy({
+        scope: "target",
+        key: FirstAddress,
+        cooldown: 200,
+        expiration: 0,
+      });
+      await client.enqueue(transfer);
+
+      const [entry] = await client.getQueue();
+
+      const createdAt = (await modifier.txCreatedAt(0)).toNumber();
+      expect(entry.cooldownEndsAt).to.equal(createdAt + 200);
+      expect(entry.expiresAt).to.equal(undefined);
+    });
+  });
+
+  describe("skipExpired()", async () => {
+    it("returns the skipped range", async () => {
+      const { client } = await setupClient();
+      await client.enqueue(transfer);
+      await client.enqueue(transfer);
+      await increaseBlockTime(hre, cooldown + expiration + 1);
+      await client.enqueue(transfer);
+
+      const skipped = await client.skipExpired();
+
+      expect(skipped.startingNonce).to.equal(0);
+      expect(skipped.count).to.equal(2);
+    });
+  });
+
+  describe("getQueue()", async () => {
+    it("returns the pending entries with their timing", async () => {
+      const { modifier, client } = await setupClient();
+      await client.enqueue(transfer);
+      await client.enqueueSecret(transfer, testUri);
+      await client.veto(1);
+      await client.approveNext(1);
+
+      const queue = await client.getQueue();
+
+      expect(queue).to.have.length(1);
+      const [entry] = queue;
+      const createdAt = (await modifier.txCreatedAt(1)).toNumber();
+      expect(entry.nonce).to.equal(1);
+      expect(entry.txHash).to.equal(await modifier.txHash(1));
+      expect(entry.createdAt).to.equal(createdAt);
+      expect(entry.cooldownEndsAt).to.equal(createdAt + cooldown);
+      expect(entry.expiresAt).to.equal(createdAt + cooldown + expiration);
+      expect(entry.approved).to.equal(true);
+    });
+  });
+});
@@ -0,0 +1,378 @@
+import fs from "fs";
+import os from "os";
+import path from "path";
+
+import { expect } from "chai";
+import hre, { ethers } from "hardhat";
+import "@nomiclabs/hardhat-ethers";
+
+import { getSecretTransactionHash, loadRevealBundle } from "../src/sdk";
+
+import { increaseBlockTime, setupModifier } from "./utils";
+
+const FirstAddress = "0x0000000000000000000000000000000000000001";
+
+describe("Secret proposal tasks", async () => {
+  const cooldown = 100;
+  const testUri = "ipfsHash";
+  const proposal = {
+    id: "proposal",
+    txs: [
+      { to: FirstAddress, value: "42", data: "0x", operation: 0 },
+      { to: FirstAddress, value: "0x2a", data: "0x", operation: 0 },
+    ],
+  };
+
+  const writeProposal = (content: unknown) => {
+    const dir = fs.mkdtempSync(path.join(os.tmpdir(), "secret-delay-"));
+    const file = path.join(dir, "proposal.json");
+    fs.writeFileSync(file, JSON.stringify(content));
+    return file;
+  };
+
+  describe("enqueueSecret", async () => {
+    it("throws if the caller is not an enabled module", async () => {
+      const { modifier } = await setupModifier({ cooldown, module: false });
+
+      const error = await hre
+        .run("enqueueSecret", {
+          modifier: modifier.address,
+          proposal: writeProposal(proposal),
+          uri: testUri,
+        })
+        .catch((e: Error) => e);
+
+      expect(error.message).to.contain("is not an enabled module");
+    });
+
+    it("commits each transaction and writes a reveal bundle", async () => {
+      const { modifier } = await setupModifier({ cooldown, module: false });
+      const [user] = await ethers.getSigners();
+      await modifier.enableModule(user.address);
+      const file = writeProposal(proposal);
+
+      await hre.run("enqueueSecret", {
+        modifier: modifier.address,
+        proposal: file,
+        uri: testUri,
+      });
+
+      const bundle = loadRevealBundle(file.replace(/\.json$/, ".reveal.json"));
+      expect(bundle.modifier).to.equal(modifier.address);
+      expect(bundle.uri).to.equal(testUri);
+      expect(bundle.entries.map(({ nonce }) => nonce)).to.deep.equal([0, 1]);
+      for (let i = 0; i < 2; i++) {
+        const { txHash, salt } = bundle.entries[i];
+        expect(salt).to.equal(i);
+        expect(txHash).to.equal(await modifier.txHash(i));
+        expect(txHash).to.equal(
+          getSecretTransactionHash(bundle.proposal.txs[i], salt)
+        );
+      }
+    });
+  });
+
+  describe("revealAndExecute", async () => {
+    const enqueue = async (modifierAddress: string, privateSalt = false) => {
+      const file = writeProposal(proposal);
+      await hre.run("enqueueSecret", {
+        modifier: modifierAddress,
+        proposal: file,
+        uri: testUri,
+        privateSalt,
+      });
+      return { file, bundle: file.replace(/\.json$/, ".reveal.json") };
+    };
+
+    const mine = async (seconds: number) => {
+      await increaseBlockTime(hre, seconds);
+      await hre.network.provider.send("evm_mine");
+    };
+
+    it("requires either a bundle or a proposal", async () => {
+      const error = await hre.run("revealAndExecute", {}).catch((e) => e);
+
+      expect(error.message).to.equal(
+        "Pass either a reveal bundle or a proposal file"
+      );
+    });
+
+    it("executes the transactions of a reveal bundle", async () => {
+      const { modifier } = await setupModifier({ cooldown, module: false });
+      const [user] = await ethers.getSigners();
+      await modifier.enableModule(user.address);
+      const { bundle } = await enqueue(modifier.address);
+      await mine(cooldown);
+
+      await hre.run("revealAndExecute", { bundle });
+
+      expect(await modifier.txNonce()).to.equal(2);
+      expect(await ethers.provider.getBalance(FirstAddress)).to.equal(84);
+    });
+
+    it("executes a proposal file with the salts from the queue", async () => {
+      const { modifier } = await setupModifier({ cooldown, module: false });
+      const [user] = await ethers.getSigners();
+      await modifier.enableModule(user.address);
+      const { file } = await enqueue(modifier.address);
+      await mine(cooldown);
+
+      await hre.run("revealAndExecute", {
+        modifier: modifier.address,
+        proposal: file,
+      });
+
+      expect(await modifier.txNonce()).to.equal(2);
+    });
+
+    it("executes a reveal bundle with private salts", async () => {
+      const { modifier } = await setupModifier({ cooldown, module: false });
+      const [user] = await ethers.getSigners();
+      await modifier.enableModule(user.address);
+      const { bundle } = await enqueue(modifier.address, true);
+      await mine(cooldown);
+
+      await hre.run("revealAndExecute", { bundle });
+
+      expect(await modifier.txNonce()).to.equal(2);
+    });
+
+    it("asks for the reveal bundle of a proposal file with private salts", async () => {
+      const { modifier } = await setupModifier({ cooldown, module: false });
+      const [user] = await ethers.getSigners();
+      await modifier.enableModule(user.address);
+      const { file } = await enqueue(modifier.address, true);
+      await mine(cooldown);
+
+      const error = await hre
+        .run("revealAndExecute", { modifier: modifier.address, proposal: file })
+        .catch((e: Error) => e);
+
+      expect(error.message).to.match(
+        /^Can not execute txs\[0\]: it does not match the transaction at the head of the queue \(nonce 0, hash 0x[0-9a-f]{64}\), if it was enqueued with a private salt pass its reveal bundle instead$/
+      );
+    });
+
+    it("executes a reveal bundle with domain separated hashes", async () => {
+      const { modifier } = await setupModifier({ cooldown, module: false });
+      const [user] = await ethers.getSigners();
+      await modifier.enableModule(user.address);
+      await modifier.setDomainSeparated(true);
+      const { bundle } = await enqueue(modifier.address);
+      await mine(cooldown);
+
+      expect(loadRevealBundle(bundle).domainSeparated).to.equal(true);
+      await hre.run("revealAndExecute", { bundle });
+
+      expect(await modifier.txNonce()).to.equal(2);
+    });
+
+    it("executes public entries of a proposal file", async () => {
+      const { modifier } = await setupModifier({ cooldown, module: false });
+      const [user] = await ethers.getSigners();
+      await modifier.enableModule(user.address);
+      for (const { to, value, data, operation } of proposal.txs) {
+        await modifier.execTransactionFromModule(to, value, data, operation);
+      }
+      await mine(cooldown);
+
+      await hre.run("revealAndExecute", {
+        modifier: modifier.address,
+        proposal: writeProposal(proposal),
+      });
+
+      expect(await modifier.txNonce()).to.equal(2);
+    });
+
+    it("explains that the head is still in cooldown", async () => {
+      const { modifier } = await setupModifier({ cooldown, module: false });
+      const [user] = await ethers.getSigners();
+      await modifier.enableModule(user.address);
+      const { bundle } = await enqueue(modifier.address);
+
+      const error = await hre
+        .run("revealAndExecute", { bundle })
+        .catch((e: Error) => e);
+
+      expect(error.message).to.match(
+        /^Can not execute txs\[0\]: Transaction 0 is still in cooldown until .* and has not been approved$/
+      );
+    });
+
+    it("explains that earlier transactions have to be handled first", async () => {
+      const { modifier } = await setupModifier({ cooldown, module: false });
+      const [user] = await ethers.getSigners();
+      await modifier.enableModule(user.address);
+      await modifier.execTransactionFromModule(FirstAddress, 1, "0x", 0);
+      const { bundle } = await enqueue(modifier.address);
+      await mine(cooldown);
+
+      const error = await hre
+        .run("revealAndExecute", { bundle })
+        .catch((e: Error) => e);
+
+      expect(error.message).to.equal(
+        "Can not execute txs[0]: it is queued at nonce 1, but the head of the queue is 0; the transactions before it have to be executed, vetoed or skipped first"
+      );
+    });
+  });
+
+  describe("reveal", async () => {
+    const enqueue = async (modifierAddress: string) => {
+      const file = writeProposal(proposal);
+      await hre.run("enqueueSecret", {
+        modifier: modifierAddress,
+        proposal: file,
+        uri: testUri,
+      });
+      return file.replace(/\.json$/, ".reveal.json");
+    };
+
+    it("reveals the transactions of a bundle without executing them", async () => {
+      const { modifier } = await setupModifier({ cooldown, module: false });
+      const [user] = await ethers.getSigners();
+      await modifier.enableModule(user.address);
+      const bundle = await enqueue(modifier.address);
+
+      const revealed = await hre.run("reveal", { bundle });
+
+      expect(
+        revealed.map(({ nonce }: { nonce: number }) => nonce)
+      ).to.deep.equal([0, 1]);
+      expect(await modifier.txRevealed(1)).to.equal(true);
+      expect(await modifier.txNonce()).to.equal(0);
+    });
+
+    it("is required before revealAndExecute if the modifier requires it", async () => {
+      const { modifier } = await setupModifier({ cooldown, module: false });
+      const [user] = await ethers.getSigners();
+      await modifier.enableModule(user.address);
+      await modifier.setRevealRequired(true);
+      const bundle = await enqueue(modifier.address);
+      await increaseBlockTime(hre, cooldown);
+      await hre.network.provider.send("evm_mine");
+
+      const error = await hre
+        .run("revealAndExecute", { bundle })
+        .catch((e: Error) => e);
+      await hre.run("reveal", { bundle });
+      // The cooldown starts again at the reveal.
+      await increaseBlockTime(hre, cooldown);
+      await hre.network.provider.send("evm_mine");
+      await hre.run("revealAndExecute", { bundle });
+
+      expect(error.message).to.equal(
+        "Can not execute txs[0]: transaction 0 has to be revealed with the reveal task first, so that it can be reviewed during its cooldown"
+      );
+      expect(await modifier.txNonce()).to.equal(2);
+    });
+  });
+
+  describe("enqueueSecretBatch", async () => {
+    it("commits several proposals in one transaction and writes a reveal bundle per proposal", async () => {
+      const { modifier } = await setupModifier({ cooldown, module: false });
+      const [user] = await ethers.getSigners();
+      await modifier.enableModule(user.address);
+      const first = writeProposal(proposal);
+      const second = writeProposal({ id: "second", txs: [proposal.txs[0]] });
+
+      await hre.run("enqueueSecretBatch", {
+        modifier: modifier.address,
+        proposals: `${first},${second}`,
+        uris: `${testUri},otherUri`,
+      });
+      await increaseBlockTime(hre, cooldown);
+      await hre.network.provider.send("evm_mine");
+      for (const file of [first, second]) {
+        await hre.run("revealAndExecute", {
+          bundle: file.replace(/\.json$/, ".reveal.json"),
+        });
+      }
+
+      const bundle = loadRevealBundle(
+        second.replace(/\.json$/, ".reveal.json")
+      );
+      expect(bundle.uri).to.equal("otherUri");
+      expect(bundle.entries[0].nonce).to.equal(2);
+      expect(await modifier.txNonce()).to.equal(3);
+    });
+
+    it("throws if there is not one uri per proposal", async () => {
+      const { modifier } = await setupModifier({ cooldown, module: false });
+
+      const error = await hre
+        .run("enqueueSecretBatch", {
+          modifier: modifier.address,
+          proposals: `${writeProposal(proposal)},${writeProposal(proposal)}`,
+          uris: testUri,
+        })
+        .catch((e: Error) => e);
+
+      expect(error.message).to.equal(
+        "Got 2 proposal files but 1 uris, pass one uri per proposal"
+      );
+    });
+  });
+
+  describe("executeAll", async () => {
+    const mine = async (seconds: number) => {
+      await increaseBlockTime(hre, seconds);
+      await hre.network.provider.send("evm_mine");
+    };
+
+    const setupQueue = async () => {
+      const { modifier } = await setupModifier({ cooldown, module: false });
+      const [user] = await ethers.getSigners();
+      await modifier.enableModule(user.address);
+      await modifier.execTransactionFromModule(FirstAddress, 1, "0x", 0);
+      const file = writeProposal(proposal);
+      await hre.run("enqueueSecret", {
+        modifier: modifier.address,
+        proposal: file,
+        uri: testUri,
+      });
+      return { modifier, bundle: file.replace(/\.json$/, ".reveal.json") };
+    };
+
+    it("stops before transactions that are in cooldown", async () => {
+      const { modifier, bundle } = await setupQueue();
+
+      const executed = await hre.run("executeAll", {
+        modifier: modifier.address,
+        bundles: bundle,
+      });
+
+      expect(executed).to.deep.equal([]);
+      expect(await modifier.txNonce()).to.equal(0);
+    });
+
+    it("stops before secret transactions that are not in the reveal bundles", async () => {
+      const { modifier } = await setupQueue();
+      await mine(cooldown);
+
+      const executed = await hre.run("executeAll", {
+        modifier: modifier.address,
+      });
+
+      expect(
+        executed.map(({ nonce }: { nonce: number }) => nonce)
+      ).to.deep.equal([0]);
+      expect(await modifier.txNonce()).to.equal(1);
+    });
+
+    it("executes public transactions and the secret transactions of the reveal bundles", async () => {
+      const { modifier, bundle } = await setupQueue();
+      await mine(cooldown);
+
+      const executed = await hre.run("executeAll", {
+        modifier: modifier.address,
+        bundles: bundle,
+      });
+
+      expect(
+        executed.map(({ nonce }: { nonce: number }) => nonce)
+      ).to.deep.equal([0, 1, 2]);
+      expect(await ethers.provider.getBalance(FirstAddress)).to.equal(85);
+    });
+  });
+});
@@ -0,0 +1,118 @@
+import { expect } from "chai";
+import hre, { deployments, ethers } from "hardhat";
+import "@nomiclabs/hardhat-ethers";
+
+describe("setup task", async () => {
+  const cooldown = 100;
+  const expiration = 180;
+
+  const baseSetup = deployments.createFixture(async () => {
+    await deployments.fixture();
+    const Factory = await hre.ethers.getContractFactory("ModuleProxyFactory");
+    const factory = await Factory.deploy();
+    return { factory };
+  });
+
+  const setupArgs = async () => {
+    const [owner, avatar, target] = await ethers.getSigners();
+    return {
+      owner: owner.address,
+      avatar: avatar.address,
+      target: target.address,
+      cooldown,
+      expiration,
+    };
+  };
+
+  it("deploys a SecretDelay modifier", async () => {
+    await baseSetup();
+    const args = await setupArgs();
+
+    const address = await hre.run("setup", args);
+
+    const modifier = await ethers.getContractAt("SecretDelay", address);
+    expect(await modifier.owner()).to.equal(args.owner);
+    expect(await modifier.avatar()).to.equal(args.avatar);
+    expect(await modifier.txCooldown()).to.equal(cooldown);
+    expect(await modifier.salt()).to.equal(0);
+  });
+
+  it("deploys a proxy of the deployed master copy", async () => {
+    const { factory } = await baseSetup();
+    const masterCopy = await deployments.get("SecretDelay");
+    const args = await setupArgs();
+
+    const address = await hre.run("setup", {
+      ...args,
+      proxied: true,
+      factory: factory.address,
+    });
+
+    const creation = await factory.queryFilter(
+      factory.filters.ModuleProxyCreation(address, masterCopy.address)
+    );
+    expect(creation).to.have.length(1);
+    const modifier = await ethers.getContractAt("SecretDelay", address);
+    expect(await modifier.owner()).to.equal(args.owner);
+    expect(await modifier.target()).to.equal(args.target);
+    expect(await modifier.txExpiration()).to.equal(expiration);
+  });
+
+  it("deploys a proxy of a given master copy", async () => {
+    const { factory } = await baseSetup();
+    const Modifier = await hre.ethers.getContractFactory("SecretDelay");
+    const masterCopy = await Modifier.deploy(
+      "0x0000000000000000000000000000000000000001",
+      "0x0000000000000000000000000000000000000001",
+      "0x0000000000000000000000000000000000000001",
+      0,
+      0,
+      0
+    );
+
+    const address = await hre.run("setup", {
+      ...(await setupArgs()),
+      proxied: true,
+      mastercopy: masterCopy.address,
+      factory: factory.address,
+    });
+
+    const creation = await factory.queryFilter(
+      factory.filters.ModuleProxyCreation(address, masterCopy.address)
+    );
+    expect(creation).to.have.length(1);
+  });
+
+  it("throws if the factory does not create a proxy", async () => {
+    await baseSetup();
+    const Mock = await hre.ethers.getContractFactory("MockContract");
+    const notFactory = await Mock.deploy();
+
+    const error = await hre
+      .run("setup", {
+        ...(await setupArgs()),
+        proxied: true,
+        mastercopy: notFactory.address,
+        factory: notFactory.address,
+      })
+      .catch((e: Error) => e);
+
+    expect(error.message).to.match(
+      new RegExp(
+        `^${notFactory.address} did not emit ModuleProxyCreation in 0x[0-9a-f]{64}, is it a ModuleProxyFactory\\?$`
+      )
+    );
+  });
+
+  it("throws if there is no factory", async () => {
+    await baseSetup();
+
+    const error = await hre
+      .run("setup", { ...(await setupArgs()), proxied: true })
+      .catch((e: Error) => e);
+
+    expect(error.message).to.equal(
+      "No ModuleProxyFactory found on chain 31337, pass its address with --factory"
+    );
+  });
+});
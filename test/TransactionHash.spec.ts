@@ -0,0 +1,183 @@
+import { expect } from "chai";
+import { BigNumber } from "ethers";
+import { getAddress, hexlify, randomBytes } from "ethers/lib/utils";
+import hre from "hardhat";
+import "@nomiclabs/hardhat-ethers";
+
+import {
+  getDomainSeparator,
+  getSecretProposalHashes,
+  getSecretTransactionHash,
+  getTransactionHash,
+  MetaTransaction,
+  Operation,
+} from "../src/sdk";
+
+import { setupModifier } from "./utils";
+
+const FirstAddress = "0x0000000000000000000000000000000000000001";
+const runs = 64;
+
+const randomInt = (max: number) => Math.floor(Math.random() * max);
+
+const randomUint = () => BigNumber.from(randomBytes(randomInt(32) + 1));
+
+const randomTransaction = (): MetaTransaction => ({
+  to: getAddress(hexlify(randomBytes(20))),
+  value: randomUint(),
+  data: hexlify(randomBytes(randomInt(200))),
+  operation: randomInt(2) as Operation,
+});
+
+describe("Transaction hashes", async () => {
+  const setup = () => setupModifier({ cooldown: 0, module: false });
+
+  // Modifier owned by the first signer, with domain separated hashes.
+  const setupDomainSeparated = async () => {
+    const { modifier } = await setupModifier({ cooldown: 0, module: false });
+    await modifier.setDomainSeparated(true);
+    const domain = {
+      chainId: (await hre.ethers.provider.getNetwork()).chainId,
+      verifyingContract: modifier.address,
+    };
+    return { modifier, domain };
+  };
+
+  describe("getTransactionHash()", async () => {
+    it("matches the contract for random transactions", async () => {
+      const { modifier } = await setup();
+      for (let i = 0; i < runs; i++) {
+        const tx = randomTransaction();
+        expect(getTransactionHash(tx)).to.equal(
+          await modifier.getTransactionHash(
+            tx.to,
+            tx.value,
+            tx.data,
+            tx.operation
+          ),
+          JSON.stringify(tx)
+        );
+      }
+    });
+
+    it("matches the contract with domain separated hashes", async () => {
+      const { modifier, domain } = await setupDomainSeparated();
+      for (let i = 0; i < runs; i++) {
+        const tx = randomTransaction();
+        expect(getTransactionHash(tx, domain)).to.equal(
+          await modifier.getTransactionHash(
+            tx.to,
+            tx.value,
+            tx.data,
+            tx.operation
+          ),
+          JSON.stringify(tx)
+        );
+      }
+    });
+  });
+
+  describe("getSecretTransactionHash()", async () => {
+    it("matches the contract for random transactions and salts", async () => {
+      const { modifier } = await setup();
+      for (let i = 0; i < runs; i++) {
+        const tx = randomTransaction();
+        const salt = randomUint();
+        expect(getSecretTransactionHash(tx, salt)).to.equal(
+          await modifier.getSecretTransactionHash(
+            tx.to,
+            tx.value,
+            tx.data,
+            tx.operation,
+            salt
+          ),
+          JSON.stringify({ ...tx, salt })
+        );
+      }
+    });
+
+    it("matches the contract with domain separated hashes", async () => {
+      const { modifier, domain } = await setupDomainSeparated();
+      for (let i = 0; i < runs; i++) {
+        const tx = randomTransaction();
+        const salt = randomUint();
+        expect(getSecretTransactionHash(tx, salt, domain)).to.equal(
+          await modifier.getSecretTransactionHash(
+            tx.to,
+            tx.value,
+            tx.data,
+            tx.operation,
+            salt
+          ),
+          JSON.stringify({ ...tx, salt })
+        );
+      }
+    });
+
+    it("differs between chains and modifiers", async () => {
+      const { domain } = await setupDomainSeparated();
+      const tx = randomTransaction();
+      const hash = getSecretTransactionHash(tx, 1, domain);
+
+      expect(
+        getSecretTransactionHash(tx, 1, { ...domain, chainId: 1 })
+      ).to.not.equal(hash);
+      expect(
+        getSecretTransactionHash(tx, 1, {
+          ...domain,
+          verifyingContract: FirstAddress,
+        })
+      ).to.not.equal(hash);
+    });
+  });
+
+  describe("getDomainSeparator()", async () => {
+    it("matches the contract", async () => {
+      const { modifier, domain } = await setupDomainSeparated();
+
+      expect(getDomainSeparator(domain)).to.equal(
+        await modifier.domainSeparator()
+      );
+    });
+  });
+
+  describe("getSecretProposalHashes()", async () => {
+    it("hashes each transaction with consecutive salts", async () => {
+      const { modifier } = await setup();
+      const txs = [
+        randomTransaction(),
+        randomTransaction(),
+        randomTransaction(),
+      ];
+
+      const hashes = getSecretProposalHashes(txs, 7);
+
+      expect(hashes).to.have.length(txs.length);
+      for (let i = 0; i < txs.length; i++) {
+        const { to, value, data, operation } = txs[i];
+        expect(hashes[i]).to.equal(
+          await modifier.getSecretTransactionHash(
+            to,
+            value,
+            data,
+            operation,
+            7 + i
+          )
+        );
+      }
+    });
+
+    it("matches the hashes committed by consecutive enqueueSecretTx calls", async () => {
+      const { modifier } = await setupModifier({ cooldown: 0 });
+      const txs = [randomTransaction(), randomTransaction()];
+      const hashes = getSecretProposalHashes(txs, await modifier.salt());
+
+      for (const hash of hashes) {
+        await modifier.enqueueSecretTx(hash, "ipfsHash");
+      }
+
+      expect(await modifier.txHash(0)).to.equal(hashes[0]);
+      expect(await modifier.txHash(1)).to.equal(hashes[1]);
+    });
+  });
+});
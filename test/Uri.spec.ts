@@ -0,0 +1,299 @@
+import fs from "fs";
+import http from "http";
+import { AddressInfo } from "net";
+import os from "os";
+import path from "path";
+
+import { expect } from "chai";
+import { toUtf8Bytes } from "ethers/lib/utils";
+import hre, { ethers } from "hardhat";
+import "@nomiclabs/hardhat-ethers";
+
+import {
+  computeCid,
+  computeCidV0,
+  httpUriResolver,
+  localUriStore,
+  resolveUri,
+} from "../src/sdk";
+
+import { increaseBlockTime, setupModifier } from "./utils";
+
+const FirstAddress = "0x0000000000000000000000000000000000000001";
+
+describe("URI resolvers", async () => {
+  const cooldown = 100;
+  const proposal = {
+    id: "proposal",
+    txs: [
+      { to: FirstAddress, value: "42", data: "0x", operation: 0 },
+      { to: FirstAddress, value: "43", data: "0x", operation: 0 },
+    ],
+  };
+
+  const tempDir = () => fs.mkdtempSync(path.join(os.tmpdir(), "secret-delay-"));
+
+  describe("computeCid()", async () => {
+    it("computes the CIDv1 of a raw block", async () => {
+      expect(computeCid(toUtf8Bytes("hello world"))).to.equal(
+        "bafkreifzjut3te2nhyekklss27nh3k72ysco7y32koao5eei66wof36n5e"
+      );
+    });
+
+    it("throws for contents that IPFS would split into several blocks", async () => {
+      expect(() => computeCid(new Uint8Array(262145))).to.throw(
+        "does not fit a single IPFS block"
+      );
+    });
+  });
+
+  describe("computeCidV0()", async () => {
+    it("computes the CIDv0 of a single UnixFS file node", async () => {
+      expect(computeCidV0(toUtf8Bytes("hello world\n"))).to.equal(
+        "QmT78zSuBmuS4z925WZfrqQ1qHaJ56DQaTfyMUF7F8ff5o"
+      );
+      expect(computeCidV0(new Uint8Array(0))).to.equal(
+        "QmbFMke1KXqnYyBBWxB74N4c5SBnJMVAiMNRcGu6x1AwQH"
+      );
+    });
+  });
+
+  describe("localUriStore()", async () => {
+    it("resolves stored contents by their CID", async () => {
+      const store = localUriStore(tempDir());
+      const content = toUtf8Bytes("hello world");
+
+      const uri = await store.put(content);
+
+      expect(uri).to.equal(`ipfs://${computeCid(content)}`);
+      expect(await store.resolve(uri)).to.deep.equal(Buffer.from(content));
+    });
+
+    it("throws if a stored content was changed", async () => {
+      const directory = tempDir();
+      const store = localUriStore(directory);
+      const uri = await store.put(toUtf8Bytes("hello world"));
+      fs.writeFileSync(
+        path.join(directory, computeCid(toUtf8Bytes("hello world"))),
+        "hello"
+      );
+
+      const error = (await store.resolve(uri).catch((e: Error) => e)) as Error;
+
+      expect(error.message).to.equal(
+        `Content resolved for ${uri} does not match its CID`
+      );
+    });
+  });
+
+  describe("httpUriResolver()", async () => {
+    // Serves a local store the way an IPFS gateway does.
+    const withGateway = async (
+      directory: string,
+      test: (gateway: string) => Promise<void>
+    ) => {
+      const server = http.createServer((request, response) => {
+        const file = path.join(
+          directory,
+          (request.url as string).replace(/^\/ipfs\//, "")
+        );
+        if (fs.existsSync(file)) {
+          response.end(fs.readFileSync(file));
+        } else {
+          response.statusCode = 404;
+          response.end();
+        }
+      });
+      await new Promise<void>((resolve) => server.listen(0, resolve));
+      try {
+        await test(
+          `http://127.0.0.1:${(server.address() as AddressInfo).port}/`
+        );
+      } finally {
+        server.close();
+      }
+    };
+
+    it("resolves ipfs uris through a gateway and checks their CID", async () => {
+      const directory = tempDir();
+      const uri = await localUriStore(directory).put(toUtf8Bytes("hello"));
+      const missing = `ipfs://${computeCid(toUtf8Bytes("missing"))}`;
+
+      await withGateway(directory, async (gateway) => {
+        const resolver = httpUriResolver(gateway);
+
+        expect(await resolver.resolve(uri)).to.deep.equal(Buffer.from("hello"));
+        const error = (await resolver
+          .resolve(missing)
+          .catch((e: Error) => e)) as Error;
+        expect(error.message).to.contain("responded with 404");
+      });
+    });
+
+    it("resolves CIDv0 uris through a gateway and checks their CID", async () => {
+      const directory = tempDir();
+      const cid = computeCidV0(toUtf8Bytes("hello"));
+      fs.writeFileSync(path.join(directory, cid), "hello");
+      const changed = computeCidV0(toUtf8Bytes("changed"));
+      fs.writeFileSync(path.join(directory, changed), "hello");
+
+      await withGateway(directory, async (gateway) => {
+        const resolver = httpUriResolver(gateway);
+
+        expect(await resolver.resolve(`ipfs://${cid}`)).to.deep.equal(
+          Buffer.from("hello")
+        );
+        const error = (await resolver
+          .resolve(`ipfs://${changed}`)
+          .catch((e: Error) => e)) as Error;
+        expect(error.message).to.equal(
+          `Content resolved for ipfs://${changed} does not match its CID`
+        );
+      });
+    });
+
+    it("is used by resolveUri for uris the local store can not resolve", async () => {
+      const directory = tempDir();
+      await localUriStore(directory).put(toUtf8Bytes("hello"));
+
+      await withGateway(directory, async (gateway) => {
+        const resolvers = [localUriStore(tempDir()), httpUriResolver(gateway)];
+
+        expect(
+          await resolveUri(
+            resolvers,
+            `${gateway}ipfs/${computeCid(toUtf8Bytes("hello"))}`
+          )
+        ).to.deep.equal(Buffer.from("hello"));
+        expect(
+          await resolveUri(
+            resolvers,
+            `ipfs://${computeCid(toUtf8Bytes("hello"))}`
+          )
+        ).to.deep.equal(Buffer.from("hello"));
+        const error = (await resolveUri(resolvers, "ar://hello").catch(
+          (e: Error) => e
+        )) as Error;
+        expect(error.message).to.equal("No resolver for ar://hello");
+      });
+    });
+  });
+
+  describe("tasks", async () => {
+    const writeProposal = (directory: string) => {
+      const file = path.join(directory, "proposal.json");
+      fs.writeFileSync(file, JSON.stringify(proposal));
+      return file;
+    };
+
+    it("enqueues, resolves and executes a proposal from a local store", async () => {
+      const { avatar, modifier } = await setupModifier({ cooldown });
+      const directory = tempDir();
+      const store = path.join(directory, "store");
+
+      await hre.run("enqueueSecret", {
+        modifier: modifier.address,
+        proposal: writeProposal(directory),
+        store,
+      });
+      const resolved = await hre.run("resolve", {
+        modifier: modifier.address,
+        nonce: 0,
+        store,
+        bundle: path.join(directory, "resolved.json"),
+      });
+      await increaseBlockTime(hre, cooldown);
+      await hre.network.provider.send("evm_mine");
+      await hre.run("revealAndExecute", {
+        bundle: path.join(directory, "resolved.json"),
+      });
+
+      expect(resolved.uri).to.equal(
+        `ipfs://${computeCid(
+          fs.readFileSync(path.join(directory, "proposal.json"))
+        )}`
+      );
+      expect(
+        resolved.entries.map(({ nonce }: { nonce: number }) => nonce)
+      ).to.deep.equal([0, 1]);
+      expect(await modifier.txNonce()).to.equal(2);
+      expect(await ethers.provider.getBalance(avatar.address)).to.equal(915);
+    });
+
+    it("resolves encrypted reveal bundles with a guardian key", async () => {
+      const { modifier } = await setupModifier({ cooldown });
+      const directory = tempDir();
+      const store = path.join(directory, "store");
+      await hre.run("guardianKey", { out: path.join(directory, "guardian") });
+      await hre.run("enqueueSecret", {
+        modifier: modifier.address,
+        proposal: writeProposal(directory),
+        store,
+        privateSalt: true,
+        guardians: path.join(directory, "guardian.pub"),
+      });
+
+      const error = await hre
+        .run("resolve", { modifier: modifier.address, nonce: 1, store })
+        .catch((e: Error) => e);
+      const resolved = await hre.run("resolve", {
+        modifier: modifier.address,
+        nonce: 1,
+        store,
+        key: path.join(directory, "guardian.key"),
+      });
+
+      expect(error.message).to.contain(
+        "holds an encrypted reveal bundle, a guardian key is required to read it"
+      );
+      expect(resolved.proposal.txs[0].value.toString()).to.equal("43");
+      expect(resolved.entries[0]).to.include({ nonce: 1 });
+    });
+
+    it("throws if the content does not match the committed hash", async () => {
+      const { modifier } = await setupModifier({ cooldown });
+      const directory = tempDir();
+      const store = path.join(directory, "store");
+      const uri = await localUriStore(store).put(
+        toUtf8Bytes(JSON.stringify({ ...proposal, txs: [proposal.txs[1]] }))
+      );
+      const file = writeProposal(directory);
+      await hre.run("enqueueSecret", {
+        modifier: modifier.address,
+        proposal: file,
+        uri,
+      });
+
+      const error = await hre
+        .run("resolve", { modifier: modifier.address, nonce: 0, store })
+        .catch((e: Error) => e);
+      const resolved = await hre.run("resolve", {
+        modifier: modifier.address,
+        nonce: 1,
+        store,
+      });
+
+      expect(error.message).to.equal(
+        `No transaction at ${uri} hashes to ${await modifier.txHash(
+          0
+        )}, the hash of transaction 0`
+      );
+      expect(resolved.entries).to.have.lengthOf(1);
+    });
+
+    it("enqueueSecret requires either a uri or a store", async () => {
+      const { modifier } = await setupModifier({ cooldown });
+
+      const error = await hre
+        .run("enqueueSecret", {
+          modifier: modifier.address,
+          proposal: writeProposal(tempDir()),
+        })
+        .catch((e: Error) => e);
+
+      expect(error.message).to.equal(
+        "Pass either a uri or a store to put the proposal in"
+      );
+    });
+  });
+});
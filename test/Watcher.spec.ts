@@ -0,0 +1,285 @@
+import fs from "fs";
+import http from "http";
+import { AddressInfo } from "net";
+import os from "os";
+import path from "path";
+
+import { expect } from "chai";
+import { ethers, waffle } from "hardhat";
+import "@nomiclabs/hardhat-ethers";
+
+import {
+  AlertSink,
+  fileSink,
+  Operation,
+  QueueAlert,
+  SecretDelayClient,
+  SecretDelayWatcher,
+  webhookSink,
+} from "../src/sdk";
+
+import { setupModifier } from "./utils";
+
+const FirstAddress = "0x0000000000000000000000000000000000000001";
+
+describe("SecretDelayWatcher", async () => {
+  const cooldown = 100;
+  const testUri = "ipfsHash";
+  const [user1] = waffle.provider.getWallets();
+
+  const setupWatcher = async () => {
+    const { modifier, startBlock } = await setupModifier({ cooldown });
+    const contract = await ethers.getContractAt(
+      "SecretDelay",
+      modifier.address,
+      user1
+    );
+    const client = new SecretDelayClient(contract);
+    return { modifier, client, contract, startBlock };
+  };
+
+  const transfer = {
+    to: FirstAddress,
+    value: 42,
+    data: "0x",
+    operation: Operation.Call,
+  };
+
+  const tempFile = (name: string) =>
+    path.join(fs.mkdtempSync(path.join(os.tmpdir(), "watcher-")), name);
+
+  const memorySink = (): AlertSink & { alerts: QueueAlert[] } => {
+    const alerts: QueueAlert[] = [];
+    return {
+      name: "memory",
+      alerts,
+      send: async (alert) => {
+        alerts.push(alert);
+      },
+    };
+  };
+
+  // Stub webhook server that records posted bodies and answers with `status`, or never if it is null.
+  const startWebhookServer = async (status: number | null = 200) => {
+    const bodies: unknown[] = [];
+    const server = http.createServer((request, response) => {
+      let body = "";
+      request.on("data", (chunk) => (body += chunk));
+      request.on("end", () => {
+        bodies.push(JSON.parse(body));
+        if (status === null) return;
+        response.statusCode = status;
+        response.end();
+      });
+    });
+    await new Promise<void>((resolve) =>
+      server.listen(0, "127.0.0.1", resolve)
+    );
+    const { port } = server.address() as AddressInfo;
+    return {
+      url: `http://127.0.0.1:${port}/alerts`,
+      bodies,
+      close: () => new Promise((resolve) => server.close(resolve)),
+    };
+  };
+
+  it("alerts on new public and secret entries with the cooldown countdown", async () => {
+    const { client, contract, startBlock } = await setupWatcher();
+    const sink = memorySink();
+    const watcher = new SecretDelayWatcher(contract, {
+      sinks: [sink],
+      startBlock,
+    });
+    const publicTx = await client.enqueue(transfer);
+    const secretTx = await client.enqueueSecret(transfer, testUri);
+
+    const alerts = await watcher.poll();
+
+    expect(alerts).to.deep.equal(sink.alerts);
+    expect(alerts.map(({ nonce, type }) => ({ nonce, type }))).to.deep.equal([
+      { nonce: 0, type: "public" },
+      { nonce: 1, type: "secret" },
+    ]);
+    const createdAt = (await contract.txCreatedAt(1)).toNumber();
+    const latest = await ethers.provider.getBlock("latest");
+    expect(alerts[1]).to.deep.include({
+      modifier: contract.address,
+      txHash: secretTx.txHash,
+      transactionHash: secretTx.transactionHash,
+      createdAt,
+      cooldownEndsAt: createdAt + cooldown,
+      secondsLeft: createdAt + cooldown - latest.timestamp,
+      salt: "0",
+    });
+    expect(alerts[0].tx?.to).to.equal(FirstAddress);
+    expect(alerts[0].txHash).to.equal(publicTx.txHash);
+  });
+
+  it("only alerts once per entry", async () => {
+    const { client, contract, startBlock } = await setupWatcher();
+    const statePath = tempFile("state.json");
+    const sink = memorySink();
+    await client.enqueue(transfer);
+    await new SecretDelayWatcher(contract, {
+      sinks: [sink],
+      statePath,
+      startBlock,
+    }).poll();
+    await client.enqueue(transfer);
+
+    const restarted = new SecretDelayWatcher(contract, {
+      sinks: [sink],
+      statePath,
+    });
+    await restarted.poll();
+    await restarted.poll();
+
+    expect(sink.alerts.map(({ nonce }) => nonce)).to.deep.equal([0, 1]);
+  });
+
+  it("posts alerts to a webhook and appends them to a file", async () => {
+    const { client, contract, startBlock } = await setupWatcher();
+    const server = await startWebhookServer();
+    const file = tempFile("alerts.jsonl");
+    const watcher = new SecretDelayWatcher(contract, {
+      sinks: [webhookSink(server.url), fileSink(file)],
+      startBlock,
+    });
+    await client.enqueueSecret(transfer, testUri);
+
+    try {
+      const [alert] = await watcher.poll();
+
+      expect(server.bodies).to.deep.equal([alert]);
+      expect(
+        fs
+          .readFileSync(file, "utf8")
+          .trim()
+          .split("\n")
+          .map((line) => JSON.parse(line))
+      ).to.deep.equal([alert]);
+    } finally {
+      await server.close();
+    }
+  });
+
+  it("reports failing sinks and still alerts the others", async () => {
+    const { client, contract, startBlock } = await setupWatcher();
+    const server = await startWebhookServer(500);
+    const sink = memorySink();
+    const errors: Error[] = [];
+    const watcher = new SecretDelayWatcher(contract, {
+      sinks: [webhookSink(server.url), sink],
+      startBlock,
+      onError: (error) => errors.push(error),
+    });
+    await client.enqueue(transfer);
+
+    try {
+      await watcher.poll();
+    } finally {
+      await server.close();
+    }
+
+    expect(sink.alerts).to.have.length(1);
+    expect(errors.map(({ message }) => message)).to.deep.equal([
+      `Could not send alert for nonce 0 to webhook ${server.url}: Webhook ${server.url} responded with 500`,
+    ]);
+  });
+
+  it("sends an alert again until all sinks took it", async () => {
+    const { client, contract, startBlock } = await setupWatcher();
+    const cursorPath = tempFile("cursor.json");
+    const sink = memorySink();
+    let failures = 1;
+    const flakySink: AlertSink = {
+      name: "flaky",
+      send: async () => {
+        if (failures-- > 0) throw new Error("unavailable");
+      },
+    };
+    const errors: Error[] = [];
+    const watcher = new SecretDelayWatcher(contract, {
+      sinks: [flakySink, sink],
+      startBlock,
+      cursorPath,
+      onError: (error) => errors.push(error),
+    });
+    await client.enqueue(transfer);
+    await client.enqueue(transfer);
+
+    const failed = await watcher.poll();
+    const retried = await watcher.poll();
+    const idle = await watcher.poll();
+
+    expect(failed).to.deep.equal([]);
+    expect(retried.map(({ nonce }) => nonce)).to.deep.equal([0, 1]);
+    expect(idle).to.deep.equal([]);
+    expect(sink.alerts.map(({ nonce }) => nonce)).to.deep.equal([0, 0, 1]);
+    expect(errors.map(({ message }) => message)).to.deep.equal([
+      "Could not send alert for nonce 0 to flaky: unavailable",
+    ]);
+    expect(JSON.parse(fs.readFileSync(cursorPath, "utf8"))).to.deep.equal({
+      modifier: contract.address,
+      alertedNonce: 2,
+    });
+  });
+
+  it("aborts webhook requests that take too long", async () => {
+    const { contract } = await setupWatcher();
+    const server = await startWebhookServer(null);
+    const alert: QueueAlert = {
+      modifier: contract.address,
+      chainId: 31337,
+      nonce: 0,
+      type: "public",
+      txHash: ethers.constants.HashZero,
+      transactionHash: ethers.constants.HashZero,
+      createdAt: 0,
+      cooldownEndsAt: 0,
+      secondsLeft: 0,
+    };
+
+    try {
+      const error = await webhookSink(server.url, 50)
+        .send(alert)
+        .catch((e: Error) => e);
+
+      expect((error as Error).message).to.equal(
+        `Webhook ${server.url} did not respond within 50 ms`
+      );
+    } finally {
+      await server.close();
+    }
+  });
+
+  it("keeps polling after a failed poll until stopped", async () => {
+    const { client, contract, startBlock } = await setupWatcher();
+    const sink = memorySink();
+    const errors: Error[] = [];
+    const watcher = new SecretDelayWatcher(contract, {
+      sinks: [sink],
+      startBlock,
+      pollInterval: 10,
+      onError: (error) => errors.push(error),
+    });
+    await client.enqueue(transfer);
+    const sync = watcher.indexer.sync.bind(watcher.indexer);
+    watcher.indexer.sync = async () => {
+      watcher.indexer.sync = sync;
+      throw new Error("connection lost");
+    };
+
+    const stopped = watcher.start();
+    while (sink.alerts.length === 0) {
+      await new Promise((resolve) => setTimeout(resolve, 10));
+    }
+    watcher.stop();
+    await stopped;
+
+    expect(errors.map(({ message }) => message)).to.deep.equal([
+      "connection lost",
+    ]);
+    expect(sink.alerts.map(({ nonce }) => nonce)).to.deep.equal([0]);
+  });
+});
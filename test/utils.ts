@@ -18,3 +18,40 @@ export const logGas = async (message: string, tx: Promise<any>): Promise<any> =>
         return result
     })
 }
+
+export interface ModifierOptions {
+  cooldown?: number;
+  expiration?: number;
+  minCooldown?: number;
+  // Index of the signer that owns the modifier, the first one by default.
+  ownerIndex?: number;
+  // Whether the owner is enabled as a module, so it can enqueue transactions. True by default.
+  module?: boolean;
+}
+
+// Deploys a SecretDelay modifier in front of a TestAvatar that holds 1000 wei, with a cooldown of 100 seconds
+// and no expiration unless the options say otherwise.
+export const setupModifier = deployments.createFixture(
+  async (hre, options: ModifierOptions = {}) => {
+    await hre.deployments.fixture();
+    const owner = (await hre.ethers.getSigners())[options.ownerIndex ?? 0];
+    const Avatar = await hre.ethers.getContractFactory("TestAvatar");
+    const avatar = await Avatar.deploy();
+    const Modifier = await hre.ethers.getContractFactory("SecretDelay");
+    const modifier = await Modifier.deploy(
+      owner.address,
+      avatar.address,
+      avatar.address,
+      options.cooldown ?? 100,
+      options.expiration ?? 0,
+      options.minCooldown ?? 0
+    );
+    await avatar.setModule(modifier.address);
+    if (options.module ?? true) {
+      await modifier.connect(owner).enableModule(owner.address);
+    }
+    await owner.sendTransaction({ to: avatar.address, value: 1000 });
+    const startBlock = modifier.deployTransaction.blockNumber as number;
+    return { avatar, modifier, owner, startBlock };
+  }
+);